@@ -0,0 +1,25 @@
+/**
+ * Knowledge Base Ingestion
+ * Indexes a folder of markdown/text docs for the knowledgeBaseSearch tool
+ *
+ * Usage: bun run kb:ingest <folder> [index-path]
+ */
+import { ingestKnowledgeBase, saveKnowledgeIndex } from "@/lib/ai/knowledge-base";
+
+async function main() {
+  const [folder, indexPath] = process.argv.slice(2);
+  if (!folder) {
+    console.error("Usage: bun run kb:ingest <folder> [index-path]");
+    process.exit(1);
+  }
+
+  const index = await ingestKnowledgeBase(folder);
+  const saved = await saveKnowledgeIndex(index, indexPath);
+  const files = new Set(index.chunks.map((chunk) => chunk.url.split("#")[0]));
+  console.log(`Indexed ${index.chunks.length} chunks from ${files.size} files into ${saved}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,486 @@
+#!/usr/bin/env bun
+/**
+ * Tech Referee CLI
+ * Runs a full debate from the terminal with the same agents as the app
+ *
+ * Usage: tech-referee compare "<query>" [--answers answers.json] [--out verdict.json]
+ *        tech-referee bench <suite.json> [--out results.csv]
+ *        tech-referee eval <suite.json> <results.json...>
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import {
+  benchmarkToCsv,
+  benchmarkToJson,
+  createDebateSession,
+  createLocalAgentCaller,
+  describeConfiguration,
+  evaluateRecordedRun,
+  parseBenchmarkSuite,
+  parseRecordedRun,
+  runBenchmark,
+  runDebate,
+  summarizeEvaluation,
+  type DebateResult,
+  type EvaluationSummary,
+} from "@/lib/debate";
+import {
+  AgentFailurePolicySchema,
+  DebateRequestSchema,
+  MAX_DEBATE_ROUNDS,
+  MAX_TOURNAMENT_OPTIONS,
+  ModelIdSchema,
+  UsageBudgetSchema,
+  type ClarificationQuestion,
+  type DebateEvent,
+  type DebateRequest,
+} from "@/lib/types";
+import { sessionToHtml, sessionToMarkdown } from "@/lib/utils";
+
+const USAGE = `Usage:
+  tech-referee compare "<query>" [options]   Run one debate and output the session
+  tech-referee bench <suite.json> [options]  Run a suite of queries and output a results table
+  tech-referee eval <suite.json> <results.json...>
+                                             Score recorded benchmark reports or sessions against
+                                             the suite's expected outcomes, offline
+
+Options:
+  --answers <file>     compare: JSON object of clarification answers, keyed by question id
+  --out <file>         Write to a file instead of stdout (.md writes markdown, .html a standalone
+                       HTML report, .csv writes CSV);
+                       eval writes its JSON summary here
+  --format <format>    compare: json | markdown | html, bench: json | csv (default: from --out extension, else json)
+  --concurrency <n>    bench: debates run at once (default 2)
+  --min-accuracy <x>   eval: exit with 1 when a configuration passes fewer than this share of cases (0-1)
+  --model <id>         Model for every agent, e.g. gemini-3-flash-preview or openai:gpt-4o
+  --parallel <n>       Agents run at once within a debate, 1-3 (default 2)
+  --max-tokens <n>     Token budget per debate; agents stop researching once their share is spent
+  --max-cost <usd>     Estimated cost budget per debate, priced with the default price table
+  --max-searches <n>   Web search budget per debate
+  --on-failure <p>     When an advocate or cross-examiner fails: proceed (default), abort,
+                       or retry=<n> to try it again up to n times (1-5) before proceeding
+  --max-options <n>    Most options the planner may pick, 2-8 (default 3); more than 3 are
+                       debated as a tournament of group matches and a final
+  --rounds <n>         Rounds of argument and cross-examination, 1-3 (default 1); each round
+                       after the first has every advocate rebut the challenges against it
+  --mock               Use the scripted mock model and recorded search results
+  --quiet              Only print the result
+  -h, --help           Show this help
+
+Keys are read from the environment (GOOGLE_GENERATIVE_AI_API_KEY, EXA_API_KEY, ...).
+Exits with 2 when the planner needs clarification and no terminal is attached to answer it.`;
+
+type Clarifications = NonNullable<DebateRequest["clarifications"]>;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+/**
+ * Print debate progress to stderr, keeping stdout for the result
+ */
+function createProgressPrinter(quiet: boolean) {
+  const write = (text: string) => {
+    if (!quiet) process.stderr.write(text);
+  };
+
+  return (event: DebateEvent) => {
+    switch (event.type) {
+      case "phase":
+        if (event.phase !== "clarifying") write(`\n== ${event.phase}\n`);
+        break;
+      case "plan":
+        write(`Options: ${event.plan.options.join(", ")}\n`);
+        write(`Axes: ${event.plan.axes.map((a) => a.name).join(", ")}\n`);
+        break;
+      case "agent-start":
+        if (event.role !== "planner" && event.role !== "referee") {
+          write(`  ${event.role} for ${event.option}${event.round ? ` (round ${event.round})` : ""}...\n`);
+        }
+        break;
+      case "agent-text":
+        // Only the referee's verdict is streamed; parallel agents would interleave
+        if (event.role === "referee") write(event.delta);
+        break;
+      case "advocate": {
+        const { option, sources, error } = event.response;
+        write(error ? `  x advocate for ${option}: ${error}\n` : `  + advocate for ${option} (${sources.length} sources)\n`);
+        break;
+      }
+      case "cross-examination": {
+        const { option, challenges, error } = event.response;
+        write(
+          error
+            ? `  x cross-examiner for ${option}: ${error}\n`
+            : `  + cross-examiner for ${option} (${challenges.length} challenges)\n`
+        );
+        break;
+      }
+      case "rebuttal": {
+        const { option, sources, error } = event.response;
+        write(
+          error
+            ? `  x rebuttal for ${option}: ${error}\n`
+            : `  + rebuttal for ${option}, round ${event.round} (${sources.length} sources)\n`
+        );
+        break;
+      }
+      case "match": {
+        const { round, options, ranking } = event.match;
+        write(
+          ranking
+            ? `\n  > round ${round}: ${ranking[0]} wins over ${ranking.slice(1).join(", ")}\n`
+            : `\n== round ${round}: ${options.join(" vs ")}\n`
+        );
+        break;
+      }
+      case "verdict": {
+        const { option, confidence } = event.result.recommendation;
+        write(`\n\nRecommendation: ${option} (${confidence} confidence)\n`);
+        break;
+      }
+      case "budget":
+        write(`  ! budget: ${event.note}\n`);
+        break;
+      case "retry":
+        write(`  ~ ${event.role} for ${event.option} failed, attempt ${event.attempt}: ${event.error}\n`);
+        break;
+      case "error":
+        write(`${event.context} failed: ${event.error.details ?? event.error.error}\n`);
+        break;
+    }
+  };
+}
+
+/**
+ * Ask clarification questions on the terminal
+ * Choice questions accept option numbers (comma separated for multi) or free text
+ */
+async function askClarifications(questions: ClarificationQuestion[]): Promise<Clarifications> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const answers: Clarifications = {};
+
+  try {
+    for (const question of questions) {
+      console.error(`\n${question.question}`);
+      question.options?.forEach((option, i) => console.error(`  ${i + 1}. ${option}`));
+
+      const input = (await rl.question("> ")).trim();
+      const picked = input
+        .split(",")
+        .map((part) => question.options?.[Number(part.trim()) - 1])
+        .filter((option): option is string => option !== undefined);
+
+      if (question.type === "multi") {
+        answers[question.id] = picked.length > 0 ? picked : [input];
+      } else {
+        answers[question.id] = question.type === "single" && picked.length > 0 ? picked[0] : input;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return answers;
+}
+
+async function readAnswers(path: string): Promise<Clarifications> {
+  const parsed = DebateRequestSchema.shape.clarifications.safeParse(JSON.parse(await readFile(path, "utf8")));
+  if (!parsed.success || !parsed.data) {
+    fail(`${path} must be a JSON object of question id -> answer (string or string[])`);
+  }
+  return parsed.data;
+}
+
+function parseCommandArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      answers: { type: "string" },
+      out: { type: "string" },
+      format: { type: "string" },
+      concurrency: { type: "string", default: "2" },
+      "min-accuracy": { type: "string" },
+      model: { type: "string" },
+      parallel: { type: "string", default: "2" },
+      "max-tokens": { type: "string" },
+      "max-cost": { type: "string" },
+      "max-searches": { type: "string" },
+      "on-failure": { type: "string" },
+      "max-options": { type: "string" },
+      rounds: { type: "string" },
+      mock: { type: "boolean", default: false },
+      quiet: { type: "boolean", default: false },
+    },
+  });
+}
+
+type CommandValues = ReturnType<typeof parseCommandArgs>["values"];
+
+/**
+ * Resolve the output format from --format, else the --out extension
+ */
+function resolveFormat<F extends string>(values: CommandValues, formats: Record<string, F>, fallback: F): F {
+  const format = values.format ?? (values.out ? extname(values.out).slice(1) : fallback);
+  const resolved = formats[format];
+  if (!resolved) fail(`Unknown format: ${format}`);
+  return resolved;
+}
+
+/**
+ * Budget from --max-tokens, --max-cost and --max-searches, or undefined when none is set
+ */
+function resolveBudget(values: CommandValues) {
+  const limits = [values["max-tokens"], values["max-cost"], values["max-searches"]];
+  if (limits.every((limit) => limit === undefined)) return undefined;
+
+  const [maxTokens, maxCostUsd, maxSearchCalls] = limits.map((limit) => (limit === undefined ? undefined : Number(limit)));
+  const budget = UsageBudgetSchema.safeParse({ maxTokens, maxCostUsd, maxSearchCalls });
+  if (!budget.success) fail("--max-tokens and --max-searches must be whole numbers and --max-cost a positive amount");
+  return budget.data;
+}
+
+/**
+ * Failure policy from --on-failure: proceed, abort or retry=<n>
+ */
+function resolveFailurePolicy(values: CommandValues) {
+  const value = values["on-failure"];
+  if (value === undefined) return undefined;
+
+  const [action, attempts] = value.split("=");
+  const policy = AgentFailurePolicySchema.safeParse(
+    action === "retry" ? { action, attempts: Number(attempts ?? 2) } : { action }
+  );
+  if (!policy.success) fail("--on-failure must be proceed, abort or retry=<n> with n from 1 to 5");
+  return policy.data;
+}
+
+/**
+ * Agent models, parallelism, budget, failure policy, option limit and rounds shared by every command
+ */
+function resolveAgentOptions(values: CommandValues) {
+  const maxParallelism = Number(values.parallel);
+  if (![1, 2, 3].includes(maxParallelism)) fail("--parallel must be 1, 2 or 3");
+
+  const maxOptions = values["max-options"] === undefined ? undefined : Number(values["max-options"]);
+  if (maxOptions !== undefined && !DebateRequestSchema.shape.maxOptions.safeParse(maxOptions).success) {
+    fail(`--max-options must be a whole number from 2 to ${MAX_TOURNAMENT_OPTIONS}`);
+  }
+
+  const rounds = values.rounds === undefined ? undefined : Number(values.rounds);
+  if (rounds !== undefined && !DebateRequestSchema.shape.rounds.safeParse(rounds).success) {
+    fail(`--rounds must be a whole number from 1 to ${MAX_DEBATE_ROUNDS}`);
+  }
+
+  const model = values.model === undefined ? undefined : ModelIdSchema.safeParse(values.model);
+  if (model && !model.success) fail(`Unsupported model: ${values.model}`);
+
+  const agentConfig = model ? { model: model.data } : undefined;
+  const agents: DebateRequest["agents"] = {
+    planner: agentConfig,
+    advocate: agentConfig,
+    "cross-examiner": agentConfig,
+    referee: agentConfig,
+  };
+
+  // Keys come from the environment, exactly as the routes resolve them
+  return {
+    agents,
+    maxParallelism,
+    budget: resolveBudget(values),
+    failurePolicy: resolveFailurePolicy(values),
+    maxOptions,
+    rounds,
+    credentials: values.mock ? { mock: true } : {},
+  };
+}
+
+async function readSuite(path: string) {
+  const parsed = parseBenchmarkSuite(JSON.parse(await readFile(path, "utf8")));
+  if (!parsed.success) {
+    fail(`Invalid suite ${path}:\n${parsed.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`).join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Print a configuration's accuracy and the checks each failing case missed
+ */
+function printEvaluation(summary: EvaluationSummary, write: (text: string) => void) {
+  const percent = (summary.accuracy * 100).toFixed(0);
+  write(
+    `${summary.configuration}: ${summary.casesPassed}/${summary.cases.length} cases passed (${percent}%), ` +
+      `${summary.checksPassed}/${summary.checksTotal} checks`
+  );
+  for (const evaluation of summary.cases.filter((c) => !c.passed)) {
+    for (const check of evaluation.checks.filter((c) => !c.passed)) {
+      write(`  x ${evaluation.caseId}: ${check.name}${check.detail ? ` (${check.detail})` : ""}`);
+    }
+  }
+}
+
+async function writeOutput(values: CommandValues, output: string, label: string) {
+  if (values.out) {
+    await writeFile(values.out, output);
+    if (!values.quiet) console.error(`\nSaved ${label} to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function compare(args: string[]) {
+  const { values, positionals } = parseCommandArgs(args);
+
+  const query = positionals.join(" ").trim();
+  if (!query) fail("Missing query");
+
+  const format = resolveFormat(values, { json: "json", md: "markdown", markdown: "markdown", html: "html" }, "json");
+  const { agents, maxParallelism, budget, failurePolicy, maxOptions, rounds, credentials } = resolveAgentOptions(values);
+
+  const createdAt = new Date();
+  const sessionId = crypto.randomUUID();
+  const onEvent = createProgressPrinter(values.quiet);
+  let clarifications = values.answers ? await readAnswers(values.answers) : undefined;
+  const questions: ClarificationQuestion[] = [];
+  let debate: DebateResult;
+
+  while (true) {
+    debate = await runDebate({
+      query,
+      clarifications,
+      sessionId,
+      agents,
+      maxParallelism,
+      budget,
+      failurePolicy,
+      maxOptions,
+      rounds,
+      credentials,
+      callAgent: createLocalAgentCaller(),
+      onEvent,
+    });
+
+    if (debate.status !== "clarifying" || !debate.clarifications) break;
+    if (!process.stdin.isTTY) {
+      console.error("The planner needs clarification. Answer these questions in an --answers file:");
+      console.error(JSON.stringify(debate.clarifications, null, 2));
+      process.exit(2);
+    }
+    questions.push(...debate.clarifications);
+    clarifications = { ...clarifications, ...(await askClarifications(debate.clarifications)) };
+  }
+
+  const session = createDebateSession(query, debate, { id: sessionId, createdAt, clarifications, questions, agents, rounds });
+  const output =
+    format === "markdown"
+      ? sessionToMarkdown(session)
+      : format === "html"
+        ? sessionToHtml(session)
+        : `${JSON.stringify(session, null, 2)}\n`;
+
+  await writeOutput(values, output, `${format} session`);
+  if (debate.status === "error") process.exit(1);
+}
+
+async function bench(args: string[]) {
+  const { values, positionals } = parseCommandArgs(args);
+
+  const [suitePath] = positionals;
+  if (!suitePath) fail("Missing suite file");
+  const suite = await readSuite(suitePath);
+
+  const format = resolveFormat(values, { json: "json", csv: "csv" }, "json");
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail("--concurrency must be a positive integer");
+
+  const { agents, maxParallelism, budget, failurePolicy, maxOptions, rounds, credentials } = resolveAgentOptions(values);
+  const configuration = describeConfiguration(agents, { mock: values.mock });
+  const log = (text: string) => {
+    if (!values.quiet) console.error(text);
+  };
+
+  const startedAt = new Date().toISOString();
+  const rows = await runBenchmark({
+    suite,
+    concurrency,
+    maxParallelism,
+    agents,
+    budget,
+    failurePolicy,
+    maxOptions,
+    rounds,
+    credentials,
+    callAgent: createLocalAgentCaller(),
+    onCaseStart: (testCase, index) => log(`[${index + 1}/${suite.cases.length}] ${testCase.query}`),
+    onCaseComplete: (row, index) =>
+      log(
+        `[${index + 1}/${suite.cases.length}] ${row.status}: ${row.recommendation ?? row.error} ` +
+          `(${(row.latencyMs / 1000).toFixed(1)}s, ${row.usage.totalTokens} tokens, ${row.usage.searchCalls} searches)`
+      ),
+  });
+
+  const evaluations = rows.flatMap((row) => (row.evaluation ? [row.evaluation] : []));
+  if (evaluations.length > 0) {
+    log("");
+    printEvaluation(summarizeEvaluation(configuration, evaluations), log);
+  }
+
+  const output =
+    format === "csv"
+      ? benchmarkToCsv(rows)
+      : benchmarkToJson({ suite: suite.name, configuration, startedAt, agents, rows });
+  await writeOutput(values, output, `${format} results`);
+}
+
+async function evaluate(args: string[]) {
+  const { values, positionals } = parseCommandArgs(args);
+
+  const [suitePath, ...recordedPaths] = positionals;
+  if (!suitePath || recordedPaths.length === 0) fail("Expected a suite file and at least one recorded results file");
+  const suite = await readSuite(suitePath);
+
+  const minAccuracy = values["min-accuracy"] === undefined ? undefined : Number(values["min-accuracy"]);
+  if (minAccuracy !== undefined && !(minAccuracy >= 0 && minAccuracy <= 1)) fail("--min-accuracy must be between 0 and 1");
+
+  const summaries: EvaluationSummary[] = [];
+  for (const path of recordedPaths) {
+    const run = parseRecordedRun(JSON.parse(await readFile(path, "utf8")), basename(path));
+    if (!run) fail(`${path} is not a benchmark JSON report or saved session`);
+    summaries.push(evaluateRecordedRun(suite, run));
+  }
+
+  if (summaries.every((summary) => summary.cases.length === 0)) {
+    fail(`${suitePath} declares no expected outcomes ("expect") to check`);
+  }
+
+  summaries.forEach((summary) => printEvaluation(summary, (text) => console.log(text)));
+  if (values.out) {
+    await writeOutput(values, `${JSON.stringify(summaries, null, 2)}\n`, "evaluation");
+  }
+
+  if (minAccuracy !== undefined && summaries.some((summary) => summary.accuracy < minAccuracy)) {
+    process.exit(1);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === "-h" || command === "--help") {
+    console.log(USAGE);
+    return;
+  }
+  if (command === "compare") return compare(args);
+  if (command === "bench") return bench(args);
+  if (command === "eval") return evaluate(args);
+  fail(`Unknown command: ${command}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,17 +3,32 @@
  * Executes advocate agent for a single option with web research
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 9.2
  */
-import { streamText, stepCountIs } from "ai";
+import {
+  streamText,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
 import { z } from "zod";
-import { getModel } from "@/lib/ai/provider";
+import { getAgentCallSettings, findMissingProviderKey, isMockMode } from "@/lib/ai/provider";
 import { createResearchTools } from "@/lib/ai/tools";
 import { ADVOCATE_SYSTEM_PROMPT, injectOption } from "@/lib/ai/prompts";
-import { AdvocateRequestSchema } from "@/lib/types";
+import { collectSearchSources } from "@/lib/ai/sources";
+import { summarizeAgentUsage } from "@/lib/ai/usage";
+import { createBudgetGuard } from "@/lib/ai/budget";
+import {
+  AdvocateRequestSchema,
+  ProviderCredentialsSchema,
+  SearchSettingsSchema,
+  type AdvocateRequest,
+  type Challenge,
+} from "@/lib/types";
 import {
   createValidationError,
   createMissingKeyError,
   errorResponse,
   handleAPIError,
+  formatStreamError,
+  extractListSection,
 } from "@/lib/utils";
 
 // Allow longer execution for agent with tool calls
@@ -23,6 +38,9 @@ export const maxDuration = 60;
 const ExtendedAdvocateRequestSchema = AdvocateRequestSchema.extend({
   apiKey: z.string().optional(),
   exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
 });
 
 export async function POST(req: Request) {
@@ -35,41 +53,74 @@ export async function POST(req: Request) {
       return errorResponse(createValidationError(parseResult.error));
     }
 
-    const { option, plan, sessionId, apiKey, exaApiKey } = parseResult.data;
+    const { option, plan, rebuttal, sessionId, apiKey, exaApiKey, providers, search, mock: mockRequested, model, generation, budget } = parseResult.data;
 
-    // Check for API keys
-    const geminiKey = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    // Resolve the agent's model and check its provider's API key
+    const mock = isMockMode(mockRequested);
+    const credentials = { ...providers, google: { apiKey } };
+    const { config, callSettings } = getAgentCallSettings("advocate", credentials, { model, generation, mock });
     const exaKey = exaApiKey || process.env.EXA_API_KEY;
 
-    if (!geminiKey) {
-      return errorResponse(createMissingKeyError("Gemini"));
+    const missingKey = findMissingProviderKey(config.model, credentials);
+    if (missingKey) {
+      return errorResponse(createMissingKeyError(missingKey, config.model));
     }
 
     // Create tools for the advocate agent
-    const tools = createResearchTools(exaKey);
+    const tools = createResearchTools(exaKey, { mock, search });
+
+    // Stop the tool loop once this agent's share of the session budget is spent
+    const usageContext = { model: config.model, mock, search };
+    const budgetGuard = createBudgetGuard(budget, usageContext);
 
-    // Build the prompt with plan context
-    const planContext = buildPlanContext(plan, option);
+    // Build the prompt with plan context, or with the challenges to answer in a rebuttal round
+    const planContext = rebuttal ? buildRebuttalContext(plan, option, rebuttal) : buildPlanContext(plan, option);
     const systemPrompt = injectOption(ADVOCATE_SYSTEM_PROMPT, option);
 
-    // Use streamText for streaming response
-    const result = streamText({
-      model: getModel(geminiKey),
-      system: systemPrompt,
-      prompt: planContext,
-      tools: {
-        webSearch: tools.webSearch,
+    // Stream the argument, then append retrieved sources and acknowledged weaknesses
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        const result = streamText({
+          ...callSettings, // Step limit allows multiple tool calls for thorough research
+          system: systemPrompt,
+          prompt: planContext,
+          tools,
+          prepareStep: budgetGuard.prepareStep,
+        });
+
+        writer.merge(result.toUIMessageStream({ sendFinish: false }));
+
+        const steps = await result.steps;
+        const argument = steps.map((step) => step.text).join("");
+
+        writer.write({
+          type: "data-advocate",
+          data: {
+            sources: collectSearchSources(steps, argument),
+            weaknesses: extractListSection(argument, /weakness|limitation/i),
+          },
+        });
+        const usage = summarizeAgentUsage([await result.totalUsage], steps, { ...usageContext, budgetLimited: budgetGuard.limited });
+        writer.write({ type: "data-usage", data: usage });
       },
-      stopWhen: stepCountIs(10), // Allow multiple tool calls for thorough research
+      onError: (err) => formatStreamError(err, "Advocate"),
     });
 
-    // Return streaming response
-    return result.toTextStreamResponse();
+    return createUIMessageStreamResponse({ stream });
   } catch (err) {
     return handleAPIError(err, "Advocate");
   }
 }
 
+/**
+ * The user's constraints as a markdown list - rebuttals answer to them as much as opening arguments do
+ */
+function formatConstraints(plan: AdvocateRequest["plan"]): string {
+  return plan.constraints
+    .map((c) => `- ${c.type}: ${c.description}${c.value ? ` (${c.value})` : ""}`)
+    .join("\n");
+}
+
 /**
  * Build context prompt from comparison plan for the advocate
  */
@@ -77,9 +128,7 @@ function buildPlanContext(
   plan: z.infer<typeof AdvocateRequestSchema>["plan"],
   option: string
 ): string {
-  const constraintsText = plan.constraints
-    .map((c) => `- ${c.type}: ${c.description}${c.value ? ` (${c.value})` : ""}`)
-    .join("\n");
+  const constraintsText = formatConstraints(plan);
 
   const axesText = plan.axes
     .map((a) => `- ${a.name} (weight: ${a.weight}/10): ${a.description}`)
@@ -108,8 +157,70 @@ Remember to:
 2. Cite sources for every factual claim with URLs
 3. Address ALL comparison axes listed above
 4. Explain how ${option} handles the user's constraints
-5. Be honest about weaknesses - this builds credibility
+5. Be honest about weaknesses - list them as bullet points under an "Acknowledged Weaknesses" heading
 6. Compare against ${otherOptions.join(" and ")} where relevant
 
 Format your response in clear markdown with sections for each axis.`;
 }
+
+/**
+ * Build the prompt for a rebuttal round: the advocate's last argument and the challenges against it
+ */
+function buildRebuttalContext(
+  plan: AdvocateRequest["plan"],
+  option: string,
+  rebuttal: NonNullable<AdvocateRequest["rebuttal"]>
+): string {
+  const constraintsText = formatConstraints(plan);
+
+  const axesText = plan.axes
+    .map((a) => `- ${a.name} (weight: ${a.weight}/10): ${a.description}`)
+    .join("\n");
+
+  const challengesText = rebuttal.challenges.length > 0
+    ? rebuttal.challenges.map(formatChallenge).join("\n\n")
+    : "No challenges were raised against your argument.";
+
+  return `## Rebuttal Context
+
+You are rebutting for: **${option}** (round ${rebuttal.round})
+
+### Options Being Compared
+${plan.options.map((o) => `- ${o}${o === option ? " (YOUR OPTION)" : ""}`).join("\n")}
+
+### User Constraints
+${constraintsText || "No specific constraints provided."}
+
+### Comparison Axes (Evaluation Criteria)
+${axesText}
+
+---
+
+## YOUR PREVIOUS ARGUMENT
+
+${rebuttal.ownArgument.argument}
+
+---
+
+## CHALLENGES AGAINST ${option}
+
+${challengesText}
+
+---
+
+### Your Task
+Answer every challenge above. For each one, either concede it plainly or refute it with new evidence from web search, citing sources with URLs. Do not repeat your previous argument; restate only the points the challenges change.
+
+Finish with the weaknesses you still acknowledge as bullet points under an "Acknowledged Weaknesses" heading.`;
+}
+
+/**
+ * Format a cross-examiner's challenge, with its fact-check when there is one
+ */
+function formatChallenge(challenge: Challenge): string {
+  const lines = [`- **Claim**: "${challenge.claim}"`, `- **Critique**: ${challenge.critique}`];
+  if (challenge.factCheck) {
+    lines.push(`- **Fact-check**: ${challenge.factCheck.verdict} - ${challenge.factCheck.evidence}`);
+  }
+  return lines.join("\n");
+}
@@ -3,13 +3,23 @@
  * Executes cross-examination for a single advocate - challenges opponents and defends own option
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 9.3
  */
-import { streamText, stepCountIs } from "ai";
+import {
+  streamText,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
 import { z } from "zod";
-import { getModel } from "@/lib/ai/provider";
+import { getAgentCallSettings, findMissingProviderKey, isMockMode } from "@/lib/ai/provider";
 import { createResearchTools } from "@/lib/ai/tools";
 import { CROSS_EXAMINER_SYSTEM_PROMPT, injectOption } from "@/lib/ai/prompts";
+import { collectSearchSources } from "@/lib/ai/sources";
+import { extractChallenges } from "@/lib/ai/challenges";
+import { summarizeAgentUsage } from "@/lib/ai/usage";
+import { createBudgetGuard } from "@/lib/ai/budget";
 import {
   CrossExamineRequestSchema,
+  ProviderCredentialsSchema,
+  SearchSettingsSchema,
   type AdvocateResponse,
   type ComparisonPlan,
 } from "@/lib/types";
@@ -20,6 +30,7 @@ import {
   ErrorCode,
   errorResponse,
   handleAPIError,
+  formatStreamError,
 } from "@/lib/utils";
 
 // Allow longer execution for agent with tool calls
@@ -29,6 +40,9 @@ export const maxDuration = 60;
 const ExtendedCrossExamineRequestSchema = CrossExamineRequestSchema.extend({
   apiKey: z.string().optional(),
   exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
 });
 
 export async function POST(req: Request) {
@@ -41,7 +55,7 @@ export async function POST(req: Request) {
       return errorResponse(createValidationError(parseResult.error));
     }
 
-    const { option, ownArgument, opponentArguments, plan, apiKey, exaApiKey } = parseResult.data;
+    const { option, ownArgument, opponentArguments, plan, apiKey, exaApiKey, providers, search, mock: mockRequested, model, generation, budget } = parseResult.data;
 
     // Validate that we have opponent arguments (Requirement 4.1)
     if (opponentArguments.length === 0) {
@@ -55,34 +69,63 @@ export async function POST(req: Request) {
       );
     }
 
-    // Check for API keys
-    const geminiKey = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    // Resolve the agent's model and check its provider's API key
+    const mock = isMockMode(mockRequested);
+    const credentials = { ...providers, google: { apiKey } };
+    const { config, callSettings } = getAgentCallSettings("cross-examiner", credentials, { model, generation, mock });
     const exaKey = exaApiKey || process.env.EXA_API_KEY;
 
-    if (!geminiKey) {
-      return errorResponse(createMissingKeyError("Gemini"));
+    const missingKey = findMissingProviderKey(config.model, credentials);
+    if (missingKey) {
+      return errorResponse(createMissingKeyError(missingKey, config.model));
     }
 
     // Create tools for fact-checking (Requirement 4.4)
-    const tools = createResearchTools(exaKey);
+    const tools = createResearchTools(exaKey, { mock, search });
+
+    // Cap fact-checking at this cross-examiner's share of the session budget
+    const usageContext = { model: config.model, mock, search };
+    const budgetGuard = createBudgetGuard(budget, usageContext);
 
     // Build the prompt with all arguments context
     const crossExamContext = buildCrossExamContext(plan, option, ownArgument, opponentArguments);
     const systemPrompt = injectOption(CROSS_EXAMINER_SYSTEM_PROMPT, option);
 
-    // Use streamText for streaming response (Requirement 9.3)
-    const result = streamText({
-      model: getModel(geminiKey),
-      system: systemPrompt,
-      prompt: crossExamContext,
-      tools: {
-        webSearch: tools.webSearch,
+
+    // Stream the cross-examination, then append the typed challenges as a data part
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        // Use streamText for streaming response (Requirement 9.3)
+        const result = streamText({
+          ...callSettings, // Step limit allows multiple tool calls for thorough fact-checking
+          system: systemPrompt,
+          prompt: crossExamContext,
+          tools,
+          prepareStep: budgetGuard.prepareStep,
+        });
+
+        writer.merge(result.toUIMessageStream({ sendFinish: false }));
+
+        const steps = await result.steps;
+        const text = steps.map((step) => step.text).join("");
+        const usages = [await result.totalUsage];
+        const challenges = await extractChallenges({
+          model: callSettings.model,
+          option,
+          opponentOptions: opponentArguments.map((arg) => arg.option),
+          text,
+          retrievedSources: collectSearchSources(steps, text),
+          onUsage: (usage) => usages.push(usage),
+        });
+
+        writer.write({ type: "data-cross-examination", data: { challenges } });
+        const usage = summarizeAgentUsage(usages, steps, { ...usageContext, budgetLimited: budgetGuard.limited });
+        writer.write({ type: "data-usage", data: usage });
       },
-      stopWhen: stepCountIs(10), // Allow multiple tool calls for thorough fact-checking
+      onError: (err) => formatStreamError(err, "Cross-Examine"),
     });
 
-    // Return streaming response
-    return result.toTextStreamResponse();
+    return createUIMessageStreamResponse({ stream });
   } catch (err) {
     return handleAPIError(err, "Cross-Examine");
   }
@@ -0,0 +1,57 @@
+/**
+ * Debate API Route
+ * Runs the full planner -> advocates -> cross-examiners -> referee flow server-side,
+ * streaming typed phase events as `data-debate` parts
+ */
+import { createUIMessageStream, createUIMessageStreamResponse } from "ai";
+import { z } from "zod";
+import { runDebate, createLocalAgentCaller } from "@/lib/debate";
+import { DebateRequestSchema, ProviderCredentialsSchema, SearchSettingsSchema } from "@/lib/types";
+import {
+  createValidationError,
+  errorResponse,
+  handleAPIError,
+  formatStreamError,
+} from "@/lib/utils";
+
+// The whole debate runs in one request
+export const maxDuration = 300;
+
+// Extended request schema to include API keys from client
+const ExtendedDebateRequestSchema = DebateRequestSchema.extend({
+  apiKey: z.string().optional(),
+  exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
+});
+
+export async function POST(req: Request) {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const parseResult = ExtendedDebateRequestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return errorResponse(createValidationError(parseResult.error));
+    }
+
+    const { apiKey, exaApiKey, providers, search, mock, ...request } = parseResult.data;
+
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        await runDebate({
+          ...request,
+          credentials: { apiKey, exaApiKey, providers, search, mock },
+          callAgent: createLocalAgentCaller(),
+          onEvent: (event) => writer.write({ type: "data-debate", data: event }),
+        });
+      },
+      onError: (err) => formatStreamError(err, "Debate"),
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  } catch (err) {
+    return handleAPIError(err, "Debate");
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Follow-up API Route
+ * Lets the referee answer questions about a finished verdict, updating it when the answer changes it
+ */
+import {
+  streamText,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
+import { z } from "zod";
+import { getAgentCallSettings, findMissingProviderKey, isMockMode } from "@/lib/ai/provider";
+import { createResearchTools } from "@/lib/ai/tools";
+import { FOLLOW_UP_SYSTEM_PROMPT } from "@/lib/ai/prompts";
+import { extractRefereeVerdict } from "@/lib/ai/verdict";
+import { summarizeAgentUsage } from "@/lib/ai/usage";
+import { createBudgetGuard } from "@/lib/ai/budget";
+import {
+  FollowUpRequestSchema,
+  ProviderCredentialsSchema,
+  SearchSettingsSchema,
+  type FollowUpRequest,
+} from "@/lib/types";
+import {
+  createValidationError,
+  createMissingKeyError,
+  errorResponse,
+  handleAPIError,
+  formatStreamError,
+} from "@/lib/utils";
+
+// Allow longer execution for agent with tool calls
+export const maxDuration = 60;
+
+// Heading that marks a changed verdict at the end of an answer
+const UPDATED_VERDICT_HEADING = /^##\s+Updated Verdict\s*$/im;
+
+// Extended request schema to include API keys from client
+const ExtendedFollowUpRequestSchema = FollowUpRequestSchema.extend({
+  apiKey: z.string().optional(),
+  exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parseResult = ExtendedFollowUpRequestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return errorResponse(createValidationError(parseResult.error));
+    }
+
+    const { plan, apiKey, exaApiKey, providers, search, mock: mockRequested, model, generation, budget } = parseResult.data;
+
+    // Follow-ups are answered by the referee's model
+    const mock = isMockMode(mockRequested);
+    const credentials = { ...providers, google: { apiKey } };
+    const { config, callSettings } = getAgentCallSettings("referee", credentials, { model, generation, mock });
+    const exaKey = exaApiKey || process.env.EXA_API_KEY;
+
+    const missingKey = findMissingProviderKey(config.model, credentials);
+    if (missingKey) {
+      return errorResponse(createMissingKeyError(missingKey, config.model));
+    }
+
+    const tools = createResearchTools(exaKey, { mock, search });
+    const usageContext = { model: config.model, mock, search };
+    const budgetGuard = createBudgetGuard(budget, usageContext);
+
+    // Stream the answer, then append the updated verdict if the answer changed it
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        const result = streamText({
+          ...callSettings,
+          system: FOLLOW_UP_SYSTEM_PROMPT,
+          prompt: buildFollowUpContext(parseResult.data),
+          tools,
+          prepareStep: budgetGuard.prepareStep,
+        });
+
+        writer.merge(result.toUIMessageStream({ sendFinish: false }));
+
+        const steps = await result.steps;
+        const answer = steps.map((step) => step.text).join("");
+        const usages = [await result.totalUsage];
+
+        const updated = findUpdatedVerdict(answer);
+        if (updated) {
+          const verdict = await extractRefereeVerdict({
+            model: callSettings.model,
+            plan,
+            summary: updated,
+            onUsage: (usage) => usages.push(usage),
+          });
+          writer.write({ type: "data-verdict", data: verdict });
+        }
+
+        const usage = summarizeAgentUsage(usages, steps, { ...usageContext, budgetLimited: budgetGuard.limited });
+        writer.write({ type: "data-usage", data: usage });
+      },
+      onError: (err) => formatStreamError(err, "Follow-up"),
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  } catch (err) {
+    return handleAPIError(err, "Follow-up");
+  }
+}
+
+/**
+ * The "Updated Verdict" section of an answer, or undefined when the verdict stands
+ */
+function findUpdatedVerdict(answer: string): string | undefined {
+  const match = UPDATED_VERDICT_HEADING.exec(answer);
+  if (!match) return undefined;
+  const section = answer.slice(match.index + match[0].length).trim();
+  return section || undefined;
+}
+
+/**
+ * Build the follow-up prompt: the debate record, the standing verdict, earlier follow-ups and the question
+ */
+function buildFollowUpContext(request: FollowUpRequest): string {
+  const { plan, result, question } = request;
+
+  const constraintsText = plan.constraints
+    .map((c) => `- **${c.type}**: ${c.description}${c.value ? ` (${c.value})` : ""}`)
+    .join("\n");
+
+  const axesText = plan.axes
+    .map((a) => `- **${a.name}** (weight: ${a.weight}/10): ${a.description}`)
+    .join("\n");
+
+  const argumentsText = request.arguments
+    .filter((arg) => !arg.error)
+    .map((arg) => `### Advocate for ${arg.option}\n\n${arg.argument}`)
+    .join("\n\n");
+
+  // Challenges only; the full cross-examination prose adds little once the verdict is in
+  const challengesText = [...request.crossExaminations, ...(request.rounds ?? []).flatMap((r) => r.crossExaminations)]
+    .flatMap((ce) => ce.challenges.map((ch) => `- **${ce.option} → ${ch.targetOption}:** "${ch.claim}" - ${ch.critique}`))
+    .join("\n");
+
+  const rebuttalsText = (request.rounds ?? [])
+    .flatMap((round) => round.rebuttals.filter((r) => !r.error).map((r) => `### Rebuttal by ${r.option} (round ${round.round})\n\n${r.argument}`))
+    .join("\n\n");
+
+  const scoresText = result.scores
+    .map((s) => `- ${s.axis}: ${Object.entries(s.scores).map(([option, score]) => `${option}=${score}`).join(", ")}`)
+    .join("\n");
+
+  const historyText = (request.followUps ?? [])
+    .map((f) => `**Q:** ${f.question}\n\n**A:** ${f.answer}`)
+    .join("\n\n---\n\n");
+
+  return `## COMPARISON PLAN
+
+**Options Being Compared:** ${plan.options.join(", ")}
+
+### User Constraints
+${constraintsText || "No specific constraints provided."}
+
+### Comparison Axes
+${axesText}
+
+---
+
+## ADVOCATE ARGUMENTS
+
+${argumentsText}
+${rebuttalsText ? `\n## REBUTTALS\n\n${rebuttalsText}\n` : ""}
+## CHALLENGES
+
+${challengesText || "No challenges raised."}
+
+---
+
+## YOUR VERDICT
+
+**Current Recommendation:** ${result.recommendation.option} (${result.recommendation.confidence} confidence)
+
+${result.recommendation.reasoning}
+
+**Scores:**
+${scoresText || "No scores recorded."}
+
+**Caveats:**
+${result.caveats.map((c) => `- ${c}`).join("\n") || "None"}
+
+---
+${historyText ? `
+## EARLIER FOLLOW-UPS
+
+${historyText}
+
+---
+` : ""}
+## Follow-up Question
+
+${question}`;
+}
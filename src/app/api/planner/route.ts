@@ -3,13 +3,18 @@
  * Receives user query, returns comparison plan with optional clarification questions
  * Requirements: 1.1, 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 2.7, 2.8, 9.1
  */
-import { generateText, Output, stepCountIs } from "ai";
+import { generateText, Output } from "ai";
 import { z } from "zod";
-import { getModel } from "@/lib/ai/provider";
+import { getAgentCallSettings, findMissingProviderKey, isMockMode } from "@/lib/ai/provider";
 import { createPlannerTools } from "@/lib/ai/tools";
-import { PLANNER_SYSTEM_PROMPT } from "@/lib/ai/prompts";
+import { PLANNER_SYSTEM_PROMPT, injectMaxOptions } from "@/lib/ai/prompts";
+import { summarizeAgentUsage } from "@/lib/ai/usage";
+import { createBudgetGuard } from "@/lib/ai/budget";
 import {
+  MAX_DEBATE_OPTIONS,
   PlannerRequestSchema,
+  ProviderCredentialsSchema,
+  SearchSettingsSchema,
   ComparisonPlanSchema,
   ClarificationQuestionSchema,
 } from "@/lib/types";
@@ -28,6 +33,9 @@ export const maxDuration = 60;
 const ExtendedPlannerRequestSchema = PlannerRequestSchema.extend({
   apiKey: z.string().optional(),
   exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
 });
 
 // Response schema for planner output
@@ -47,14 +55,17 @@ export async function POST(req: Request) {
       return errorResponse(createValidationError(parseResult.error));
     }
 
-    const { query, clarifications, apiKey, exaApiKey } = parseResult.data;
+    const { query, clarifications, apiKey, exaApiKey, providers, search, mock: mockRequested, model, generation, budget, maxOptions = MAX_DEBATE_OPTIONS } = parseResult.data;
 
-    // Check for API keys
-    const geminiKey = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    // Resolve the agent's model and check its provider's API key
+    const mock = isMockMode(mockRequested);
+    const credentials = { ...providers, google: { apiKey } };
+    const { config, callSettings } = getAgentCallSettings("planner", credentials, { model, generation, mock });
     const exaKey = exaApiKey || process.env.EXA_API_KEY;
 
-    if (!geminiKey) {
-      return errorResponse(createMissingKeyError("Gemini"));
+    const missingKey = findMissingProviderKey(config.model, credentials);
+    if (missingKey) {
+      return errorResponse(createMissingKeyError(missingKey, config.model));
     }
 
     // Build the prompt with any clarification answers
@@ -70,18 +81,22 @@ export async function POST(req: Request) {
     }
 
     // Create tools for the planner agent
-    const tools = createPlannerTools(exaKey);
+    const tools = createPlannerTools(exaKey, { mock, search });
+
+    // Stop searching once the planner has spent its share of the session budget
+    const usageContext = { model: config.model, mock, search };
+    const budgetGuard = createBudgetGuard(budget, usageContext);
 
     // First, try to generate a structured plan
     // Use generateText with Output.object for structured output
     const result = await generateText({
-      model: getModel(geminiKey),
-      system: PLANNER_SYSTEM_PROMPT,
+      ...callSettings, // Step limit allows multiple tool calls for research
+      system: injectMaxOptions(PLANNER_SYSTEM_PROMPT, maxOptions),
       prompt,
       tools: {
         webSearch: tools.webSearch,
       },
-      stopWhen: stepCountIs(5), // Allow multiple tool calls for research
+      prepareStep: budgetGuard.prepareStep,
       output: Output.object({
         schema: PlannerOutputSchema,
       }),
@@ -89,6 +104,7 @@ export async function POST(req: Request) {
 
     // Check if the output indicates clarification is needed
     const output = result.output;
+    const usage = summarizeAgentUsage([result.totalUsage], result.steps, { ...usageContext, budgetLimited: budgetGuard.limited });
 
     if (!output) {
       return errorResponse(createAgentError("The planner agent did not produce a valid output"));
@@ -98,6 +114,7 @@ export async function POST(req: Request) {
     if (output.needsClarification && output.clarifications?.length) {
       return Response.json({
         clarifications: output.clarifications,
+        usage,
       });
     }
 
@@ -107,8 +124,17 @@ export async function POST(req: Request) {
         return errorResponse(createAgentError("The planner could not identify comparison options"));
       }
 
+      // Models do not always respect the limit in the prompt
+      const options = output.plan.options.slice(0, maxOptions);
+      const plan = {
+        ...output.plan,
+        options,
+        assignments: output.plan.assignments.filter((a) => options.includes(a.option)),
+      };
+
       return Response.json({
-        plan: output.plan,
+        plan,
+        usage,
       });
     }
 
@@ -3,16 +3,26 @@
  * Synthesizes all arguments into final recommendation with scores, tradeoffs, and caveats
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 5.6, 5.7, 9.4
  */
-import { streamText, stepCountIs } from "ai";
+import {
+  streamText,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
 import { z } from "zod";
-import { getModel } from "@/lib/ai/provider";
+import { getAgentCallSettings, findMissingProviderKey, isMockMode } from "@/lib/ai/provider";
 import { createResearchTools } from "@/lib/ai/tools";
 import { REFEREE_SYSTEM_PROMPT } from "@/lib/ai/prompts";
+import { extractRefereeVerdict } from "@/lib/ai/verdict";
+import { summarizeAgentUsage } from "@/lib/ai/usage";
+import { createBudgetGuard } from "@/lib/ai/budget";
 import {
   RefereeRequestSchema,
+  ProviderCredentialsSchema,
+  SearchSettingsSchema,
   type AdvocateResponse,
   type CrossExamineResponse,
   type ComparisonPlan,
+  type DebateRound,
 } from "@/lib/types";
 import {
   createValidationError,
@@ -21,6 +31,7 @@ import {
   ErrorCode,
   errorResponse,
   handleAPIError,
+  formatStreamError,
 } from "@/lib/utils";
 
 // Allow longer execution for agent with tool calls
@@ -30,6 +41,9 @@ export const maxDuration = 60;
 const ExtendedRefereeRequestSchema = RefereeRequestSchema.extend({
   apiKey: z.string().optional(),
   exaApiKey: z.string().optional(),
+  providers: ProviderCredentialsSchema.optional(),
+  search: SearchSettingsSchema.optional(),
+  mock: z.boolean().optional(),
 });
 
 export async function POST(req: Request) {
@@ -42,7 +56,7 @@ export async function POST(req: Request) {
       return errorResponse(createValidationError(parseResult.error));
     }
 
-    const { plan, arguments: advocateArguments, crossExaminations, apiKey, exaApiKey } = parseResult.data;
+    const { plan, arguments: advocateArguments, crossExaminations, rounds, apiKey, exaApiKey, providers, search, mock: mockRequested, model, generation, budget } = parseResult.data;
 
     // Validate that we have all required inputs (Requirement 5.1)
     if (advocateArguments.length === 0) {
@@ -67,47 +81,74 @@ export async function POST(req: Request) {
       );
     }
 
-    // Check for API keys
-    const geminiKey = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    // Resolve the agent's model and check its provider's API key
+    const mock = isMockMode(mockRequested);
+    const credentials = { ...providers, google: { apiKey } };
+    const { config, callSettings } = getAgentCallSettings("referee", credentials, { model, generation, mock });
     const exaKey = exaApiKey || process.env.EXA_API_KEY;
 
-    if (!geminiKey) {
-      return errorResponse(createMissingKeyError("Gemini"));
+    const missingKey = findMissingProviderKey(config.model, credentials);
+    if (missingKey) {
+      return errorResponse(createMissingKeyError(missingKey, config.model));
     }
 
     // Create tools for fact-checking disputes (Requirement 5.3)
-    const tools = createResearchTools(exaKey);
+    const tools = createResearchTools(exaKey, { mock, search });
+
+    // With no search budget left the referee writes its verdict without fact-checking
+    const usageContext = { model: config.model, mock, search };
+    const budgetGuard = createBudgetGuard(budget, usageContext);
 
     // Build the comprehensive context for the referee
-    const refereeContext = buildRefereeContext(plan, advocateArguments, crossExaminations);
-
-    // Use streamText for streaming response (Requirement 9.4)
-    const result = streamText({
-      model: getModel(geminiKey),
-      system: REFEREE_SYSTEM_PROMPT,
-      prompt: refereeContext,
-      tools: {
-        webSearch: tools.webSearch,
+    const refereeContext = buildRefereeContext(plan, advocateArguments, crossExaminations, rounds);
+
+    // Stream the verdict prose, then append the structured verdict as a data part
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        // Use streamText for streaming response (Requirement 9.4)
+        const result = streamText({
+          ...callSettings, // Step limit allows tool calls for fact-checking disputes
+          system: REFEREE_SYSTEM_PROMPT,
+          prompt: refereeContext,
+          tools,
+          prepareStep: budgetGuard.prepareStep,
+        });
+
+        writer.merge(result.toUIMessageStream({ sendFinish: false }));
+
+        // Join all steps so the summary matches the prose streamed to the client
+        const steps = await result.steps;
+        const summary = steps.map((step) => step.text).join("");
+        const usages = [await result.totalUsage];
+        const verdict = await extractRefereeVerdict({
+          model: callSettings.model,
+          plan,
+          summary,
+          onUsage: (usage) => usages.push(usage),
+        });
+
+        writer.write({ type: "data-verdict", data: verdict });
+        const usage = summarizeAgentUsage(usages, steps, { ...usageContext, budgetLimited: budgetGuard.limited });
+        writer.write({ type: "data-usage", data: usage });
       },
-      stopWhen: stepCountIs(8), // Allow tool calls for fact-checking disputes
+      onError: (err) => formatStreamError(err, "Referee"),
     });
 
-    // Return streaming response
-    return result.toTextStreamResponse();
+    return createUIMessageStreamResponse({ stream });
   } catch (err) {
     return handleAPIError(err, "Referee");
   }
 }
 
-
 /**
  * Build comprehensive context for the referee agent
- * Includes plan, all advocate arguments, and all cross-examinations
+ * Includes plan, all advocate arguments, all cross-examinations, and any rebuttal rounds
  */
 function buildRefereeContext(
   plan: ComparisonPlan,
   advocateArguments: AdvocateResponse[],
-  crossExaminations: CrossExamineResponse[]
+  crossExaminations: CrossExamineResponse[],
+  rounds: DebateRound[] = []
 ): string {
   // Format constraints
   const constraintsText = plan.constraints
@@ -129,6 +170,11 @@ function buildRefereeContext(
     .map((ce) => formatCrossExamination(ce))
     .join("\n\n---\n\n");
 
+  // Later rounds follow in order, so the referee sees which challenges were answered
+  const roundsText = rounds
+    .map((round) => formatDebateRound(round))
+    .join("\n\n---\n\n");
+
   return `## Referee Synthesis Task
 
 You are synthesizing a technical comparison debate. Review all evidence and provide a neutral, evidence-based recommendation.
@@ -158,7 +204,13 @@ ${argumentsText}
 ${crossExamText}
 
 ---
+${roundsText ? `
+## REBUTTAL ROUNDS
+
+${roundsText}
 
+---
+` : ""}
 ## YOUR SYNTHESIS TASK
 
 Based on all the evidence above, provide:
@@ -191,6 +243,7 @@ List conditions under which your recommendation would change.
 ## Important Guidelines
 - Be neutral - weight evidence by quality, not quantity
 - Resolve factual disputes - use web search if needed to verify contested claims
+- Prefer the latest round: a challenge conceded or refuted in a rebuttal is settled unless later challenged again
 - Consider user constraints heavily in your recommendation
 - Acknowledge uncertainty where it exists
 - Use the custom rendering keys (_Table, _Score) for structured output`;
@@ -242,3 +295,22 @@ ${challengesText}
 **Defense:**
 ${ce.defense}`;
 }
+
+/**
+ * Format one rebuttal round for the referee context
+ */
+function formatDebateRound(round: DebateRound): string {
+  const rebuttalsText = round.rebuttals
+    .map((r) => `### Rebuttal by ${r.option} Advocate\n\n${r.error ? `Failed: ${r.error}` : r.argument}`)
+    .join("\n\n");
+
+  const crossExamText = round.crossExaminations
+    .map((ce) => formatCrossExamination(ce))
+    .join("\n\n");
+
+  return `## Round ${round.round}
+
+${rebuttalsText}
+
+${crossExamText}`;
+}
@@ -1,24 +1,51 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { ComparisonChat, SettingsPanel, SessionHistory } from "@/components/ui";
+import { BenchmarkPanel, ComparisonChat, SessionComparison, SettingsPanel, SessionHistory } from "@/components/ui";
 import { useSettingsStore } from "@/lib/stores/settings";
+import { useSessionStore } from "@/lib/stores/session";
 import Link from "next/link";
-import { Settings, Plus, Clock, Menu } from "lucide-react";
+import { Settings, Plus, Clock, Menu, ListChecks } from "lucide-react";
 
 export default function BenchPage() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [historyOpen, setHistoryOpen] = useState(false);
   const [selectedSessionId, setSelectedSessionId] = useState<string | undefined>();
+  const [batchMode, setBatchMode] = useState(false);
+  // Bumped by each history Resume so the chat remounts and resumes the session
+  const [resumeCount, setResumeCount] = useState(0);
+  const [autoResume, setAutoResume] = useState(false);
+  // Two sessions picked in the history for a diff, earlier first
+  const [compared, setCompared] = useState<[string, string] | null>(null);
   const { hasRequiredKeys } = useSettingsStore();
+  const sessions = useSessionStore((state) => state.sessions);
+  const comparedSessions = compared && compared.map((id) => sessions.find((s) => s.id === id));
 
   const handleSelectSession = useCallback((sessionId: string) => {
     setSelectedSessionId(sessionId);
     setHistoryOpen(false);
+    setBatchMode(false);
+    setAutoResume(false);
+    setCompared(null);
   }, []);
 
+  const handleResumeSession = useCallback((sessionId: string) => {
+    handleSelectSession(sessionId);
+    setAutoResume(true);
+    setResumeCount((count) => count + 1);
+  }, [handleSelectSession]);
+
   const handleNewComparison = useCallback(() => {
     setSelectedSessionId(undefined);
+    setBatchMode(false);
+    setAutoResume(false);
+    setCompared(null);
+  }, []);
+
+  const handleCompareSessions = useCallback((beforeId: string, afterId: string) => {
+    setCompared([beforeId, afterId]);
+    setHistoryOpen(false);
+    setBatchMode(false);
   }, []);
 
   return (
@@ -28,6 +55,8 @@ export default function BenchPage() {
         isOpen={historyOpen}
         onClose={() => setHistoryOpen(false)}
         onSelectSession={handleSelectSession}
+        onResumeSession={handleResumeSession}
+        onCompareSessions={handleCompareSessions}
       />
 
       {/* Main Content */}
@@ -61,6 +90,22 @@ export default function BenchPage() {
               <span className="hidden sm:inline">New</span>
             </button>
 
+            {/* Batch benchmark button */}
+            <button
+              onClick={() => {
+                setBatchMode(!batchMode);
+                setCompared(null);
+              }}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-mono uppercase tracking-wider rounded-full transition-colors ${
+                batchMode
+                  ? "text-amber-700 bg-amber-50 hover:bg-amber-100"
+                  : "text-stone-600 hover:text-stone-800 hover:bg-stone-100"
+              }`}
+            >
+              <ListChecks className="w-4 h-4" />
+              <span className="hidden sm:inline">Batch</span>
+            </button>
+
             {/* History button */}
             <button
               onClick={() => setHistoryOpen(!historyOpen)}
@@ -85,15 +130,30 @@ export default function BenchPage() {
           </div>
         </header>
 
-        {/* Chat Area */}
+        {/* Chat Area, or the batch benchmark */}
         <main className="flex-1 overflow-hidden bg-[#faf9f7]">
-          <div className="h-full max-w-4xl mx-auto">
-            <ComparisonChat
-              key={selectedSessionId || "new"}
-              sessionId={selectedSessionId}
-              onOpenSettings={() => setSettingsOpen(true)}
-            />
-          </div>
+          {batchMode ? (
+            <div className="h-full max-w-6xl mx-auto">
+              <BenchmarkPanel onOpenSettings={() => setSettingsOpen(true)} />
+            </div>
+          ) : comparedSessions?.[0] && comparedSessions[1] ? (
+            <div className="h-full max-w-4xl mx-auto">
+              <SessionComparison
+                before={comparedSessions[0]}
+                after={comparedSessions[1]}
+                onClose={() => setCompared(null)}
+              />
+            </div>
+          ) : (
+            <div className="h-full max-w-4xl mx-auto">
+              <ComparisonChat
+                key={`${selectedSessionId || "new"}:${resumeCount}`}
+                sessionId={selectedSessionId}
+                autoResume={autoResume}
+                onOpenSettings={() => setSettingsOpen(true)}
+              />
+            </div>
+          )}
         </main>
       </div>
 
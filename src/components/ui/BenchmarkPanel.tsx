@@ -0,0 +1,371 @@
+"use client";
+
+import { memo, useCallback, useMemo, useState } from "react";
+import { useSettingsStore } from "@/lib/stores/settings";
+import { createHttpAgentCaller } from "@/lib/debate/orchestrator";
+import {
+  benchmarkToCsv,
+  benchmarkToJson,
+  describeConfiguration,
+  parseBenchmarkSuite,
+  runBenchmark,
+  type BenchmarkReport,
+  type BenchmarkRow,
+} from "@/lib/debate/benchmark";
+import type { AgentRole, BenchmarkSuite, DebatePhase } from "@/lib/types";
+import { downloadFile } from "@/lib/utils/download";
+
+export interface BenchmarkPanelProps {
+  onOpenSettings?: () => void;
+}
+
+const EXAMPLE_SUITE = `{
+  "name": "databases",
+  "cases": [
+    {
+      "id": "oltp",
+      "query": "Postgres vs DynamoDB for an order management system",
+      "clarifications": { "scale": "10k orders/day", "team": "Small team, strong SQL skills" },
+      "expect": { "recommend": "Postgres", "caveats": ["scale"] }
+    },
+    {
+      "id": "frontend",
+      "query": "React vs Vue for an internal dashboard"
+    }
+  ]
+}`;
+
+const AGENT_ROLES: AgentRole[] = ["planner", "advocate", "cross-examiner", "referee"];
+
+type CaseProgress = { phase: DebatePhase | "pending"; row?: BenchmarkRow };
+
+const PhaseBadge = memo(function PhaseBadge({ progress }: { progress: CaseProgress }) {
+  const className =
+    progress.phase === "complete"
+      ? "bg-green-100 text-green-600"
+      : progress.phase === "error" || progress.phase === "clarifying"
+        ? "bg-red-100 text-red-600"
+        : progress.phase === "pending"
+          ? "bg-stone-100 text-stone-500"
+          : "bg-amber-100 text-amber-600";
+
+  return (
+    <span className={`inline-flex px-2 py-0.5 text-xs font-mono uppercase tracking-wider rounded-full ${className}`}>
+      {progress.phase}
+    </span>
+  );
+});
+
+const ResultRow = memo(function ResultRow({
+  caseId,
+  query,
+  progress,
+}: {
+  caseId: string;
+  query: string;
+  progress: CaseProgress;
+}) {
+  const { row } = progress;
+
+  return (
+    <tr className="border-b border-stone-100 align-top">
+      <td className="px-3 py-2 font-mono text-xs text-stone-500">{caseId}</td>
+      <td className="px-3 py-2 text-stone-700 max-w-[16rem]">
+        <div className="truncate" title={query}>{query}</div>
+        {row?.error && <div className="text-xs text-red-600 mt-1">{row.error}</div>}
+      </td>
+      <td className="px-3 py-2"><PhaseBadge progress={progress} /></td>
+      <td className="px-3 py-2 font-medium text-stone-800">{row?.recommendation ?? "—"}</td>
+      <td className="px-3 py-2 text-stone-600">{row?.confidence ?? "—"}</td>
+      <td className="px-3 py-2 text-xs text-stone-600 space-y-0.5">
+        {row?.scores.map((axisScore) => (
+          <div key={axisScore.axis} className="whitespace-nowrap">
+            <span className="text-stone-400">{axisScore.axis}:</span>{" "}
+            {Object.entries(axisScore.scores).map(([option, score]) => `${option} ${score}`).join(" · ")}
+          </div>
+        ))}
+      </td>
+      <td className="px-3 py-2 font-mono text-xs tabular-nums text-stone-700">
+        {row ? `${(row.latencyMs / 1000).toFixed(1)}s` : "—"}
+      </td>
+      <td className="px-3 py-2 font-mono text-xs tabular-nums text-stone-700">
+        {row ? row.usage.totalTokens.toLocaleString() : "—"}
+      </td>
+      <td className="px-3 py-2 font-mono text-xs tabular-nums text-stone-700">
+        {row ? row.usage.searchCalls : "—"}
+      </td>
+      <td className="px-3 py-2 text-xs">
+        {row?.evaluation ? (
+          <span
+            className={row.evaluation.passed ? "text-green-600" : "text-red-600"}
+            title={row.evaluation.checks
+              .map((c) => `${c.passed ? "✓" : "✗"} ${c.name}${c.detail ? ` (${c.detail})` : ""}`)
+              .join("\n")}
+          >
+            {row.evaluation.passed ? "✓" : "✗"} {row.evaluation.checks.filter((c) => c.passed).length}/
+            {row.evaluation.checks.length}
+          </span>
+        ) : (
+          <span className="text-stone-400">—</span>
+        )}
+      </td>
+    </tr>
+  );
+});
+
+/**
+ * Batch benchmark: runs a suite of queries through the debate pipeline and tabulates the results
+ */
+export const BenchmarkPanel = memo(function BenchmarkPanel({ onOpenSettings }: BenchmarkPanelProps) {
+  const {
+    geminiApiKey,
+    exaApiKey,
+    providers,
+    search,
+    mockMode,
+    maxParallelism,
+    budget,
+    prices,
+    failurePolicy,
+    maxOptions,
+    rounds,
+    getAgentRequestConfig,
+    hasRequiredKeys,
+  } = useSettingsStore();
+
+  const [suiteText, setSuiteText] = useState(EXAMPLE_SUITE);
+  const [concurrency, setConcurrency] = useState(2);
+  const [suite, setSuite] = useState<BenchmarkSuite | null>(null);
+  const [progress, setProgress] = useState<CaseProgress[]>([]);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [suiteError, setSuiteError] = useState<string | null>(null);
+
+  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setSuiteText(await file.text());
+    e.target.value = "";
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    let input: unknown;
+    try {
+      input = JSON.parse(suiteText);
+    } catch {
+      setSuiteError("Suite is not valid JSON");
+      return;
+    }
+    const parsed = parseBenchmarkSuite(input);
+    if (!parsed.success) {
+      setSuiteError(parsed.error.issues.map((i) => `${i.path.join(".") || "suite"}: ${i.message}`).join("\n"));
+      return;
+    }
+
+    const agents = Object.fromEntries(AGENT_ROLES.map((role) => [role, getAgentRequestConfig(role)]));
+    const startedAt = new Date().toISOString();
+
+    setSuiteError(null);
+    setSuite(parsed.data);
+    setReport(null);
+    setProgress(parsed.data.cases.map(() => ({ phase: "pending" })));
+    setIsRunning(true);
+
+    const updateCase = (index: number, update: CaseProgress) =>
+      setProgress((prev) => prev.map((p, i) => (i === index ? update : p)));
+
+    try {
+      const rows = await runBenchmark({
+        suite: parsed.data,
+        concurrency,
+        maxParallelism,
+        agents,
+        budget,
+        prices,
+        failurePolicy,
+        maxOptions,
+        rounds,
+        credentials: {
+          apiKey: geminiApiKey || undefined,
+          exaApiKey: exaApiKey || undefined,
+          providers,
+          search,
+          mock: mockMode || undefined,
+        },
+        callAgent: createHttpAgentCaller(),
+        onEvent: (event, index) => {
+          if (event.type === "phase") updateCase(index, { phase: event.phase });
+        },
+        onCaseComplete: (row, index) => updateCase(index, { phase: row.status, row }),
+      });
+      setReport({
+        suite: parsed.data.name,
+        configuration: describeConfiguration(agents, { mock: mockMode }),
+        startedAt,
+        agents,
+        rows,
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }, [
+    suiteText,
+    concurrency,
+    maxParallelism,
+    budget,
+    prices,
+    failurePolicy,
+    maxOptions,
+    rounds,
+    geminiApiKey,
+    exaApiKey,
+    providers,
+    search,
+    mockMode,
+    getAgentRequestConfig,
+  ]);
+
+  const filePrefix = report
+    ? `${report.suite ?? "benchmark"}-${report.startedAt.slice(0, 19).replace(/[:T]/g, "-")}`
+    : "benchmark";
+
+  const summary = useMemo(() => {
+    const rows = progress.flatMap((p) => (p.row ? [p.row] : []));
+    const evaluations = rows.flatMap((r) => (r.evaluation ? [r.evaluation] : []));
+    return {
+      evaluated: evaluations.length,
+      passed: evaluations.filter((e) => e.passed).length,
+      done: rows.length,
+      complete: rows.filter((r) => r.status === "complete").length,
+      tokens: rows.reduce((sum, r) => sum + r.usage.totalTokens, 0),
+      searches: rows.reduce((sum, r) => sum + r.usage.searchCalls, 0),
+    };
+  }, [progress]);
+
+  const canRun = hasRequiredKeys() && !isRunning;
+
+  return (
+    <div className="h-full overflow-y-auto px-6 py-8 space-y-6">
+      <div className="space-y-2">
+        <h2 className="text-2xl font-serif text-stone-800">Batch benchmark</h2>
+        <p className="text-sm text-stone-500">
+          Run a suite of queries with pre-answered clarifications through the debate pipeline, using the models in
+          settings. Compare runs by exporting the results.
+        </p>
+      </div>
+
+      {/* Suite */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">[ Suite ]</h3>
+          <label className="text-xs font-mono uppercase tracking-wider text-amber-700 hover:text-amber-800 cursor-pointer">
+            Load file
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileUpload} />
+          </label>
+        </div>
+        <textarea
+          value={suiteText}
+          onChange={(e) => setSuiteText(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          disabled={isRunning}
+          className="w-full px-4 py-3 rounded-lg border border-stone-200 bg-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+        />
+        {suiteError && <pre className="text-xs text-red-600 whitespace-pre-wrap">{suiteError}</pre>}
+      </div>
+
+      {/* Run controls */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-stone-600">
+          Debates at once
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="px-2 py-1.5 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {[1, 2, 3, 4].map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!canRun}
+          className="px-6 py-2 bg-stone-900 text-white rounded-full font-mono text-xs uppercase tracking-widest hover:bg-amber-700 transition-colors disabled:opacity-40 disabled:hover:bg-stone-900"
+        >
+          {isRunning ? "Running..." : "Run suite"}
+        </button>
+        {!hasRequiredKeys() && (
+          <button onClick={onOpenSettings} className="text-sm text-amber-700 underline underline-offset-2">
+            Configure API keys to run
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      {suite && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-stone-600">
+              {summary.done}/{suite.cases.length} finished · {summary.complete} complete ·{" "}
+              {summary.tokens.toLocaleString()} tokens · {summary.searches} searches
+              {summary.evaluated > 0 && (
+                <>
+                  {" "}· <span className="font-medium text-stone-800">
+                    {summary.passed}/{summary.evaluated} expectations met (
+                    {Math.round((summary.passed / summary.evaluated) * 100)}%)
+                  </span>
+                </>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => report && downloadFile(`${filePrefix}.csv`, benchmarkToCsv(report.rows), "text/csv")}
+                disabled={!report}
+                className="px-4 py-1.5 text-xs font-mono uppercase tracking-wider text-stone-600 border border-stone-300 rounded-full hover:bg-stone-100 disabled:opacity-40"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => report && downloadFile(`${filePrefix}.json`, benchmarkToJson(report), "application/json")}
+                disabled={!report}
+                className="px-4 py-1.5 text-xs font-mono uppercase tracking-wider text-stone-600 border border-stone-300 rounded-full hover:bg-stone-100 disabled:opacity-40"
+              >
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-stone-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-stone-50 text-left">
+                <tr className="text-xs font-mono uppercase tracking-wider text-stone-500">
+                  <th className="px-3 py-2">Case</th>
+                  <th className="px-3 py-2">Query</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Pick</th>
+                  <th className="px-3 py-2">Confidence</th>
+                  <th className="px-3 py-2">Axis scores</th>
+                  <th className="px-3 py-2">Latency</th>
+                  <th className="px-3 py-2">Tokens</th>
+                  <th className="px-3 py-2">Searches</th>
+                  <th className="px-3 py-2">Expected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {suite.cases.map((testCase, index) => (
+                  <ResultRow
+                    key={index}
+                    caseId={testCase.id ?? `case-${index + 1}`}
+                    query={testCase.query}
+                    progress={progress[index] ?? { phase: "pending" }}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -1,16 +1,49 @@
 "use client";
 
-import { memo, useState, useCallback, useRef, useEffect } from "react";
+import { memo, useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { useSessionStore } from "@/lib/stores/session";
-import { useSettingsStore } from "@/lib/stores/settings";
+import { useSettingsStore, type AgentRequestConfig } from "@/lib/stores/settings";
 import { MemoizedMarkdown } from "./MemoizedMarkdown";
 import { PollComponent } from "./PollComponent";
+import { DisputeLedger } from "./DisputeLedger";
+import { PlanEditor } from "./PlanEditor";
+import { WeightSensitivity } from "./WeightSensitivity";
+import { TournamentBracket } from "./TournamentBracket";
+import { ForkEditor } from "./ForkEditor";
+import { VerdictDiff } from "./VerdictDiff";
+import { ReportExport } from "./ReportExport";
+import { readAgentStream } from "@/lib/utils/agent-stream";
+import { parseError } from "@/lib/utils/errors";
+import { judgedVerdict } from "@/lib/utils/diff";
+import { formatCost, formatTokens, summarizeUsage, type UsageSummary } from "@/lib/utils/usage";
+import {
+  advocatesToRerun,
+  crossExaminersToRerun,
+  describeResumePoint,
+  findResumePoint,
+  forkResume,
+  keptResponses,
+  keptRounds,
+  sessionRoundCount,
+  type ResumePoint,
+} from "@/lib/debate/resume";
+import { isFinalMatch, matchPlan } from "@/lib/debate/tournament";
+import { APPROVAL, AgentUsageReportSchema, DebateEventSchema, RefereeResponseSchema } from "@/lib/types";
 import type {
   ComparisonPlan,
   ClarificationQuestion,
   AdvocateResponse,
+  AgentRole,
   CrossExamineResponse,
+  DebateEvent,
+  DebateRound,
+  FollowUp,
+  DebateResume,
+  PlanApproval,
   RefereeResponse,
+  SessionFork,
+  Tournament,
+  TournamentMatch,
   APIError,
 } from "@/lib/types";
 
@@ -18,10 +51,13 @@ export type ChatPhase =
   | "input"
   | "planning"
   | "clarifying"
+  | "reviewing"
   | "advocating"
   | "cross-examining"
+  | "rebutting"
   | "refereeing"
   | "complete"
+  | "following-up"
   | "error";
 
 // Viewable stages for the stage navigator
@@ -31,9 +67,17 @@ interface StageContent {
   planning: string | null;
   advocating: AdvocateResponse[];
   "cross-examining": CrossExamineResponse[];
+  // Rebuttal rounds, shown with the debate stage
+  rounds: DebateRound[];
   refereeing: string | null;
 }
 
+// Failed agent a message offers to run again
+interface AgentRetryTarget {
+  role: "advocate" | "cross-examiner";
+  option: string;
+}
+
 interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
@@ -41,12 +85,15 @@ interface ChatMessage {
   phase?: ChatPhase;
   data?: unknown;
   stage?: ViewableStage;
+  retry?: AgentRetryTarget;
 }
 
 export interface ComparisonChatProps {
   sessionId?: string;
   onPhaseChange?: (phase: ChatPhase) => void;
   onOpenSettings?: () => void;
+  // Resume the loaded session straight away if it failed part-way
+  autoResume?: boolean;
 }
 
 /**
@@ -58,11 +105,13 @@ const PhaseIndicator = memo(function PhaseIndicator({
   completedStages,
   activeViewStage,
   onStageClick,
+  usage,
 }: {
   phase: ChatPhase;
   completedStages: Set<ViewableStage>;
   activeViewStage: ViewableStage | null;
   onStageClick: (stage: ViewableStage) => void;
+  usage?: UsageSummary;
 }) {
   const phases: { key: ViewableStage; label: string }[] = [
     { key: "planning", label: "Plan" },
@@ -71,7 +120,17 @@ const PhaseIndicator = memo(function PhaseIndicator({
     { key: "refereeing", label: "Verdict" },
   ];
 
-  const currentIndex = phases.findIndex((p) => p.key === phase);
+  // The plan stays the current stage while it is being reviewed, rebuttals are part of the debate,
+  // and follow-ups belong to the verdict
+  const stage =
+    phase === "reviewing"
+      ? "planning"
+      : phase === "rebutting"
+        ? "cross-examining"
+        : phase === "following-up"
+          ? "refereeing"
+          : phase;
+  const currentIndex = phases.findIndex((p) => p.key === stage);
 
   return (
     <div className="sticky top-0 z-10 bg-[#faf9f7]/80 backdrop-blur-md border-b border-stone-200/50">
@@ -125,6 +184,19 @@ const PhaseIndicator = memo(function PhaseIndicator({
           );
         })}
       </div>
+      {usage && (
+        <div className="text-center pb-2">
+          <span
+            className="text-[11px] text-stone-400 font-mono"
+            title={`${usage.usage.inputTokens} input / ${usage.usage.outputTokens} output tokens, ${usage.usage.toolCalls} tool calls${
+              usage.unpricedModels.length > 0 ? `\nNo price for ${usage.unpricedModels.join(", ")}` : ""
+            }`}
+          >
+            {formatTokens(usage.usage.totalTokens)} tokens · {usage.usage.searchCalls} searches · ~{formatCost(usage.cost)}
+            {usage.unpricedModels.length > 0 && "+"}
+          </span>
+        </div>
+      )}
       {activeViewStage && (
         <div className="text-center pb-2">
           <span className="text-xs text-amber-600 font-mono">
@@ -143,9 +215,11 @@ const PhaseIndicator = memo(function PhaseIndicator({
 const MessageBubble = memo(function MessageBubble({
   message,
   onPollAnswer,
+  onRetryAgent,
 }: {
   message: ChatMessage;
   onPollAnswer?: (questionId: string, answer: string | string[]) => void;
+  onRetryAgent?: (target: AgentRetryTarget) => void;
 }) {
   const isUser = message.role === "user";
   const isSystem = message.role === "system";
@@ -154,7 +228,9 @@ const MessageBubble = memo(function MessageBubble({
     planning: { label: "Planning", color: "text-sky-600" },
     advocating: { label: "Researching", color: "text-violet-600" },
     "cross-examining": { label: "Cross-Examining", color: "text-amber-600" },
+    rebutting: { label: "Rebutting", color: "text-rose-600" },
     refereeing: { label: "Final Verdict", color: "text-emerald-600" },
+    "following-up": { label: "Follow-up", color: "text-emerald-600" },
   };
 
   const config = message.phase ? phaseConfig[message.phase] : null;
@@ -190,6 +266,14 @@ const MessageBubble = memo(function MessageBubble({
             id={message.id}
             onPollAnswer={onPollAnswer}
           />
+          {message.retry && onRetryAgent && (
+            <button
+              onClick={() => onRetryAgent(message.retry!)}
+              className="mt-3 px-3 py-1.5 text-xs font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              ↻ Retry {message.retry.role === "advocate" ? "research" : "cross-examination"} for {message.retry.option}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -208,10 +292,13 @@ const StreamingIndicator = memo(function StreamingIndicator({
     input: { text: "Ready" },
     planning: { text: "Creating comparison plan..." },
     clarifying: { text: "Waiting for your input..." },
+    reviewing: { text: "Waiting for you to confirm the plan..." },
     advocating: { text: "Advocates researching..." },
     "cross-examining": { text: "Cross-examining arguments..." },
+    rebutting: { text: "Advocates answering the challenges..." },
     refereeing: { text: "Synthesizing final verdict..." },
     complete: { text: "Complete" },
+    "following-up": { text: "The referee is answering..." },
     error: { text: "Error occurred" },
   };
 
@@ -380,11 +467,15 @@ const ClarificationSection = memo(function ClarificationSection({
  */
 const ErrorDisplay = memo(function ErrorDisplay({
   error,
+  resumePoint,
   onRetry,
+  onResume,
   onOpenSettings,
 }: {
   error: APIError | string;
+  resumePoint?: ResumePoint;
   onRetry?: () => void;
+  onResume?: () => void;
   onOpenSettings?: () => void;
 }) {
   const errorMessage = typeof error === "string" ? error : error.error;
@@ -415,6 +506,15 @@ const ErrorDisplay = memo(function ErrorDisplay({
                 Open Settings
               </button>
             )}
+            {isRetryable && resumePoint && onResume && !isApiKeyError && (
+              <button
+                onClick={onResume}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors"
+                title="Keep the plan and finished work, and run only what failed"
+              >
+                Resume {describeResumePoint(resumePoint)}
+              </button>
+            )}
             {isRetryable && onRetry && !isApiKeyError && (
               <button
                 onClick={onRetry}
@@ -529,6 +629,31 @@ const StageContentViewer = memo(function StageContentViewer({
                 <div className="prose prose-stone max-w-none">
                   <MemoizedMarkdown content={response.argument} id={`stage-advocate-${idx}`} />
                 </div>
+                {response.sources.length > 0 && (
+                  <div className="mt-4 pt-3 border-t border-stone-100">
+                    <p className="text-xs font-mono text-stone-400 uppercase tracking-wider mb-2">
+                      Sources ({response.sources.length})
+                    </p>
+                    <ul className="space-y-1">
+                      {response.sources.map((source) => (
+                        <li key={source.url} className="text-sm truncate">
+                          <a
+                            href={source.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-amber-700 hover:text-amber-900 hover:underline"
+                            title={source.snippet}
+                          >
+                            {source.title}
+                          </a>
+                          {source.url.startsWith("file:") && (
+                            <span className="ml-2 text-xs font-mono text-stone-400">[internal]</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -539,6 +664,7 @@ const StageContentViewer = memo(function StageContentViewer({
       case "cross-examining":
         return stageContent["cross-examining"].length > 0 ? (
           <div className="space-y-6">
+            <DisputeLedger crossExaminations={stageContent["cross-examining"]} />
             {stageContent["cross-examining"].map((response, idx) => (
               <div key={idx} className="bg-white rounded-xl border border-stone-200 p-4">
                 <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider mb-3">
@@ -549,6 +675,22 @@ const StageContentViewer = memo(function StageContentViewer({
                 </div>
               </div>
             ))}
+            {stageContent.rounds.map((round) => (
+              <div key={round.round} className="space-y-6">
+                <h4 className="font-mono text-sm text-stone-500 uppercase tracking-widest">Round {round.round}</h4>
+                {round.rebuttals.map((response, idx) => (
+                  <div key={idx} className="bg-white rounded-xl border border-stone-200 p-4">
+                    <h4 className="font-mono text-sm text-rose-600 uppercase tracking-wider mb-3">
+                      Rebuttal by {response.option}
+                    </h4>
+                    <div className="prose prose-stone max-w-none">
+                      <MemoizedMarkdown content={response.argument} id={`stage-rebuttal-${round.round}-${idx}`} />
+                    </div>
+                  </div>
+                ))}
+                {round.crossExaminations.length > 0 && <DisputeLedger crossExaminations={round.crossExaminations} />}
+              </div>
+            ))}
           </div>
         ) : (
           <p className="text-stone-500">No cross-examination content available.</p>
@@ -598,10 +740,11 @@ export const ComparisonChat = memo(function ComparisonChat({
   sessionId: initialSessionId,
   onPhaseChange,
   onOpenSettings,
+  autoResume,
 }: ComparisonChatProps) {
   // Stores
-  const { geminiApiKey, exaApiKey, maxParallelism } = useSettingsStore();
-  const { createSession, updateSession, getSession, setCurrentSession, addTranscriptEntry, completeTranscript } = useSessionStore();
+  const { geminiApiKey, exaApiKey, providers, search, mockMode, maxParallelism, prices, budget, failurePolicy, reviewPlan, maxOptions, rounds, getAgentRequestConfig, hasModelKeys } = useSettingsStore();
+  const { createSession, forkSession, updateSession, getSession, setCurrentSession, addTranscriptEntry, addUsage, addFollowUp, completeTranscript } = useSessionStore();
 
   // Local state
   const [sessionId, setSessionId] = useState<string | null>(initialSessionId || null);
@@ -613,11 +756,16 @@ export const ComparisonChat = memo(function ComparisonChat({
   
   // Comparison state
   const [plan, setPlan] = useState<ComparisonPlan | null>(null);
+  // Planner output waiting for the user's review
+  const [pendingPlan, setPendingPlan] = useState<ComparisonPlan | null>(null);
   const [clarifications, setClarifications] = useState<ClarificationQuestion[]>([]);
   const [clarificationAnswers, setClarificationAnswers] = useState<Record<string, string | string[]>>({});
   const [advocateResponses, setAdvocateResponses] = useState<AdvocateResponse[]>([]);
   const [crossExamResponses, setCrossExamResponses] = useState<CrossExamineResponse[]>([]);
   const [refereeResponse, setRefereeResponse] = useState<RefereeResponse | null>(null);
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  // Editing the constraints of a finished comparison before forking it
+  const [forking, setForking] = useState(false);
 
   // Stage navigation state
   const [completedStages, setCompletedStages] = useState<Set<ViewableStage>>(new Set());
@@ -626,9 +774,29 @@ export const ComparisonChat = memo(function ComparisonChat({
     planning: null,
     advocating: [],
     "cross-examining": [],
+    rounds: [],
     refereeing: null,
   });
 
+  // Usage recorded on the session so far, priced with the current price table
+  const session = useSessionStore((state) => state.sessions.find((s) => s.id === sessionId));
+  const sessionUsage = session?.usage;
+  const usageSummary = useMemo(
+    () => (sessionUsage?.length ? summarizeUsage(sessionUsage, prices) : undefined),
+    [sessionUsage, prices]
+  );
+  const resumePoint = useMemo(() => (session ? findResumePoint(session) : undefined), [session]);
+  // Follow-ups that changed the verdict; the weight sliders start over from each new one
+  const verdictUpdates = session?.followUps?.filter((f) => f.result).length ?? 0;
+  // The session a fork was made from, for the verdict diff
+  const forkParentId = session?.fork?.sessionId;
+  const forkParent = useSessionStore((state) => state.sessions.find((s) => s.id === forkParentId));
+  const forkVerdicts = useMemo(() => {
+    const before = forkParent && judgedVerdict(forkParent);
+    const after = session && judgedVerdict(session);
+    return before && after ? { before, after, constraints: forkParent.plan?.constraints ?? [] } : undefined;
+  }, [forkParent, session]);
+
   // Refs for smart scrolling
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -716,10 +884,14 @@ export const ComparisonChat = memo(function ComparisonChat({
           setCrossExamResponses(session.crossExaminations);
           setStageContent(prev => ({ ...prev, "cross-examining": session.crossExaminations || [] }));
         }
+        if (session.rounds) {
+          setStageContent(prev => ({ ...prev, rounds: session.rounds || [] }));
+        }
         if (session.result) {
           setRefereeResponse(session.result);
           setStageContent(prev => ({ ...prev, refereeing: session.result?.summary || null }));
         }
+        if (session.tournament) setTournament(session.tournament);
         
         // Reconstruct completed stages
         const stages = new Set<ViewableStage>();
@@ -734,6 +906,9 @@ export const ComparisonChat = memo(function ComparisonChat({
           const reconstructedMessages: ChatMessage[] = [
             { id: "user-query", role: "user", content: session.query },
           ];
+          if (session.fork) {
+            reconstructedMessages.push({ id: "fork", role: "system", content: "⑂ **Forked** from an earlier comparison with changed constraints" });
+          }
           if (session.result) {
             reconstructedMessages.push({
               id: "referee-result",
@@ -742,6 +917,12 @@ export const ComparisonChat = memo(function ComparisonChat({
               phase: "refereeing",
             });
           }
+          session.followUps?.forEach((followUp) => {
+            reconstructedMessages.push(
+              { id: `follow-up-${followUp.id}`, role: "user", content: followUp.question },
+              { id: `answer-${followUp.id}`, role: "assistant", content: followUp.answer, phase: "following-up" }
+            );
+          });
           setMessages(reconstructedMessages);
         } else if (session.status === "error") {
           setPhase("error");
@@ -760,13 +941,13 @@ export const ComparisonChat = memo(function ComparisonChat({
     return newMessage.id;
   }, []);
 
-  const updateMessage = useCallback((id: string, content: string) => {
+  const updateMessage = useCallback((id: string, content: string, changes: Partial<ChatMessage> = {}) => {
     setMessages((prev) =>
-      prev.map((msg) => (msg.id === id ? { ...msg, content } : msg))
+      prev.map((msg) => (msg.id === id ? { ...msg, ...changes, content } : msg))
     );
   }, []);
 
-  const handleError = useCallback((err: unknown, context: string) => {
+  const handleError = useCallback((err: unknown, context: string, activeSessionId = sessionId) => {
     console.error(`${context} error:`, err);
     isStreamingRef.current = false;
     
@@ -786,9 +967,9 @@ export const ComparisonChat = memo(function ComparisonChat({
     setPhase("error");
     setIsLoading(false);
     
-    if (sessionId) {
+    if (activeSessionId) {
       // Record error in transcript
-      addTranscriptEntry(sessionId, {
+      addTranscriptEntry(activeSessionId, {
         type: "error",
         content: apiError.error,
         metadata: {
@@ -799,48 +980,180 @@ export const ComparisonChat = memo(function ComparisonChat({
         },
       });
       const { markSessionError } = useSessionStore.getState();
-      markSessionError(sessionId, apiError.error);
+      markSessionError(activeSessionId, apiError.error);
     }
   }, [sessionId, addTranscriptEntry]);
 
 
-  const callPlanner = useCallback(async (query: string, clarificationAnswers?: Record<string, string | string[]>) => {
-    setPhase("planning");
+  const runDebateStream = useCallback(async (
+    activeSessionId: string,
+    query: string,
+    clarificationAnswers?: Record<string, string | string[]>,
+    {
+      resume,
+      planApproval,
+      rounds: roundCount = rounds,
+    }: { resume?: DebateResume; planApproval?: PlanApproval; rounds?: number } = {}
+  ) => {
+    setPhase(resume ? "advocating" : "planning");
     setIsLoading(true);
     setError(null);
     isStreamingRef.current = true;
 
-    try {
-      const response = await fetch("/api/planner", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query,
-          clarifications: clarificationAnswers,
-          apiKey: geminiApiKey || undefined,
-          exaApiKey: exaApiKey || undefined,
-        }),
+    const agents: Record<AgentRole, AgentRequestConfig> = {
+      planner: getAgentRequestConfig("planner"),
+      advocate: getAgentRequestConfig("advocate"),
+      "cross-examiner": getAgentRequestConfig("cross-examiner"),
+      referee: getAgentRequestConfig("referee"),
+    };
+
+    // Streaming message and accumulated text per agent, keyed by role and option
+    const agentMessages = new Map<string, { id: string; text: string }>();
+    const agentKey = (role: AgentRole, option?: string, round?: number) =>
+      [role, option, round].filter((part) => part !== undefined).join(":");
+    // A resumed debate only streams the agents that run again; start from the work it keeps
+    const advocates: AdvocateResponse[] = resume ? keptResponses(resume.arguments, advocatesToRerun(resume)) : [];
+    const crossExams: CrossExamineResponse[] = resume
+      ? keptResponses(resume.crossExaminations, crossExaminersToRerun(resume))
+      : [];
+    // Responses already in the transcript; a tournament finishes cross-examinations once per match
+    let recordedAdvocates = advocates.length;
+    let recordedCrossExams = crossExams.length;
+    const budgetNotes: string[] = resume ? [...(getSession(activeSessionId)?.budgetNotes ?? [])] : [];
+    // Tournament matches so far; the referee's heading names the match it is judging
+    const matches: TournamentMatch[] = [];
+    // Rebuttal rounds so far; a resumed debate keeps its finished rounds and replays the rest
+    const debateRounds: DebateRound[] = resume ? structuredClone(keptRounds(resume)) : [];
+    let recordedRounds = debateRounds.length;
+    // The model the referee reported running on, e.g. the mock model in offline mode
+    let refereeModel: string | undefined;
+    if (resume) updateSession(activeSessionId, { rounds: debateRounds.length > 0 ? structuredClone(debateRounds) : undefined });
+    // Recorded so a failed debate resumes the rounds it is missing
+    updateSession(activeSessionId, { roundCount });
+    const currentRound = (round: number) => {
+      let entry = debateRounds.find((r) => r.round === round);
+      if (!entry) {
+        entry = { round, rebuttals: [], crossExaminations: [] };
+        debateRounds.push(entry);
+      }
+      return entry;
+    };
+
+    const finishAdvocates = () => {
+      setAdvocateResponses(advocates);
+      setCompletedStages(prev => new Set([...prev, "advocating"]));
+      setStageContent(prev => ({ ...prev, advocating: advocates }));
+
+      // Record new advocate arguments in transcript
+      advocates.slice(recordedAdvocates).forEach((response) => {
+        addTranscriptEntry(activeSessionId, {
+          type: "advocate_argument",
+          content: response.argument,
+          metadata: {
+            option: response.option,
+            sources: response.sources,
+            weaknesses: response.weaknesses,
+            hasError: !!response.error,
+            agent: { role: "advocate", ...agents.advocate },
+          },
+        });
       });
+      recordedAdvocates = advocates.length;
+      updateSession(activeSessionId, { arguments: advocates });
+    };
 
-      const data = await response.json();
+    const finishCrossExams = () => {
+      setCrossExamResponses(crossExams);
+      setCompletedStages(prev => new Set([...prev, "cross-examining"]));
+      setStageContent(prev => ({ ...prev, "cross-examining": crossExams }));
 
-      if (!response.ok) {
-        throw data as APIError;
-      }
+      // Record new cross-examinations in transcript
+      crossExams.slice(recordedCrossExams).forEach((response) => {
+        addTranscriptEntry(activeSessionId, {
+          type: "cross_examination",
+          content: response.defense,
+          metadata: {
+            option: response.option,
+            challenges: response.challenges,
+            hasError: !!response.error,
+            agent: { role: "cross-examiner", ...agents["cross-examiner"] },
+          },
+        });
+      });
+      recordedCrossExams = crossExams.length;
+      updateSession(activeSessionId, { crossExaminations: crossExams });
+    };
+
+    // Rounds are recorded once the next round starts or the referee takes over
+    const finishRounds = () => {
+      setStageContent(prev => ({ ...prev, rounds: [...debateRounds] }));
 
-      if (data.clarifications && data.clarifications.length > 0) {
-        setClarifications(data.clarifications);
-        setPhase("clarifying");
-        addMessage({
-          role: "assistant",
-          content: "I need some clarification to create a better comparison.",
-          phase: "clarifying",
+      debateRounds.slice(recordedRounds).forEach(({ round, rebuttals, crossExaminations }) => {
+        rebuttals.forEach((response) => {
+          addTranscriptEntry(activeSessionId, {
+            type: "advocate_rebuttal",
+            content: response.argument,
+            metadata: {
+              round,
+              option: response.option,
+              sources: response.sources,
+              weaknesses: response.weaknesses,
+              hasError: !!response.error,
+              agent: { role: "advocate", ...agents.advocate },
+            },
+          });
         });
-        
-        // Record clarification questions in transcript
-        if (sessionId) {
-          data.clarifications.forEach((q: ClarificationQuestion) => {
-            addTranscriptEntry(sessionId, {
+        crossExaminations.forEach((response) => {
+          addTranscriptEntry(activeSessionId, {
+            type: "rebuttal_cross_examination",
+            content: response.defense,
+            metadata: {
+              round,
+              option: response.option,
+              challenges: response.challenges,
+              hasError: !!response.error,
+              agent: { role: "cross-examiner", ...agents["cross-examiner"] },
+            },
+          });
+        });
+      });
+      recordedRounds = debateRounds.length;
+    };
+
+    const handleEvent = (event: DebateEvent) => {
+      switch (event.type) {
+        case "phase":
+          if (event.phase === "advocating" || event.phase === "cross-examining" || event.phase === "refereeing") {
+            if (event.phase === "cross-examining") finishAdvocates();
+            if (event.phase === "refereeing") {
+              finishCrossExams();
+              finishRounds();
+            }
+            setPhase(event.phase);
+            userHasScrolledRef.current = false;
+            updateSession(activeSessionId, { status: event.phase });
+          } else if (event.phase === "rebutting") {
+            // Sessions count rebuttals as part of the debate stage
+            finishCrossExams();
+            finishRounds();
+            setPhase("rebutting");
+            userHasScrolledRef.current = false;
+            updateSession(activeSessionId, { status: "cross-examining" });
+          }
+          break;
+
+        case "clarifications":
+          setClarifications(event.questions);
+          setPhase("clarifying");
+          addMessage({
+            role: "assistant",
+            content: "I need some clarification to create a better comparison.",
+            phase: "clarifying",
+          });
+
+          // Record clarification questions in transcript
+          event.questions.forEach((q) => {
+            addTranscriptEntry(activeSessionId, {
               type: "clarification_question",
               content: q.question,
               metadata: {
@@ -851,308 +1164,240 @@ export const ComparisonChat = memo(function ComparisonChat({
               },
             });
           });
-        }
-      } else if (data.plan) {
-        setPlan(data.plan);
-        setCompletedStages(prev => new Set([...prev, "planning"]));
-        setStageContent(prev => ({
-          ...prev,
-          planning: `Comparing **${data.plan.options.join("**, **")}** across ${data.plan.axes.length} dimensions:\n\n${data.plan.axes.map((a: { name: string; description: string }) => `- **${a.name}**: ${a.description}`).join("\n")}`,
-        }));
-        
-        // Record planning result in transcript
-        if (sessionId) {
-          addTranscriptEntry(sessionId, {
+          break;
+
+        case "plan": {
+          const { plan: newPlan } = event;
+          setPlan(newPlan);
+          setCompletedStages(prev => new Set([...prev, "planning"]));
+          setStageContent(prev => ({
+            ...prev,
+            planning: `Comparing **${newPlan.options.join("**, **")}** across ${newPlan.axes.length} dimensions:\n\n${newPlan.axes.map((a) => `- **${a.name}**: ${a.description}`).join("\n")}`,
+          }));
+
+          // Record planning result in transcript
+          addTranscriptEntry(activeSessionId, {
             type: "planning_result",
-            content: `Comparison plan created for: ${data.plan.options.join(", ")}`,
+            content: `Comparison plan created for: ${newPlan.options.join(", ")}`,
             metadata: {
-              options: data.plan.options,
-              axes: data.plan.axes.map((a: { name: string; description: string; weight: number }) => ({
+              options: newPlan.options,
+              axes: newPlan.axes.map((a) => ({
                 name: a.name,
                 description: a.description,
                 weight: a.weight,
               })),
-              constraints: data.plan.constraints,
+              constraints: newPlan.constraints,
+              agent: { role: "planner", ...agents.planner },
             },
           });
+          updateSession(activeSessionId, { plan: newPlan, status: "advocating" });
+          addMessage({
+            role: "assistant",
+            content: `Great! I'll compare **${newPlan.options.join("**, **")}** across ${newPlan.axes.length} dimensions. Starting the debate...`,
+            phase: "planning",
+          });
+          break;
         }
-        
-        if (sessionId) {
-          updateSession(sessionId, { plan: data.plan, status: "advocating" });
-        }
-        addMessage({
-          role: "assistant",
-          content: `Great! I'll compare **${data.plan.options.join("**, **")}** across ${data.plan.axes.length} dimensions. Starting the debate...`,
-          phase: "planning",
-        });
-        await runAdvocates(data.plan);
-      }
-    } catch (err) {
-      handleError(err, "Planner");
-    } finally {
-      setIsLoading(false);
-      isStreamingRef.current = false;
-    }
-  }, [geminiApiKey, exaApiKey, sessionId, addMessage, updateSession, addTranscriptEntry, handleError]);
 
-  const runAdvocates = useCallback(async (comparisonPlan: ComparisonPlan) => {
-    setPhase("advocating");
-    setIsLoading(true);
-    isStreamingRef.current = true;
-    userHasScrolledRef.current = false;
-    
-    if (sessionId) {
-      updateSession(sessionId, { status: "advocating" });
-    }
-
-    const responses: AdvocateResponse[] = [];
-    const options = comparisonPlan.options;
-
-    for (let i = 0; i < options.length; i += maxParallelism) {
-      const batch = options.slice(i, i + maxParallelism);
-      
-      const batchPromises = batch.map(async (option) => {
-        const msgId = addMessage({
-          role: "assistant",
-          content: `🔍 Researching **${option}**...`,
-          phase: "advocating",
-        });
-
-        try {
-          const response = await fetch("/api/advocate", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              option,
-              plan: comparisonPlan,
-              sessionId: sessionId || "temp",
-              apiKey: geminiApiKey || undefined,
-              exaApiKey: exaApiKey || undefined,
-            }),
+        case "plan-review":
+          setPendingPlan(event.plan);
+          setPhase("reviewing");
+          updateSession(activeSessionId, { plan: event.plan, status: "planning" });
+          addMessage({
+            role: "assistant",
+            content: `Here's my plan: compare **${event.plan.options.join("**, **")}** across ${event.plan.axes.length} dimensions. Review or edit it below, then start the debate.`,
+            phase: "planning",
           });
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw errorData as APIError;
+          break;
+
+        case "agent-start": {
+          const roundLabel = event.round ? ` (round ${event.round})` : "";
+          const placeholders: Partial<Record<AgentRole, { content: string; phase: ChatPhase }>> = {
+            advocate: event.round
+              ? { content: `🛡️ **${event.option}** advocate is answering the challenges${roundLabel}...`, phase: "rebutting" }
+              : { content: `🔍 Researching **${event.option}**...`, phase: "advocating" },
+            "cross-examiner": { content: `⚔️ **${event.option}** advocate is cross-examining opponents${roundLabel}...`, phase: "cross-examining" },
+            referee: { content: "🏆 The referee is synthesizing all arguments...", phase: "refereeing" },
+          };
+          const placeholder = placeholders[event.role];
+          if (placeholder) {
+            agentMessages.set(agentKey(event.role, event.option, event.round), {
+              id: addMessage({ role: "assistant", ...placeholder }),
+              text: "",
+            });
           }
+          break;
+        }
 
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-          let fullContent = "";
-
-          if (reader) {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              
-              const chunk = decoder.decode(value, { stream: true });
-              fullContent += chunk;
-              updateMessage(msgId, `## Advocate for ${option}\n\n${fullContent}`);
-              
-              // Only scroll if user hasn't scrolled up
-              if (!userHasScrolledRef.current) {
-                scrollToBottom();
-              }
-            }
+        case "agent-text": {
+          const message = agentMessages.get(agentKey(event.role, event.option, event.round));
+          if (!message) break;
+          message.text += event.delta;
+
+          const match = matches.at(-1);
+          const roundLabel = event.round ? ` (round ${event.round})` : "";
+          const heading =
+            event.role === "advocate"
+              ? event.round
+                ? `Rebuttal by ${event.option}${roundLabel}`
+                : `Advocate for ${event.option}`
+              : event.role === "cross-examiner"
+                ? `Cross-Examination by ${event.option}${roundLabel}`
+                : match && !isFinalMatch(matches, match)
+                  ? `Round ${match.round}: ${match.options.join(" vs ")}`
+                  : "Final Verdict";
+          updateMessage(message.id, `## ${heading}\n\n${message.text}`);
+
+          // Only scroll if user hasn't scrolled up
+          if (!userHasScrolledRef.current) {
+            scrollToBottom();
           }
-
-          const advocateResponse: AdvocateResponse = {
-            option,
-            argument: fullContent,
-            sources: [],
-            weaknesses: [],
-          };
-
-          responses.push(advocateResponse);
-          return advocateResponse;
-        } catch (err) {
-          console.error(`Advocate error for ${option}:`, err);
-          updateMessage(msgId, `⚠️ Error researching ${option}: ${err instanceof Error ? err.message : "Unknown error"}`);
-          
-          const partialResponse: AdvocateResponse = {
-            option,
-            argument: `Error: Could not complete research for ${option}`,
-            sources: [],
-            weaknesses: [],
-            error: err instanceof Error ? err.message : "Unknown error",
-          };
-          responses.push(partialResponse);
-          return partialResponse;
+          break;
         }
-      });
-
-      await Promise.all(batchPromises);
-    }
 
-    setAdvocateResponses(responses);
-    setCompletedStages(prev => new Set([...prev, "advocating"]));
-    setStageContent(prev => ({ ...prev, advocating: responses }));
-    
-    // Record advocate arguments in transcript
-    if (sessionId) {
-      responses.forEach((response) => {
-        addTranscriptEntry(sessionId, {
-          type: "advocate_argument",
-          content: response.argument,
-          metadata: {
-            option: response.option,
-            sources: response.sources,
-            weaknesses: response.weaknesses,
-            hasError: !!response.error,
-          },
-        });
-      });
-      updateSession(sessionId, { arguments: responses });
-    }
-
-    await runCrossExaminers(comparisonPlan, responses);
-  }, [sessionId, maxParallelism, geminiApiKey, exaApiKey, addMessage, updateMessage, updateSession, addTranscriptEntry, scrollToBottom]);
-
-  const runCrossExaminers = useCallback(async (
-    comparisonPlan: ComparisonPlan,
-    advocateArgs: AdvocateResponse[]
-  ) => {
-    setPhase("cross-examining");
-    isStreamingRef.current = true;
-    userHasScrolledRef.current = false;
-    
-    if (sessionId) {
-      updateSession(sessionId, { status: "cross-examining" });
-    }
-
-    const responses: CrossExamineResponse[] = [];
-
-    for (let i = 0; i < advocateArgs.length; i += maxParallelism) {
-      const batch = advocateArgs.slice(i, i + maxParallelism);
-      
-      const batchPromises = batch.map(async (ownArg) => {
-        const opponentArgs = advocateArgs.filter((a) => a.option !== ownArg.option);
-        
-        const msgId = addMessage({
-          role: "assistant",
-          content: `⚔️ **${ownArg.option}** advocate is cross-examining opponents...`,
-          phase: "cross-examining",
-        });
-
-        try {
-          const response = await fetch("/api/cross-examine", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              option: ownArg.option,
-              ownArgument: ownArg,
-              opponentArguments: opponentArgs,
-              plan: comparisonPlan,
-              sessionId: sessionId || "temp",
-              apiKey: geminiApiKey || undefined,
-              exaApiKey: exaApiKey || undefined,
-            }),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw errorData as APIError;
+        case "advocate": {
+          const { response } = event;
+          advocates.push(response);
+          // Saved as they arrive so a failed debate can resume without them
+          updateSession(activeSessionId, { arguments: [...advocates] });
+          const message = agentMessages.get(agentKey("advocate", response.option));
+          if (response.error && message) {
+            updateMessage(message.id, `⚠️ Error researching ${response.option}: ${response.error}`, {
+              retry: { role: "advocate", option: response.option },
+            });
           }
+          break;
+        }
 
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-          let fullContent = "";
-
-          if (reader) {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              
-              const chunk = decoder.decode(value, { stream: true });
-              fullContent += chunk;
-              updateMessage(msgId, `## Cross-Examination by ${ownArg.option}\n\n${fullContent}`);
-              
-              if (!userHasScrolledRef.current) {
-                scrollToBottom();
-              }
+        case "cross-examination": {
+          const { response, round } = event;
+          if (round) {
+            currentRound(round).crossExaminations.push(response);
+            updateSession(activeSessionId, { rounds: structuredClone(debateRounds) });
+            const message = agentMessages.get(agentKey("cross-examiner", response.option, round));
+            if (response.error && message) {
+              updateMessage(message.id, `⚠️ Error in round ${round} cross-examination for ${response.option}: ${response.error}`);
             }
+            break;
+          }
+          crossExams.push(response);
+          updateSession(activeSessionId, { crossExaminations: [...crossExams] });
+          const message = agentMessages.get(agentKey("cross-examiner", response.option));
+          if (response.error && message) {
+            updateMessage(message.id, `⚠️ Error in cross-examination for ${response.option}`, {
+              retry: { role: "cross-examiner", option: response.option },
+            });
           }
+          break;
+        }
 
-          const crossExamResponse: CrossExamineResponse = {
-            option: ownArg.option,
-            challenges: [],
-            defense: fullContent,
-          };
+        case "rebuttal": {
+          const { response, round } = event;
+          currentRound(round).rebuttals.push(response);
+          updateSession(activeSessionId, { rounds: structuredClone(debateRounds) });
+          const message = agentMessages.get(agentKey("advocate", response.option, round));
+          if (response.error && message) {
+            updateMessage(message.id, `⚠️ Error in the round ${round} rebuttal for ${response.option}: ${response.error}`);
+          }
+          break;
+        }
 
-          responses.push(crossExamResponse);
-          return crossExamResponse;
-        } catch (err) {
-          console.error(`Cross-examine error for ${ownArg.option}:`, err);
-          updateMessage(msgId, `⚠️ Error in cross-examination for ${ownArg.option}`);
-          
-          const partialResponse: CrossExamineResponse = {
-            option: ownArg.option,
-            challenges: [],
-            defense: `Error: Could not complete cross-examination`,
-            error: err instanceof Error ? err.message : "Unknown error",
-          };
-          responses.push(partialResponse);
-          return partialResponse;
+        case "retry": {
+          // The failed attempt's partial text is replaced by the next attempt's
+          const message = agentMessages.get(agentKey(event.role, event.option, event.round));
+          if (!message) break;
+          message.text = "";
+          const step = event.role === "advocate" ? (event.round ? "Rebutting for" : "Researching") : "Cross-examining as";
+          updateMessage(message.id, `🔁 ${step} **${event.option}** again (attempt ${event.attempt}) after: ${event.error}`);
+          break;
         }
-      });
 
-      await Promise.all(batchPromises);
-    }
+        case "match": {
+          const { match } = event;
+          const index = matches.findIndex((m) => m.id === match.id);
+          if (index >= 0) matches[index] = match;
+          else matches.push(match);
+          setTournament({ matches: [...matches] });
+          updateSession(activeSessionId, { tournament: { matches: [...matches] } });
+
+          if (match.ranking && !isFinalMatch(matches, match)) {
+            const [winner, ...others] = match.ranking;
+            addMessage({
+              role: "system",
+              content: `🏅 **${winner}** advances from round ${match.round}, ahead of ${others.join(", ")}`,
+            });
+          }
+          break;
+        }
 
-    setCrossExamResponses(responses);
-    setCompletedStages(prev => new Set([...prev, "cross-examining"]));
-    setStageContent(prev => ({ ...prev, "cross-examining": responses }));
-    
-    // Record cross-examinations in transcript
-    if (sessionId) {
-      responses.forEach((response) => {
-        addTranscriptEntry(sessionId, {
-          type: "cross_examination",
-          content: response.defense,
-          metadata: {
-            option: response.option,
-            challenges: response.challenges,
-            hasError: !!response.error,
-          },
-        });
-      });
-      updateSession(sessionId, { crossExaminations: responses });
-    }
+        case "verdict": {
+          const { result, text } = event;
+          setRefereeResponse(result);
+          setCompletedStages(prev => new Set([...prev, "refereeing"]));
+          setStageContent(prev => ({ ...prev, refereeing: text }));
+          setPhase("complete");
+          isStreamingRef.current = false;
 
-    await runReferee(comparisonPlan, advocateArgs, responses);
-  }, [sessionId, maxParallelism, geminiApiKey, exaApiKey, addMessage, updateMessage, updateSession, addTranscriptEntry, scrollToBottom]);
+          // Record referee verdict and complete transcript
+          addTranscriptEntry(activeSessionId, {
+            type: "referee_verdict",
+            content: text,
+            metadata: {
+              recommendation: result.recommendation,
+              scores: result.scores,
+              tradeoffs: result.tradeoffs,
+              caveats: result.caveats,
+              extractionError: result.error,
+              agent: { role: "referee", ...agents.referee },
+            },
+          });
+          completeTranscript(activeSessionId);
+          updateSession(activeSessionId, { result, model: refereeModel ?? agents.referee.model, status: "complete" });
+          break;
+        }
 
+        case "usage": {
+          const { role, option, model, searchProvider, usage } = event;
+          addUsage(activeSessionId, { role, option, model, searchProvider, usage });
+          if (role === "referee" && model) refereeModel = model;
+          break;
+        }
 
-  const runReferee = useCallback(async (
-    comparisonPlan: ComparisonPlan,
-    advocateArgs: AdvocateResponse[],
-    crossExams: CrossExamineResponse[]
-  ) => {
-    setPhase("refereeing");
-    isStreamingRef.current = true;
-    userHasScrolledRef.current = false;
-    
-    if (sessionId) {
-      updateSession(sessionId, { status: "refereeing" });
-    }
+        case "budget":
+          budgetNotes.push(event.note);
+          addMessage({ role: "system", content: `💰 **Budget limit:** ${event.note}` });
+          updateSession(activeSessionId, { budgetNotes: [...budgetNotes] });
+          break;
 
-    const msgId = addMessage({
-      role: "assistant",
-      content: "🏆 The referee is synthesizing all arguments...",
-      phase: "refereeing",
-    });
+        case "error":
+          handleError(event.error, event.context, activeSessionId);
+          break;
+      }
+    };
 
     try {
-      const response = await fetch("/api/referee", {
+      const response = await fetch("/api/debate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          plan: comparisonPlan,
-          arguments: advocateArgs,
-          crossExaminations: crossExams,
-          sessionId: sessionId || "temp",
+          query,
+          clarifications: clarificationAnswers,
+          sessionId: activeSessionId,
+          maxParallelism,
+          agents,
+          budget,
+          prices,
+          resume,
+          failurePolicy,
+          reviewPlan: reviewPlan || undefined,
+          planApproval,
+          maxOptions,
+          rounds: roundCount,
           apiKey: geminiApiKey || undefined,
           exaApiKey: exaApiKey || undefined,
+          providers,
+          search,
+          mock: mockMode || undefined,
         }),
       });
 
@@ -1161,65 +1406,20 @@ export const ComparisonChat = memo(function ComparisonChat({
         throw errorData as APIError;
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          fullContent += chunk;
-          updateMessage(msgId, `## Final Verdict\n\n${fullContent}`);
-          
-          if (!userHasScrolledRef.current) {
-            scrollToBottom();
-          }
-        }
-      }
-
-      const result: RefereeResponse = {
-        summary: fullContent,
-        scores: [],
-        tradeoffs: [],
-        recommendation: {
-          option: comparisonPlan.options[0],
-          reasoning: "See summary above",
-          confidence: "medium",
+      await readAgentStream(response, {
+        onData: (name, data) => {
+          if (name !== "debate") return;
+          const event = DebateEventSchema.safeParse(data);
+          if (event.success) handleEvent(event.data);
         },
-        caveats: [],
-      };
-
-      setRefereeResponse(result);
-      setCompletedStages(prev => new Set([...prev, "refereeing"]));
-      setStageContent(prev => ({ ...prev, refereeing: fullContent }));
-      setPhase("complete");
-      isStreamingRef.current = false;
-      
-      // Record referee verdict and complete transcript
-      if (sessionId) {
-        addTranscriptEntry(sessionId, {
-          type: "referee_verdict",
-          content: fullContent,
-          metadata: {
-            recommendation: result.recommendation,
-            scores: result.scores,
-            tradeoffs: result.tradeoffs,
-            caveats: result.caveats,
-          },
-        });
-        completeTranscript(sessionId);
-        updateSession(sessionId, { result, status: "complete" });
-      }
+      });
     } catch (err) {
-      handleError(err, "Referee");
+      handleError(err, "Debate", activeSessionId);
     } finally {
       setIsLoading(false);
       isStreamingRef.current = false;
     }
-  }, [sessionId, geminiApiKey, exaApiKey, addMessage, updateMessage, updateSession, addTranscriptEntry, completeTranscript, handleError, scrollToBottom]);
+  }, [geminiApiKey, exaApiKey, providers, search, mockMode, maxParallelism, budget, prices, failurePolicy, reviewPlan, maxOptions, rounds, getAgentRequestConfig, getSession, addMessage, updateMessage, updateSession, addTranscriptEntry, addUsage, completeTranscript, handleError, scrollToBottom]);
 
   const handleQuerySubmit = useCallback(async (query: string) => {
     const newSessionId = createSession(query);
@@ -1229,11 +1429,13 @@ export const ComparisonChat = memo(function ComparisonChat({
     // Reset all state
     setMessages([]);
     setPlan(null);
+    setPendingPlan(null);
     setClarifications([]);
     setClarificationAnswers({});
     setAdvocateResponses([]);
     setCrossExamResponses([]);
     setRefereeResponse(null);
+    setTournament(null);
     setError(null);
     setCompletedStages(new Set());
     setActiveViewStage(null);
@@ -1241,13 +1443,14 @@ export const ComparisonChat = memo(function ComparisonChat({
       planning: null,
       advocating: [],
       "cross-examining": [],
+      rounds: [],
       refereeing: null,
     });
     userHasScrolledRef.current = false;
 
     addMessage({ role: "user", content: query });
-    await callPlanner(query);
-  }, [createSession, setCurrentSession, addMessage, callPlanner]);
+    await runDebateStream(newSessionId, query);
+  }, [createSession, setCurrentSession, addMessage, runDebateStream]);
 
   const handleClarificationAnswer = useCallback(async (questionId: string, answer: string | string[]) => {
     const newAnswers = { ...clarificationAnswers, [questionId]: answer };
@@ -1272,9 +1475,9 @@ export const ComparisonChat = memo(function ComparisonChat({
     if (allAnswered) {
       const session = sessionId ? getSession(sessionId) : null;
       const query = session?.query || messages.find((m) => m.role === "user")?.content || "";
-      await callPlanner(query, newAnswers);
+      if (sessionId) await runDebateStream(sessionId, query, newAnswers);
     }
-  }, [clarificationAnswers, clarifications, sessionId, getSession, messages, callPlanner, addTranscriptEntry]);
+  }, [clarificationAnswers, clarifications, sessionId, getSession, messages, runDebateStream, addTranscriptEntry]);
 
   const handleRetry = useCallback(() => {
     const session = sessionId ? getSession(sessionId) : null;
@@ -1284,17 +1487,206 @@ export const ComparisonChat = memo(function ComparisonChat({
     }
   }, [sessionId, getSession, handleQuerySubmit]);
 
+  // Rerun only the failed part of the debate, keeping the plan and finished responses
+  const handleResume = useCallback(() => {
+    if (!sessionId || !session || !resumePoint) {
+      handleRetry();
+      return;
+    }
+
+    setError(null);
+    setPlan(resumePoint.resume.plan);
+    // A resumed tournament replays its matches
+    setTournament(null);
+    setCompletedStages(prev => new Set([...prev, "planning"]));
+    userHasScrolledRef.current = false;
+    if (!messages.some((m) => m.role === "user")) {
+      addMessage({ role: "user", content: session.query });
+    }
+    addMessage({ role: "system", content: `↻ **Resuming:** ${describeResumePoint(resumePoint)}` });
+    // Replayed rounds follow the failed session, not the current settings
+    runDebateStream(sessionId, session.query, undefined, { resume: resumePoint.resume, rounds: resumePoint.rounds });
+  }, [sessionId, session, resumePoint, messages, addMessage, handleRetry, runDebateStream]);
+
+  // Rerun one failed advocate or cross-examiner, then the phases after it
+  const handleRetryAgent = useCallback((target: AgentRetryTarget) => {
+    if (!sessionId || !session?.plan) return;
+
+    setMessages((prev) =>
+      prev.map((m) => (m.retry?.role === target.role && m.retry.option === target.option ? { ...m, retry: undefined } : m))
+    );
+    setError(null);
+    userHasScrolledRef.current = false;
+    const step = target.role === "advocate" ? "research" : "cross-examination";
+    addMessage({ role: "system", content: `↻ **Retrying:** ${step} for ${target.option}` });
+    runDebateStream(sessionId, session.query, undefined, {
+      resume: {
+        plan: session.plan,
+        arguments: session.arguments,
+        crossExaminations: session.crossExaminations,
+        rounds: session.rounds,
+        retryOptions: [target.option],
+      },
+      rounds: sessionRoundCount(session),
+    });
+  }, [sessionId, session, addMessage, runDebateStream]);
+
+  // Re-judge the finished comparison's research under changed constraints, in a new session
+  const handleFork = useCallback((forkPlan: ComparisonPlan, rerun: SessionFork["rerun"]) => {
+    if (!sessionId || !session?.plan) return;
+    const forkId = forkSession(sessionId, forkPlan, rerun);
+    if (!forkId) return;
+
+    const resume = forkResume(session, forkPlan, rerun);
+    const crossExams = resume.crossExaminations ?? [];
+    setForking(false);
+    setSessionId(forkId);
+    setCurrentSession(forkId);
+    setPlan(forkPlan);
+    setAdvocateResponses(resume.arguments ?? []);
+    setCrossExamResponses(crossExams);
+    setRefereeResponse(null);
+    setTournament(null);
+    setError(null);
+    setCompletedStages(new Set(crossExams.length > 0 ? ["planning", "advocating", "cross-examining"] : ["planning", "advocating"]));
+    setActiveViewStage(null);
+    setStageContent((prev) => ({
+      planning: prev.planning,
+      advocating: resume.arguments ?? [],
+      "cross-examining": crossExams,
+      rounds: resume.rounds ?? [],
+      refereeing: null,
+    }));
+    userHasScrolledRef.current = false;
+
+    const step = crossExams.length > 0 ? "the verdict" : "cross-examination and the verdict";
+    setMessages([
+      { id: "user-query", role: "user", content: session.query },
+      { id: "fork", role: "system", content: `⑂ **Forked** with changed constraints - re-running ${step} on the existing research` },
+    ]);
+    // The fork debates as many rounds as the comparison it came from
+    runDebateStream(forkId, session.query, undefined, { resume, rounds: sessionRoundCount(session) });
+  }, [sessionId, session, forkSession, setCurrentSession, runDebateStream]);
+
+  // Resume requested from the session history
+  const autoResumedRef = useRef(false);
+  useEffect(() => {
+    if (!autoResume || autoResumedRef.current || phase !== "error") return;
+    autoResumedRef.current = true;
+    handleResume();
+  }, [autoResume, phase, handleResume]);
+
+  // Ask the referee about the finished verdict; an updated verdict replaces the current one
+  const handleFollowUp = useCallback(async (question: string) => {
+    const current = sessionId ? getSession(sessionId) : undefined;
+    if (!sessionId || !current?.plan || !current.result) return;
+
+    // A tournament's verdict only covers its finalists
+    const finalists = current.tournament?.matches.at(-1)?.options;
+    const verdictPlan = finalists ? matchPlan(current.plan, finalists) : current.plan;
+    const inVerdict = <T extends { option: string }>(responses: T[] = []) =>
+      responses.filter((r) => verdictPlan.options.includes(r.option));
+    const referee = getAgentRequestConfig("referee");
+
+    setPhase("following-up");
+    setIsLoading(true);
+    isStreamingRef.current = true;
+    userHasScrolledRef.current = false;
+    addMessage({ role: "user", content: question });
+    addTranscriptEntry(sessionId, { type: "follow_up_question", content: question });
+    const messageId = addMessage({
+      role: "assistant",
+      content: "🏆 The referee is considering your question...",
+      phase: "following-up",
+    });
+
+    try {
+      const response = await fetch("/api/follow-up", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plan: verdictPlan,
+          arguments: inVerdict(current.arguments),
+          crossExaminations: inVerdict(current.crossExaminations),
+          rounds: current.rounds,
+          result: current.result,
+          followUps: current.followUps?.map(({ question, answer }) => ({ question, answer })),
+          question,
+          sessionId,
+          ...referee,
+          apiKey: geminiApiKey || undefined,
+          exaApiKey: exaApiKey || undefined,
+          providers,
+          search,
+          mock: mockMode || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw (await response.json()) as APIError;
+      }
+
+      const { text, data } = await readAgentStream(response, {
+        onText: (answer) => {
+          updateMessage(messageId, answer);
+          if (!userHasScrolledRef.current) scrollToBottom();
+        },
+      });
+
+      const usage = AgentUsageReportSchema.safeParse(data.usage);
+      if (usage.success) addUsage(sessionId, { role: "referee", ...usage.data });
+
+      const verdict = RefereeResponseSchema.safeParse(data.verdict);
+      const followUp: FollowUp = {
+        id: crypto.randomUUID(),
+        question,
+        answer: text,
+        result: verdict.success ? verdict.data : undefined,
+        createdAt: new Date(),
+      };
+      addFollowUp(sessionId, followUp);
+      addTranscriptEntry(sessionId, {
+        type: "follow_up_answer",
+        content: text,
+        metadata: {
+          followUpId: followUp.id,
+          updated: !!followUp.result,
+          recommendation: followUp.result?.recommendation,
+          scores: followUp.result?.scores,
+          agent: { role: "referee", ...referee },
+        },
+      });
+
+      if (followUp.result) {
+        const { option, confidence } = followUp.result.recommendation;
+        setRefereeResponse(followUp.result);
+        addMessage({ role: "system", content: `🔄 **Verdict updated:** ${option} is now recommended (${confidence} confidence)` });
+      }
+    } catch (err) {
+      // A failed follow-up leaves the finished session as it was
+      const apiError = parseError(err, "Follow-up");
+      updateMessage(messageId, `⚠️ The referee could not answer: ${apiError.details ?? apiError.error}`);
+    } finally {
+      setPhase("complete");
+      setIsLoading(false);
+      isStreamingRef.current = false;
+    }
+  }, [sessionId, geminiApiKey, exaApiKey, providers, search, mockMode, getSession, getAgentRequestConfig, addMessage, updateMessage, addTranscriptEntry, addUsage, addFollowUp, scrollToBottom]);
+
   const handleNewComparison = useCallback(() => {
     setSessionId(null);
     setCurrentSession(null);
     setPhase("input");
     setMessages([]);
     setPlan(null);
+    setPendingPlan(null);
     setClarifications([]);
     setClarificationAnswers({});
     setAdvocateResponses([]);
     setCrossExamResponses([]);
     setRefereeResponse(null);
+    setTournament(null);
+    setForking(false);
     setError(null);
     setIsLoading(false);
     setCompletedStages(new Set());
@@ -1303,12 +1695,29 @@ export const ComparisonChat = memo(function ComparisonChat({
       planning: null,
       advocating: [],
       "cross-examining": [],
+      rounds: [],
       refereeing: null,
     });
     userHasScrolledRef.current = false;
   }, [setCurrentSession]);
 
-  const hasApiKeys = geminiApiKey || process.env.NEXT_PUBLIC_GOOGLE_GENERATIVE_AI_API_KEY;
+  // Start the debate on the reviewed plan
+  const handlePlanConfirm = useCallback((reviewed: ComparisonPlan) => {
+    if (!sessionId || !session) return;
+    setPendingPlan(null);
+    runDebateStream(sessionId, session.query, undefined, {
+      planApproval: { approval: APPROVAL.YES, plan: reviewed },
+    });
+  }, [sessionId, session, runDebateStream]);
+
+  // Drop the plan and put the query back in the input to rephrase it
+  const handlePlanCancel = useCallback(() => {
+    const query = session?.query ?? "";
+    handleNewComparison();
+    setInputValue(query);
+  }, [session, handleNewComparison]);
+
+  const hasApiKeys = hasModelKeys() || !!process.env.NEXT_PUBLIC_GOOGLE_GENERATIVE_AI_API_KEY;
 
   return (
     <div className="flex flex-col h-full">
@@ -1319,6 +1728,7 @@ export const ComparisonChat = memo(function ComparisonChat({
           completedStages={completedStages}
           activeViewStage={activeViewStage}
           onStageClick={handleStageClick}
+          usage={usageSummary}
         />
       )}
 
@@ -1349,6 +1759,7 @@ export const ComparisonChat = memo(function ComparisonChat({
               key={message.id}
               message={message}
               onPollAnswer={handleClarificationAnswer}
+              onRetryAgent={isLoading ? undefined : handleRetryAgent}
             />
           ))}
 
@@ -1361,11 +1772,57 @@ export const ComparisonChat = memo(function ComparisonChat({
             />
           )}
 
+          {/* Plan review */}
+          {phase === "reviewing" && pendingPlan && (
+            <PlanEditor
+              plan={pendingPlan}
+              onConfirm={handlePlanConfirm}
+              onCancel={handlePlanCancel}
+              disabled={isLoading}
+            />
+          )}
+
+          {/* Constraint edits for a fork */}
+          {forking && phase === "complete" && plan && (
+            <ForkEditor plan={plan} onConfirm={handleFork} onCancel={() => setForking(false)} disabled={isLoading} />
+          )}
+
+          {/* Tournament bracket */}
+          {tournament && <TournamentBracket tournament={tournament} />}
+
+          {/* Re-weighting the verdict - a tournament's verdict only scores its finalists */}
+          {(phase === "complete" || phase === "following-up") && plan && refereeResponse && refereeResponse.scores.length > 0 && (
+            <WeightSensitivity
+              key={`${sessionId}-${verdictUpdates}`}
+              scores={refereeResponse.scores}
+              axes={plan.axes}
+              options={tournament?.matches.at(-1)?.options ?? plan.options}
+            />
+          )}
+
+          {/* A fork's verdict against the one it was forked from */}
+          {(phase === "complete" || phase === "following-up") && plan && forkVerdicts && (
+            <VerdictDiff
+              title="Compared with the original verdict"
+              before={forkVerdicts.before}
+              after={forkVerdicts.after}
+              constraints={{ before: forkVerdicts.constraints, after: plan.constraints }}
+            />
+          )}
+
           {/* Loading indicator */}
           {isLoading && <StreamingIndicator phase={phase} />}
 
           {/* Error display */}
-          {error && <ErrorDisplay error={error} onRetry={handleRetry} onOpenSettings={onOpenSettings} />}
+          {error && (
+            <ErrorDisplay
+              error={error}
+              resumePoint={resumePoint}
+              onRetry={handleRetry}
+              onResume={handleResume}
+              onOpenSettings={onOpenSettings}
+            />
+          )}
 
           {/* Scroll anchor */}
           <div ref={messagesEndRef} className="h-4" />
@@ -1398,20 +1855,50 @@ export const ComparisonChat = memo(function ComparisonChat({
             </div>
           )}
           
-          {phase === "complete" ? (
-            <button
-              onClick={handleNewComparison}
-              className="w-full px-4 py-4 bg-stone-900 text-white rounded-xl font-mono text-sm uppercase tracking-widest hover:bg-amber-700 transition-all shadow-lg hover:shadow-amber-500/20"
-            >
-              Start New Comparison
-            </button>
+          {phase === "complete" || phase === "following-up" ? (
+            <div className="space-y-3">
+              {session?.status === "complete" && (
+                <div className="flex justify-end">
+                  <ReportExport session={session} />
+                </div>
+              )}
+              {refereeResponse && (
+                <QueryInput
+                  onSubmit={handleFollowUp}
+                  disabled={isLoading || !hasApiKeys}
+                  placeholder="Ask the referee a follow-up... (e.g., 'What if our team size doubles?')"
+                  value={inputValue}
+                  onChange={setInputValue}
+                />
+              )}
+              <div className="flex gap-3">
+                {refereeResponse && plan && (
+                  <button
+                    onClick={() => setForking(true)}
+                    disabled={isLoading || forking || !hasApiKeys}
+                    className="flex-1 px-4 py-3 bg-white text-stone-700 border border-stone-300 rounded-xl font-mono text-sm uppercase tracking-widest hover:border-amber-500 hover:text-amber-700 transition-all disabled:opacity-40"
+                  >
+                    Fork with Changed Constraints
+                  </button>
+                )}
+                <button
+                  onClick={handleNewComparison}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-3 bg-stone-900 text-white rounded-xl font-mono text-sm uppercase tracking-widest hover:bg-amber-700 transition-all shadow-lg hover:shadow-amber-500/20 disabled:opacity-40"
+                >
+                  Start New Comparison
+                </button>
+              </div>
+            </div>
           ) : (
             <QueryInput
               onSubmit={handleQuerySubmit}
-              disabled={isLoading || !hasApiKeys || phase === "clarifying"}
+              disabled={isLoading || !hasApiKeys || phase === "clarifying" || phase === "reviewing"}
               placeholder={
                 phase === "clarifying"
                   ? "Please answer the questions above..."
+                  : phase === "reviewing"
+                  ? "Confirm the plan above to start the debate..."
                   : "Compare technologies... (e.g., 'React vs Vue vs Angular')"
               }
               value={inputValue}
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { memo } from "react";
+import type { CrossExamineResponse, FactCheckResult } from "@/lib/types";
+
+export interface DisputeLedgerProps {
+  crossExaminations: CrossExamineResponse[];
+}
+
+const VERDICT_STYLES: Record<FactCheckResult["verdict"] | "unchecked", { label: string; className: string }> = {
+  confirmed: { label: "Confirmed", className: "bg-green-100 text-green-700" },
+  disputed: { label: "Disputed", className: "bg-red-100 text-red-700" },
+  unverifiable: { label: "Unverifiable", className: "bg-stone-100 text-stone-600" },
+  unchecked: { label: "Not checked", className: "bg-stone-50 text-stone-400 border border-stone-200" },
+};
+
+const VerdictBadge = memo(function VerdictBadge({
+  verdict,
+}: {
+  verdict: FactCheckResult["verdict"] | "unchecked";
+}) {
+  const style = VERDICT_STYLES[verdict];
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 text-xs font-mono uppercase tracking-wider rounded-full whitespace-nowrap ${style.className}`}>
+      {style.label}
+    </span>
+  );
+});
+
+/**
+ * DisputeLedger Component
+ * Lists every challenged claim with its challenger, target and fact-check verdict
+ */
+export const DisputeLedger = memo(function DisputeLedger({
+  crossExaminations,
+}: DisputeLedgerProps) {
+  const entries = crossExaminations.flatMap((ce) =>
+    ce.challenges.map((challenge) => ({ challenger: ce.option, challenge }))
+  );
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const disputedCount = entries.filter((e) => e.challenge.factCheck?.verdict === "disputed").length;
+
+  return (
+    <div className="bg-white rounded-xl border border-stone-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">
+          Dispute Ledger
+        </h4>
+        <span className="text-xs font-mono text-stone-400">
+          {entries.length} claim{entries.length !== 1 ? "s" : ""} · {disputedCount} disputed
+        </span>
+      </div>
+      <ul className="divide-y divide-stone-100">
+        {entries.map(({ challenger, challenge }, idx) => (
+          <li key={idx} className="py-3 space-y-1.5">
+            <div className="flex items-start justify-between gap-3">
+              <p className="text-sm text-stone-800">
+                <span className="font-mono text-xs text-stone-400">
+                  {challenger} → {challenge.targetOption}
+                </span>
+                <br />
+                &ldquo;{challenge.claim}&rdquo;
+              </p>
+              <VerdictBadge verdict={challenge.factCheck?.verdict ?? "unchecked"} />
+            </div>
+            <p className="text-sm text-stone-600">{challenge.critique}</p>
+            {challenge.factCheck && (
+              <div className="text-xs text-stone-500 space-y-1">
+                <p>{challenge.factCheck.evidence}</p>
+                {challenge.factCheck.sources.length > 0 && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1">
+                    {challenge.factCheck.sources.map((source) => (
+                      <a
+                        key={source.url}
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-amber-700 hover:text-amber-900 hover:underline truncate max-w-[16rem]"
+                        title={source.snippet}
+                      >
+                        {source.title}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+export default DisputeLedger;
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { memo, useMemo, useState } from "react";
+import { isTournament } from "@/lib/debate/tournament";
+import type { ComparisonPlan, Constraint, SessionFork } from "@/lib/types";
+import { diffConstraints } from "@/lib/utils/diff";
+import { validateReviewedPlan } from "@/lib/utils/plan";
+import { ConstraintsEditor } from "./PlanEditor";
+
+export interface ForkEditorProps {
+  plan: ComparisonPlan;
+  onConfirm: (plan: ComparisonPlan, rerun: SessionFork["rerun"]) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const RERUN_CHOICES: { value: SessionFork["rerun"]; label: string; description: string }[] = [
+  { value: "referee", label: "Verdict only", description: "The referee re-judges the existing debate" },
+  {
+    value: "cross-examination",
+    label: "Cross-examination and verdict",
+    description: "Challenges are raised again with the new constraints in mind",
+  },
+];
+
+/**
+ * ForkEditor Component
+ * Edits a finished comparison's constraints for a re-run that reuses the advocates' research
+ */
+export const ForkEditor = memo(function ForkEditor({ plan, onConfirm, onCancel, disabled }: ForkEditorProps) {
+  const [constraints, setConstraints] = useState<Constraint[]>(plan.constraints);
+  const [rerun, setRerun] = useState<SessionFork["rerun"]>("referee");
+  // Tournament matches depend on earlier results, so they are always played again
+  const tournament = isTournament(plan);
+
+  const validation = useMemo(() => validateReviewedPlan({ ...plan, constraints }), [plan, constraints]);
+  const changes = useMemo(() => diffConstraints(plan.constraints, constraints), [plan.constraints, constraints]);
+  const changed = changes.added.length > 0 || changes.removed.length > 0;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-5 animate-in fade-in duration-300">
+      <div>
+        <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">Fork with changed constraints</h4>
+        <p className="text-xs text-stone-500 mt-1">
+          The advocates&apos; research is reused; only the later stages run again.
+        </p>
+      </div>
+
+      <ConstraintsEditor constraints={constraints} onChange={setConstraints} />
+
+      <div className="space-y-2">
+        <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">Re-run</h5>
+        {tournament ? (
+          <p className="text-xs text-stone-500">Tournament matches are replayed, so cross-examinations run again.</p>
+        ) : (
+          RERUN_CHOICES.map((choice) => (
+            <label key={choice.value} className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="fork-rerun"
+                checked={rerun === choice.value}
+                onChange={() => setRerun(choice.value)}
+                className="mt-1 accent-amber-500"
+              />
+              <span>
+                <span className="text-stone-800">{choice.label}</span>
+                <span className="block text-xs text-stone-500">{choice.description}</span>
+              </span>
+            </label>
+          ))
+        )}
+      </div>
+
+      {!validation.success && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {validation.errors.map((error) => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-4 py-2 text-sm font-medium text-stone-600 rounded-lg hover:bg-stone-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => validation.success && onConfirm(validation.plan, tournament ? "cross-examination" : rerun)}
+          disabled={disabled || !validation.success || !changed}
+          title={changed ? undefined : "Change a constraint first"}
+          className="px-4 py-2 text-sm font-medium text-white bg-stone-900 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-40 disabled:hover:bg-stone-900"
+        >
+          Fork and re-run
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default ForkEditor;
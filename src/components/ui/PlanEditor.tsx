@@ -0,0 +1,269 @@
+"use client";
+
+import React, { memo, useMemo, useState } from "react";
+import {
+  ConstraintSchema,
+  MAX_DEBATE_OPTIONS,
+  MAX_TOURNAMENT_OPTIONS,
+  type ComparisonPlan,
+  type Constraint,
+} from "@/lib/types";
+import { validateReviewedPlan } from "@/lib/utils/plan";
+
+export interface PlanEditorProps {
+  plan: ComparisonPlan;
+  // Called with the validated plan
+  onConfirm: (plan: ComparisonPlan) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const CONSTRAINT_TYPES = ConstraintSchema.shape.type.options;
+
+const inputClassName =
+  "w-full px-2 py-1.5 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent";
+
+const RemoveButton = memo(function RemoveButton({
+  label,
+  onClick,
+  disabled,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      className="shrink-0 p-1.5 text-stone-400 hover:text-red-500 rounded-md hover:bg-red-50 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-stone-400"
+    >
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    </button>
+  );
+});
+
+const SectionHeader = memo(function SectionHeader({
+  title,
+  onAdd,
+  addLabel,
+  canAdd = true,
+}: {
+  title: string;
+  onAdd: () => void;
+  addLabel: string;
+  canAdd?: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">{title}</h5>
+      <button
+        type="button"
+        onClick={onAdd}
+        disabled={!canAdd}
+        className="text-xs font-mono text-amber-700 hover:text-amber-800 disabled:text-stone-300"
+      >
+        + {addLabel}
+      </button>
+    </div>
+  );
+});
+
+export interface ConstraintsEditorProps {
+  constraints: Constraint[];
+  onChange: (constraints: Constraint[]) => void;
+}
+
+/**
+ * ConstraintsEditor Component
+ * Editable list of constraints, shared by the plan review and session forks
+ */
+export const ConstraintsEditor = memo(function ConstraintsEditor({ constraints, onChange }: ConstraintsEditorProps) {
+  const setConstraint = (index: number, changes: Partial<Constraint>) =>
+    onChange(constraints.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+
+  return (
+    <div className="space-y-2">
+      <SectionHeader
+        title="Constraints"
+        addLabel="Add constraint"
+        onAdd={() => onChange([...constraints, { type: "must-have", description: "" }])}
+      />
+      {constraints.length === 0 && <p className="text-xs text-stone-400">No constraints</p>}
+      {constraints.map((constraint, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <select
+            value={constraint.type}
+            onChange={(e) => setConstraint(i, { type: e.target.value as Constraint["type"] })}
+            className={`${inputClassName} w-32 shrink-0`}
+          >
+            {CONSTRAINT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            value={constraint.description}
+            placeholder="Description"
+            onChange={(e) => setConstraint(i, { description: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            value={constraint.value ?? ""}
+            placeholder="Value"
+            onChange={(e) => setConstraint(i, { value: e.target.value || undefined })}
+            className={`${inputClassName} w-28 shrink-0`}
+          />
+          <RemoveButton
+            label="Remove constraint"
+            onClick={() => onChange(constraints.filter((_, j) => j !== i))}
+          />
+        </div>
+      ))}
+    </div>
+  );
+});
+
+/**
+ * PlanEditor Component
+ * Lets the user adjust the planner's options, constraints and axes before the debate starts
+ */
+export const PlanEditor = memo(function PlanEditor({
+  plan,
+  onConfirm,
+  onCancel,
+  disabled,
+}: PlanEditorProps) {
+  const [draft, setDraft] = useState<ComparisonPlan>(plan);
+  const validation = useMemo(() => validateReviewedPlan(draft), [draft]);
+
+  const update = (changes: Partial<ComparisonPlan>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const setOption = (index: number, value: string) =>
+    update({ options: draft.options.map((option, i) => (i === index ? value : option)) });
+
+  const setAxis = (index: number, changes: Partial<ComparisonPlan["axes"][number]>) =>
+    update({ axes: draft.axes.map((axis, i) => (i === index ? { ...axis, ...changes } : axis)) });
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-5 animate-in fade-in duration-300">
+      <div>
+        <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">Review the plan</h4>
+        <p className="text-xs text-stone-500 mt-1">
+          Adjust what gets compared and how before the advocates start researching.
+        </p>
+      </div>
+
+      {/* Options */}
+      <div className="space-y-2">
+        <SectionHeader
+          title="Options"
+          addLabel="Add option"
+          canAdd={draft.options.length < MAX_TOURNAMENT_OPTIONS}
+          onAdd={() => update({ options: [...draft.options, ""] })}
+        />
+        {draft.options.length > MAX_DEBATE_OPTIONS && (
+          <p className="text-xs text-stone-500">
+            More than {MAX_DEBATE_OPTIONS} options are played as a tournament of group debates.
+          </p>
+        )}
+        {draft.options.map((option, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              value={option}
+              placeholder="Option name"
+              onChange={(e) => setOption(i, e.target.value)}
+              className={inputClassName}
+            />
+            <RemoveButton
+              label="Remove option"
+              disabled={draft.options.length <= 2}
+              onClick={() => update({ options: draft.options.filter((_, j) => j !== i) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Constraints */}
+      <ConstraintsEditor constraints={draft.constraints} onChange={(constraints) => update({ constraints })} />
+
+      {/* Axes */}
+      <div className="space-y-2">
+        <SectionHeader
+          title="Axes"
+          addLabel="Add axis"
+          onAdd={() => update({ axes: [...draft.axes, { name: "", description: "", weight: 5 }] })}
+        />
+        {draft.axes.map((axis, i) => (
+          <div key={i} className="space-y-1.5 p-3 rounded-xl bg-stone-50">
+            <div className="flex items-center gap-2">
+              <input
+                value={axis.name}
+                placeholder="Axis name"
+                onChange={(e) => setAxis(i, { name: e.target.value })}
+                className={inputClassName}
+              />
+              <RemoveButton
+                label="Remove axis"
+                disabled={draft.axes.length <= 1}
+                onClick={() => update({ axes: draft.axes.filter((_, j) => j !== i) })}
+              />
+            </div>
+            <input
+              value={axis.description}
+              placeholder="What this axis measures"
+              onChange={(e) => setAxis(i, { description: e.target.value })}
+              className={inputClassName}
+            />
+            <label className="flex items-center gap-3 text-xs text-stone-500">
+              <span className="w-12">Weight</span>
+              <input
+                type="range"
+                min={1}
+                max={10}
+                value={axis.weight}
+                onChange={(e) => setAxis(i, { weight: Number(e.target.value) })}
+                className="flex-1 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+              />
+              <span className="w-6 text-right font-mono text-amber-600">{axis.weight}</span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {!validation.success && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {validation.errors.map((error) => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={disabled}
+          className="px-4 py-2 text-sm font-medium text-stone-600 rounded-lg hover:bg-stone-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => validation.success && onConfirm(validation.plan)}
+          disabled={disabled || !validation.success}
+          className="px-4 py-2 text-sm font-medium text-white bg-stone-900 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-40 disabled:hover:bg-stone-900"
+        >
+          Start debate
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default PlanEditor;
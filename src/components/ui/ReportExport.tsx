@@ -0,0 +1,72 @@
+"use client";
+
+import React, { memo, useCallback } from "react";
+import type { ComparisonSession } from "@/lib/types";
+import { downloadFile } from "@/lib/utils/download";
+import { sessionToHtml, sessionToMarkdown } from "@/lib/utils/session-report";
+
+export type ReportFormat = "markdown" | "html";
+
+export interface ReportExportProps {
+  session: ComparisonSession;
+  // Smaller buttons for the history sidebar
+  compact?: boolean;
+}
+
+const REPORT_FILES: Record<ReportFormat, { extension: string; type: string; label: string }> = {
+  markdown: { extension: "md", type: "text/markdown", label: "Markdown" },
+  html: { extension: "html", type: "text/html", label: "HTML" },
+};
+
+// "Postgres vs DynamoDB for orders" -> "postgres-vs-dynamodb-for-orders-2026-01-31"
+function reportFileName(session: ComparisonSession, format: ReportFormat): string {
+  const slug = session.query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "comparison";
+  const date = new Date(session.createdAt).toISOString().slice(0, 10);
+  return `${slug}-${date}.${REPORT_FILES[format].extension}`;
+}
+
+/**
+ * Download a session as a standalone decision report
+ */
+export function downloadReport(session: ComparisonSession, format: ReportFormat) {
+  const content = format === "html" ? sessionToHtml(session) : sessionToMarkdown(session);
+  downloadFile(reportFileName(session, format), content, `${REPORT_FILES[format].type};charset=utf-8`);
+}
+
+/**
+ * ReportExport Component
+ * Buttons that save a session as a Markdown or HTML report, e.g. to file as an ADR
+ */
+export const ReportExport = memo(function ReportExport({ session, compact }: ReportExportProps) {
+  const handleExport = useCallback(
+    (e: React.MouseEvent, format: ReportFormat) => {
+      // Inside a clickable history item
+      e.stopPropagation();
+      downloadReport(session, format);
+    },
+    [session]
+  );
+
+  return (
+    <div className={`flex items-center ${compact ? "gap-1" : "gap-2"}`}>
+      {!compact && <span className="text-xs font-mono text-stone-500 uppercase tracking-widest">Export</span>}
+      {(Object.keys(REPORT_FILES) as ReportFormat[]).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={(e) => handleExport(e, format)}
+          title={`Download a ${REPORT_FILES[format].label} report`}
+          className={
+            compact
+              ? "px-2 py-1 text-[10px] font-mono uppercase tracking-wider text-stone-500 bg-stone-100 rounded-md hover:text-amber-700 hover:bg-amber-50 transition-colors"
+              : "px-3 py-1.5 text-xs font-mono uppercase tracking-wider text-stone-600 border border-stone-300 rounded-lg hover:border-amber-500 hover:text-amber-700 transition-colors"
+          }
+        >
+          ⤓ {compact && format === "markdown" ? "MD" : REPORT_FILES[format].label}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+export default ReportExport;
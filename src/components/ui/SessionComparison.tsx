@@ -0,0 +1,133 @@
+"use client";
+
+import React, { memo, useMemo } from "react";
+import type { ComparisonSession } from "@/lib/types";
+import { diffSessions, formatConstraint, judgedVerdict } from "@/lib/utils/diff";
+import { ListChanges, VerdictDiff } from "./VerdictDiff";
+
+export interface SessionComparisonProps {
+  // The earlier session; the diff reads as what changed since
+  before: ComparisonSession;
+  after: ComparisonSession;
+  onClose?: () => void;
+}
+
+const SessionHeading = memo(function SessionHeading({ label, session }: { label: string; session: ComparisonSession }) {
+  return (
+    <div className="flex-1 min-w-0 p-3 rounded-xl bg-stone-50">
+      <p className="text-xs font-mono text-stone-500 uppercase tracking-widest">{label}</p>
+      <p className="text-sm font-medium text-stone-800 line-clamp-2 mt-1">{session.query}</p>
+      <p className="text-xs text-stone-400 font-mono mt-1">{new Date(session.createdAt).toLocaleDateString()}</p>
+    </div>
+  );
+});
+
+/**
+ * SessionComparison Component
+ * Side-by-side diff of two sessions: plan changes, the verdicts, and the sources cited
+ */
+export const SessionComparison = memo(function SessionComparison({ before, after, onClose }: SessionComparisonProps) {
+  const diff = useMemo(() => diffSessions(before, after), [before, after]);
+  const verdicts = useMemo(() => {
+    const earlier = judgedVerdict(before);
+    const later = judgedVerdict(after);
+    return earlier && later ? { before: earlier, after: later } : undefined;
+  }, [before, after]);
+
+  const planChanged =
+    diff.options.added.length + diff.options.removed.length > 0 ||
+    diff.axes.added.length + diff.axes.removed.length + diff.axes.reweighted.length > 0 ||
+    diff.constraints.added.length + diff.constraints.removed.length > 0;
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <h3 className="text-xl font-serif text-stone-800">Comparing two sessions</h3>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xs font-mono uppercase tracking-wider text-stone-500 hover:text-stone-800"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <SessionHeading label="Before" session={before} />
+        <SessionHeading label="After" session={after} />
+      </div>
+
+      {/* Plan */}
+      <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-4">
+        <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">Plan</h4>
+        {!planChanged && <p className="text-sm text-stone-500">The options, axes and constraints are the same.</p>}
+        <ListChanges title="Options" diff={diff.options} />
+        <ListChanges
+          title="Axes"
+          diff={{ added: diff.axes.added.map((a) => a.name), removed: diff.axes.removed.map((a) => a.name) }}
+        />
+        {diff.axes.reweighted.length > 0 && (
+          <div className="space-y-1">
+            <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">Weights</h5>
+            <ul className="text-sm space-y-0.5">
+              {diff.axes.reweighted.map((change) => (
+                <li key={change.axis} className="flex items-center gap-2">
+                  <span className="flex-1 text-stone-700">{change.axis}</span>
+                  <span className="font-mono text-stone-500">
+                    {change.before} → {change.after}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <ListChanges
+          title="Constraints"
+          diff={{
+            added: diff.constraints.added.map(formatConstraint),
+            removed: diff.constraints.removed.map(formatConstraint),
+          }}
+        />
+      </div>
+
+      {verdicts ? (
+        <VerdictDiff title="Verdict" before={verdicts.before} after={verdicts.after} />
+      ) : (
+        <p className="text-sm text-stone-500">Both sessions need a verdict to compare scores and recommendations.</p>
+      )}
+
+      {/* Sources */}
+      {diff.sources.added.length + diff.sources.removed.length > 0 && (
+        <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-3">
+          <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">Sources</h4>
+          {[
+            { title: "New", sources: diff.sources.added, className: "text-emerald-700" },
+            { title: "No longer cited", sources: diff.sources.removed, className: "text-red-600" },
+          ].map(
+            ({ title, sources, className }) =>
+              sources.length > 0 && (
+                <div key={title} className="space-y-1">
+                  <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+                    {title} ({sources.length})
+                  </h5>
+                  <ul className="text-sm space-y-0.5">
+                    {sources.map((source) => (
+                      <li key={source.url} className="truncate">
+                        <a href={source.url} target="_blank" rel="noopener noreferrer" className={`${className} hover:underline`}>
+                          {source.title || source.url}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SessionComparison;
@@ -1,13 +1,21 @@
 "use client";
 
-import { memo, useCallback } from "react";
+import { memo, useCallback, useState } from "react";
 import { useSessionStore } from "@/lib/stores/session";
-import type { ComparisonSession, SessionStatus } from "@/lib/types";
+import { useSettingsStore } from "@/lib/stores/settings";
+import { formatCost, formatTokens, summarizeUsage } from "@/lib/utils/usage";
+import { describeResumePoint, findResumePoint } from "@/lib/debate/resume";
+import type { ComparisonSession, PriceTable, SessionStatus } from "@/lib/types";
+import { ReportExport } from "./ReportExport";
 
 export interface SessionHistoryProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectSession: (sessionId: string) => void;
+  // Open a failed session and rerun only what failed
+  onResumeSession?: (sessionId: string) => void;
+  // Diff two sessions, the earlier one first
+  onCompareSessions?: (beforeId: string, afterId: string) => void;
 }
 
 const StatusBadge = memo(function StatusBadge({ status }: { status: SessionStatus }) {
@@ -32,13 +40,20 @@ const StatusBadge = memo(function StatusBadge({ status }: { status: SessionStatu
 
 const SessionItem = memo(function SessionItem({
   session,
+  prices,
   isActive,
+  selected,
   onSelect,
+  onResume,
   onDelete,
 }: {
   session: ComparisonSession;
+  prices: PriceTable;
   isActive: boolean;
+  // Whether the session is picked for a diff; undefined outside compare mode
+  selected?: boolean;
   onSelect: () => void;
+  onResume?: () => void;
   onDelete: () => void;
 }) {
   const handleDelete = useCallback((e: React.MouseEvent) => {
@@ -46,6 +61,11 @@ const SessionItem = memo(function SessionItem({
     onDelete();
   }, [onDelete]);
 
+  const handleResume = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onResume?.();
+  }, [onResume]);
+
   const formatDate = (date: Date) => {
     const d = new Date(date);
     const now = new Date();
@@ -66,19 +86,31 @@ const SessionItem = memo(function SessionItem({
     return query.slice(0, maxLength).trim() + "...";
   };
 
+  const usage = session.usage?.length ? summarizeUsage(session.usage, prices) : undefined;
+  const resumePoint = onResume ? findResumePoint(session) : undefined;
+
   return (
     <div
       onClick={onSelect}
       className={`
         group relative p-3 rounded-xl cursor-pointer transition-all duration-200
         ${
-          isActive
+          selected || (selected === undefined && isActive)
             ? "bg-amber-50 border-2 border-amber-300 shadow-sm"
             : "hover:bg-stone-50 border-2 border-transparent hover:border-stone-200"
         }
       `}
     >
       <div className="flex items-start justify-between gap-2">
+        {selected !== undefined && (
+          <span
+            className={`mt-0.5 w-4 h-4 shrink-0 rounded border flex items-center justify-center text-[10px] ${
+              selected ? "bg-amber-500 border-amber-500 text-white" : "border-stone-300 bg-white"
+            }`}
+          >
+            {selected && "✓"}
+          </span>
+        )}
         <div className="flex-1 min-w-0">
           <p className="text-sm font-medium text-stone-800 line-clamp-2 leading-snug">
             {truncateQuery(session.query)}
@@ -89,6 +121,20 @@ const SessionItem = memo(function SessionItem({
               {formatDate(session.createdAt)}
             </span>
           </div>
+          {session.model && (
+            <p className="mt-1 text-[10px] text-stone-400 font-mono truncate" title="Model">
+              {session.model}
+            </p>
+          )}
+          {usage && (
+            <p
+              className="mt-1 text-[10px] text-stone-400 font-mono truncate"
+              title={`${usage.usage.inputTokens} input / ${usage.usage.outputTokens} output tokens, ${usage.usage.toolCalls} tool calls, ${usage.usage.searchCalls} searches`}
+            >
+              {formatTokens(usage.usage.totalTokens)} tokens · ~{formatCost(usage.cost)}
+              {usage.unpricedModels.length > 0 && "+"}
+            </p>
+          )}
           {session.plan && (
             <div className="flex flex-wrap gap-1 mt-2">
               {session.plan.options.slice(0, 3).map((opt, i) => (
@@ -106,6 +152,20 @@ const SessionItem = memo(function SessionItem({
               )}
             </div>
           )}
+          {resumePoint && selected === undefined && (
+            <button
+              onClick={handleResume}
+              className="mt-2 px-2 py-1 text-[10px] font-mono uppercase tracking-wider text-red-600 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+              title={`Resume ${describeResumePoint(resumePoint)}`}
+            >
+              ↻ Resume
+            </button>
+          )}
+          {session.status === "complete" && selected === undefined && (
+            <div className="mt-2">
+              <ReportExport session={session} compact />
+            </div>
+          )}
         </div>
         
         <button
@@ -144,8 +204,31 @@ export const SessionHistory = memo(function SessionHistory({
   isOpen,
   onClose,
   onSelectSession,
+  onResumeSession,
+  onCompareSessions,
 }: SessionHistoryProps) {
   const { sessions, currentSessionId, deleteSession, setCurrentSession } = useSessionStore();
+  const prices = useSettingsStore((state) => state.prices);
+  // Sessions picked for a diff, or null outside compare mode
+  const [comparing, setComparing] = useState<string[] | null>(null);
+
+  const toggleCompared = useCallback((sessionId: string) => {
+    setComparing((picked) => {
+      if (!picked) return picked;
+      if (picked.includes(sessionId)) return picked.filter((id) => id !== sessionId);
+      // Picking a third replaces the oldest pick
+      return [...picked, sessionId].slice(-2);
+    });
+  }, []);
+
+  const handleCompare = useCallback(() => {
+    if (comparing?.length !== 2 || !onCompareSessions) return;
+    const [before, after] = comparing
+      .map((id) => sessions.find((s) => s.id === id)!)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    setComparing(null);
+    onCompareSessions(before.id, after.id);
+  }, [comparing, sessions, onCompareSessions]);
 
   const handleSelectSession = useCallback((sessionId: string) => {
     setCurrentSession(sessionId);
@@ -201,6 +284,17 @@ export const SessionHistory = memo(function SessionHistory({
             )}
           </div>
           <div className="flex items-center gap-1">
+            {onCompareSessions && sessions.length >= 2 && (
+              <button
+                onClick={() => setComparing(comparing ? null : [])}
+                className={`px-2 py-1 text-xs font-mono uppercase tracking-wider rounded-lg transition-colors ${
+                  comparing ? "text-amber-700 bg-amber-50" : "text-stone-500 hover:text-stone-700 hover:bg-stone-100"
+                }`}
+                title="Pick two sessions to compare"
+              >
+                Compare
+              </button>
+            )}
             {sessions.length > 0 && (
               <button
                 onClick={handleClearAll}
@@ -233,8 +327,11 @@ export const SessionHistory = memo(function SessionHistory({
                 <SessionItem
                   key={session.id}
                   session={session}
+                  prices={prices}
                   isActive={session.id === currentSessionId}
-                  onSelect={() => handleSelectSession(session.id)}
+                  selected={comparing ? comparing.includes(session.id) : undefined}
+                  onSelect={() => (comparing ? toggleCompared(session.id) : handleSelectSession(session.id))}
+                  onResume={onResumeSession && (() => onResumeSession(session.id))}
                   onDelete={() => handleDeleteSession(session.id)}
                 />
               ))}
@@ -244,9 +341,19 @@ export const SessionHistory = memo(function SessionHistory({
 
         {/* Footer */}
         <div className="px-4 py-3 border-t border-stone-200 bg-stone-50">
-          <p className="text-xs text-stone-400 text-center font-mono">
-            Sessions stored locally
-          </p>
+          {comparing ? (
+            <button
+              onClick={handleCompare}
+              disabled={comparing.length !== 2}
+              className="w-full px-3 py-2 text-xs font-mono uppercase tracking-wider text-white bg-stone-900 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-40 disabled:hover:bg-stone-900"
+            >
+              {comparing.length === 2 ? "Compare sessions" : `Pick ${2 - comparing.length} more`}
+            </button>
+          ) : (
+            <p className="text-xs text-stone-400 text-center font-mono">
+              Sessions stored locally
+            </p>
+          )}
         </div>
       </aside>
     </>
@@ -2,12 +2,37 @@
 
 import { memo, useState, useCallback, useEffect } from "react";
 import { useSettingsStore } from "@/lib/stores/settings";
+import { DEFAULT_AGENT_MODELS, DEFAULT_PRICE_TABLE, MAX_DEBATE_OPTIONS, MAX_DEBATE_ROUNDS, MAX_TOURNAMENT_OPTIONS, ModelIdSchema } from "@/lib/types";
+import type { AgentFailurePolicy, AgentModelConfig, AgentModels, AgentRole, ModelId, PriceTable, ProviderConnection, SearchProviderId, SearchSettings, UsageBudget } from "@/lib/types";
 
 export interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const MODELS: { id: ModelId; name: string; description: string }[] = [
+  { id: "gemini-3-flash-preview", name: "Gemini 3 Flash (Preview)", description: "Fast and efficient" },
+  { id: "gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash", description: "Balanced performance" },
+  { id: "gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro", description: "Most capable" },
+  { id: "openai:gpt-4o", name: "OpenAI GPT-4o", description: "Any openai:<model> id works" },
+  { id: "local:llama3.1", name: "Local Llama 3.1", description: "Any local:<model> id works" },
+];
+
+const MODEL_OPTIONS_ID = "settings-model-options";
+
+const SEARCH_PROVIDERS: { id: SearchProviderId; name: string; description: string }[] = [
+  { id: "exa", name: "Exa", description: "Hosted web search with live crawling (needs an Exa API key)" },
+  { id: "searxng", name: "SearXNG / JSON endpoint", description: "Self-hosted SearXNG or any endpoint returning JSON results" },
+  { id: "local", name: "Internal knowledge base", description: "Docs indexed on the server with bun run kb:ingest, instead of the web" },
+];
+
+const AGENT_ROLES: { role: AgentRole; name: string }[] = [
+  { role: "planner", name: "Planner" },
+  { role: "advocate", name: "Advocates" },
+  { role: "cross-examiner", name: "Cross-Examiners" },
+  { role: "referee", name: "Referee" },
+];
+
 /**
  * API Key input field with show/hide toggle
  */
@@ -81,28 +106,432 @@ const ModelSelector = memo(function ModelSelector({
   value: string;
   onChange: (value: string) => void;
 }) {
-  const models = [
-    { id: "gemini-3-flash-preview", name: "Gemini 3 Flash (Preview)", description: "Fast and efficient" },
-    { id: "gemini-2.5-flash-preview-05-20", name: "Gemini 2.5 Flash", description: "Balanced performance" },
-    { id: "gemini-2.5-pro-preview-05-06", name: "Gemini 2.5 Pro", description: "Most capable" },
-  ];
+  const isValid = ModelIdSchema.safeParse(value).success;
 
   return (
     <div className="space-y-2">
       <label className="block text-sm font-medium text-stone-700">
         Model
       </label>
-      <select
+      <p className="text-xs text-stone-500">
+        Pick a Gemini model, or enter openai:&lt;model&gt; or local:&lt;model&gt;
+      </p>
+      <input
+        type="text"
+        list={MODEL_OPTIONS_ID}
         value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="w-full px-4 py-2.5 rounded-lg border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-      >
-        {models.map((model) => (
+        onChange={(e) => onChange(e.target.value.trim())}
+        className={`w-full px-4 py-2.5 rounded-lg border bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent ${
+          isValid ? "border-stone-200" : "border-red-300"
+        }`}
+      />
+      <datalist id={MODEL_OPTIONS_ID}>
+        {MODELS.map((model) => (
           <option key={model.id} value={model.id}>
             {model.name} - {model.description}
           </option>
         ))}
-      </select>
+      </datalist>
+      {!isValid && (
+        <p className="text-xs text-red-600">Unsupported model id</p>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Base URL input for an OpenAI-compatible provider
+ */
+const BaseUrlInput = memo(function BaseUrlInput({
+  label,
+  value,
+  onChange,
+  placeholder,
+  description,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  description?: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-stone-700">
+        {label}
+      </label>
+      {description && (
+        <p className="text-xs text-stone-500">{description}</p>
+      )}
+      <input
+        type="url"
+        value={value}
+        onChange={(e) => onChange(e.target.value.trim())}
+        placeholder={placeholder}
+        className="w-full px-4 py-2.5 rounded-lg border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+      />
+    </div>
+  );
+});
+
+/**
+ * Drop empty fields so server env vars are used instead
+ */
+function toConnection(apiKey: string, baseURL: string): ProviderConnection {
+  return {
+    apiKey: apiKey || undefined,
+    baseURL: baseURL || undefined,
+  };
+}
+
+/**
+ * Search settings for the selected backend - only SearXNG takes a URL and key
+ */
+function toSearchSettings(provider: SearchProviderId, baseURL: string, apiKey: string): SearchSettings {
+  if (provider !== "searxng") return { provider };
+  return { provider, ...toConnection(apiKey, baseURL) };
+}
+
+/**
+ * Parse an optional numeric input - empty means "use the default"
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Model and generation settings for a single agent role
+ */
+const AgentModelRow = memo(function AgentModelRow({
+  role,
+  name,
+  config,
+  onChange,
+}: {
+  role: AgentRole;
+  name: string;
+  config: AgentModelConfig;
+  onChange: (role: AgentRole, config: AgentModelConfig) => void;
+}) {
+  const inputClassName =
+    "w-full px-2 py-1.5 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-stone-200 bg-white/60">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-medium text-stone-700">{name}</span>
+        <input
+          type="text"
+          list={MODEL_OPTIONS_ID}
+          placeholder="Default model"
+          value={config.model ?? ""}
+          onChange={(e) =>
+            onChange(role, { ...config, model: (e.target.value.trim() || undefined) as ModelId | undefined })
+          }
+          className={`max-w-[60%] px-2 py-1.5 rounded-md border bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent ${
+            !config.model || ModelIdSchema.safeParse(config.model).success ? "border-stone-200" : "border-red-300"
+          }`}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1 text-xs text-stone-500">
+          <span>Temperature</span>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            placeholder="Default"
+            value={config.temperature ?? ""}
+            onChange={(e) => onChange(role, { ...config, temperature: parseOptionalNumber(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-stone-500">
+          <span>Max tokens</span>
+          <input
+            type="number"
+            min={256}
+            max={65536}
+            step={256}
+            placeholder="Default"
+            value={config.maxOutputTokens ?? ""}
+            onChange={(e) => onChange(role, { ...config, maxOutputTokens: parseOptionalNumber(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-stone-500">
+          <span>Max steps</span>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={config.maxSteps}
+            onChange={(e) =>
+              onChange(role, {
+                ...config,
+                maxSteps: parseOptionalNumber(e.target.value) ?? DEFAULT_AGENT_MODELS[role].maxSteps,
+              })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * One editable model price; rows keep their order while a model id is being typed
+ */
+interface PriceRow {
+  model: string;
+  input: number;
+  output: number;
+}
+
+function toPriceRows(prices: PriceTable): PriceRow[] {
+  return Object.entries(prices.models).map(([model, price]) => ({ model, ...price }));
+}
+
+/**
+ * Rebuild the price table, dropping rows without a model id
+ */
+function toPriceTable(rows: PriceRow[], search: PriceTable["search"]): PriceTable {
+  return {
+    models: Object.fromEntries(
+      rows
+        .filter((row) => row.model.trim())
+        .map((row) => [row.model.trim(), { input: row.input, output: row.output }])
+    ),
+    search,
+  };
+}
+
+/**
+ * Per-model token prices and per-request search prices used for cost estimates
+ */
+const PriceTableEditor = memo(function PriceTableEditor({
+  rows,
+  searchPrices,
+  onRowsChange,
+  onSearchPricesChange,
+}: {
+  rows: PriceRow[];
+  searchPrices: PriceTable["search"];
+  onRowsChange: (rows: PriceRow[]) => void;
+  onSearchPricesChange: (search: PriceTable["search"]) => void;
+}) {
+  const inputClassName =
+    "w-full px-2 py-1.5 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent";
+
+  const updateRow = (index: number, row: Partial<PriceRow>) =>
+    onRowsChange(rows.map((r, i) => (i === index ? { ...r, ...row } : r)));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_5rem_5rem_1.5rem] gap-2 text-xs text-stone-500">
+        <span>Model</span>
+        <span>Input $/1M</span>
+        <span>Output $/1M</span>
+        <span />
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <input
+              type="text"
+              list={MODEL_OPTIONS_ID}
+              placeholder="model id or provider:*"
+              value={row.model}
+              onChange={(e) => updateRow(index, { model: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={row.input}
+              onChange={(e) => updateRow(index, { input: Math.max(0, parseOptionalNumber(e.target.value) ?? 0) })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={row.output}
+              onChange={(e) => updateRow(index, { output: Math.max(0, parseOptionalNumber(e.target.value) ?? 0) })}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => onRowsChange(rows.filter((_, i) => i !== index))}
+              className="text-stone-400 hover:text-red-500"
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onRowsChange([...rows, { model: "", input: 0, output: 0 }])}
+        className="text-xs font-medium text-amber-700 hover:text-amber-800"
+      >
+        + Add model
+      </button>
+
+      <div className="grid grid-cols-3 gap-2">
+        {SEARCH_PROVIDERS.map((provider) => (
+          <label key={provider.id} className="space-y-1 text-xs text-stone-500">
+            <span>{provider.name.split(" ")[0]} $/search</span>
+            <input
+              type="number"
+              min={0}
+              step={0.001}
+              value={searchPrices[provider.id]}
+              onChange={(e) =>
+                onSearchPricesChange({
+                  ...searchPrices,
+                  [provider.id]: Math.max(0, parseOptionalNumber(e.target.value) ?? 0),
+                })
+              }
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Per-comparison spending limits - empty fields are unlimited
+ */
+const BudgetInputs = memo(function BudgetInputs({
+  value,
+  onChange,
+}: {
+  value: UsageBudget;
+  onChange: (value: UsageBudget) => void;
+}) {
+  const inputClassName =
+    "w-full px-2 py-1.5 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent";
+
+  // Zero or negative token/cost limits would stop every agent before it starts
+  const positive = (input: string) => {
+    const parsed = parseOptionalNumber(input);
+    return parsed !== undefined && parsed > 0 ? parsed : undefined;
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <label className="space-y-1 text-xs text-stone-500">
+        <span>Max tokens</span>
+        <input
+          type="number"
+          min={1000}
+          step={1000}
+          placeholder="Unlimited"
+          value={value.maxTokens ?? ""}
+          onChange={(e) => {
+            const tokens = positive(e.target.value);
+            onChange({ ...value, maxTokens: tokens === undefined ? undefined : Math.round(tokens) });
+          }}
+          className={inputClassName}
+        />
+      </label>
+      <label className="space-y-1 text-xs text-stone-500">
+        <span>Max cost (USD)</span>
+        <input
+          type="number"
+          min={0}
+          step={0.01}
+          placeholder="Unlimited"
+          value={value.maxCostUsd ?? ""}
+          onChange={(e) => onChange({ ...value, maxCostUsd: positive(e.target.value) })}
+          className={inputClassName}
+        />
+      </label>
+      <label className="space-y-1 text-xs text-stone-500">
+        <span>Max searches</span>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          placeholder="Unlimited"
+          value={value.maxSearchCalls ?? ""}
+          onChange={(e) => {
+            const searches = parseOptionalNumber(e.target.value);
+            onChange({ ...value, maxSearchCalls: searches === undefined ? undefined : Math.max(0, Math.round(searches)) });
+          }}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+});
+
+const FAILURE_ACTIONS: { action: AgentFailurePolicy["action"]; label: string }[] = [
+  { action: "proceed", label: "Proceed" },
+  { action: "retry", label: "Retry" },
+  { action: "abort", label: "Abort" },
+];
+
+/**
+ * What to do when an advocate or cross-examiner fails
+ */
+const FailurePolicyPicker = memo(function FailurePolicyPicker({
+  value,
+  onChange,
+}: {
+  value: AgentFailurePolicy;
+  onChange: (value: AgentFailurePolicy) => void;
+}) {
+  const select = (action: AgentFailurePolicy["action"]) =>
+    onChange(action === "retry" ? { action, attempts: value.action === "retry" ? value.attempts : 2 } : { action });
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-stone-700">When an agent fails</label>
+      <div className="flex items-center gap-2">
+        {FAILURE_ACTIONS.map(({ action, label }) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => select(action)}
+            className={`px-3 py-1.5 text-xs font-mono uppercase tracking-wider rounded-full border transition-colors ${
+              value.action === action
+                ? "border-amber-400 bg-amber-50 text-amber-700"
+                : "border-stone-200 text-stone-500 hover:bg-stone-100"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {value.action === "retry" && (
+          <label className="flex items-center gap-1 text-xs text-stone-500">
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={value.attempts}
+              onChange={(e) => {
+                const attempts = Math.round(Number(e.target.value));
+                if (attempts >= 1 && attempts <= 5) onChange({ action: "retry", attempts });
+              }}
+              className="w-14 px-2 py-1 rounded-md border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            times
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-stone-500">
+        {value.action === "proceed" && "Carry on without the failed agent. You can retry it from its message afterwards."}
+        {value.action === "retry" && "Try a failed agent again before carrying on without it."}
+        {value.action === "abort" && "Stop the comparison at the first failed agent. You can resume it later."}
+      </p>
     </div>
   );
 });
@@ -145,6 +574,74 @@ const ParallelismSlider = memo(function ParallelismSlider({
   );
 });
 
+const MaxOptionsSlider = memo(function MaxOptionsSlider({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-stone-700">
+          Max Options
+        </label>
+        <span className="text-sm font-mono text-amber-600">{value}</span>
+      </div>
+      <p className="text-xs text-stone-500">
+        More than {MAX_DEBATE_OPTIONS} options are debated in groups, with the group winners meeting in a final
+      </p>
+      <input
+        type="range"
+        min={2}
+        max={MAX_TOURNAMENT_OPTIONS}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="w-full h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+      />
+      <div className="flex justify-between text-xs text-stone-400">
+        <span>2</span>
+        <span>{MAX_DEBATE_OPTIONS} (Single debate)</span>
+        <span>{MAX_TOURNAMENT_OPTIONS} (Tournament)</span>
+      </div>
+    </div>
+  );
+});
+
+const RoundsSlider = memo(function RoundsSlider({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-stone-700">
+          Debate Rounds
+        </label>
+        <span className="text-sm font-mono text-amber-600">{value}</span>
+      </div>
+      <p className="text-xs text-stone-500">
+        Each round after the first lets advocates rebut the challenges against them before another cross-examination
+      </p>
+      <input
+        type="range"
+        min={1}
+        max={MAX_DEBATE_ROUNDS}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="w-full h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+      />
+      <div className="flex justify-between text-xs text-stone-400">
+        <span>1 (No rebuttals)</span>
+        <span>{MAX_DEBATE_ROUNDS} (Max)</span>
+      </div>
+    </div>
+  );
+});
 
 /**
  * SettingsPanel Component
@@ -156,46 +653,131 @@ export const SettingsPanel = memo(function SettingsPanel({
   const {
     geminiApiKey,
     exaApiKey,
+    providers,
+    search,
+    mockMode,
     model,
+    agentModels,
     maxParallelism,
+    prices,
+    budget,
+    failurePolicy,
+    reviewPlan,
+    maxOptions,
+    rounds,
     setGeminiApiKey,
     setExaApiKey,
+    setProviderConnection,
+    setSearchSettings,
+    setMockMode,
     setModel,
+    setAgentModels,
     setMaxParallelism,
+    setPrices,
+    setBudget,
+    setFailurePolicy,
+    setReviewPlan,
+    setMaxOptions,
+    setRounds,
   } = useSettingsStore();
 
   const [localGeminiKey, setLocalGeminiKey] = useState(geminiApiKey);
   const [localExaKey, setLocalExaKey] = useState(exaApiKey);
+  const [localOpenAIKey, setLocalOpenAIKey] = useState(providers.openai?.apiKey ?? "");
+  const [localOpenAIUrl, setLocalOpenAIUrl] = useState(providers.openai?.baseURL ?? "");
+  const [localServerUrl, setLocalServerUrl] = useState(providers.local?.baseURL ?? "");
+  const [localServerKey, setLocalServerKey] = useState(providers.local?.apiKey ?? "");
+  const [localSearchProvider, setLocalSearchProvider] = useState(search.provider);
+  const [localSearchUrl, setLocalSearchUrl] = useState(search.baseURL ?? "");
+  const [localSearchKey, setLocalSearchKey] = useState(search.apiKey ?? "");
+  const [localMockMode, setLocalMockMode] = useState(mockMode);
   const [localModel, setLocalModel] = useState(model);
+  const [localAgentModels, setLocalAgentModels] = useState<AgentModels>(agentModels);
   const [localParallelism, setLocalParallelism] = useState(maxParallelism);
+  const [localPriceRows, setLocalPriceRows] = useState(() => toPriceRows(prices));
+  const [localSearchPrices, setLocalSearchPrices] = useState(prices.search);
+  const [localBudget, setLocalBudget] = useState<UsageBudget>(budget);
+  const [localFailurePolicy, setLocalFailurePolicy] = useState<AgentFailurePolicy>(failurePolicy);
+  const [localReviewPlan, setLocalReviewPlan] = useState(reviewPlan);
+  const [localMaxOptions, setLocalMaxOptions] = useState(maxOptions);
+  const [localRounds, setLocalRounds] = useState(rounds);
   const [hasChanges, setHasChanges] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       setLocalGeminiKey(geminiApiKey);
       setLocalExaKey(exaApiKey);
+      setLocalOpenAIKey(providers.openai?.apiKey ?? "");
+      setLocalOpenAIUrl(providers.openai?.baseURL ?? "");
+      setLocalServerUrl(providers.local?.baseURL ?? "");
+      setLocalServerKey(providers.local?.apiKey ?? "");
+      setLocalSearchProvider(search.provider);
+      setLocalSearchUrl(search.baseURL ?? "");
+      setLocalSearchKey(search.apiKey ?? "");
+      setLocalMockMode(mockMode);
       setLocalModel(model);
+      setLocalAgentModels(agentModels);
       setLocalParallelism(maxParallelism);
+      setLocalPriceRows(toPriceRows(prices));
+      setLocalSearchPrices(prices.search);
+      setLocalBudget(budget);
+      setLocalFailurePolicy(failurePolicy);
+      setLocalReviewPlan(reviewPlan);
+      setLocalMaxOptions(maxOptions);
+      setLocalRounds(rounds);
       setHasChanges(false);
     }
-  }, [isOpen, geminiApiKey, exaApiKey, model, maxParallelism]);
+  }, [isOpen, geminiApiKey, exaApiKey, providers, search, mockMode, model, agentModels, maxParallelism, prices, budget, failurePolicy, reviewPlan, maxOptions, rounds]);
 
   useEffect(() => {
     const changed =
       localGeminiKey !== geminiApiKey ||
       localExaKey !== exaApiKey ||
+      localOpenAIKey !== (providers.openai?.apiKey ?? "") ||
+      localOpenAIUrl !== (providers.openai?.baseURL ?? "") ||
+      localServerUrl !== (providers.local?.baseURL ?? "") ||
+      localServerKey !== (providers.local?.apiKey ?? "") ||
+      JSON.stringify(toSearchSettings(localSearchProvider, localSearchUrl, localSearchKey)) !== JSON.stringify(search) ||
+      localMockMode !== mockMode ||
       localModel !== model ||
-      localParallelism !== maxParallelism;
+      JSON.stringify(localAgentModels) !== JSON.stringify(agentModels) ||
+      localParallelism !== maxParallelism ||
+      JSON.stringify(toPriceTable(localPriceRows, localSearchPrices)) !== JSON.stringify(prices) ||
+      JSON.stringify(localBudget) !== JSON.stringify(budget) ||
+      JSON.stringify(localFailurePolicy) !== JSON.stringify(failurePolicy) ||
+      localReviewPlan !== reviewPlan ||
+      localMaxOptions !== maxOptions ||
+      localRounds !== rounds;
     setHasChanges(changed);
-  }, [localGeminiKey, localExaKey, localModel, localParallelism, geminiApiKey, exaApiKey, model, maxParallelism]);
+  }, [localGeminiKey, localExaKey, localOpenAIKey, localOpenAIUrl, localServerUrl, localServerKey, localSearchProvider, localSearchUrl, localSearchKey, localMockMode, localModel, localAgentModels, localParallelism, localPriceRows, localSearchPrices, localBudget, localFailurePolicy, localReviewPlan, localMaxOptions, localRounds, geminiApiKey, exaApiKey, providers, search, mockMode, model, agentModels, maxParallelism, prices, budget, failurePolicy, reviewPlan, maxOptions, rounds]);
+
+  const modelsValid =
+    ModelIdSchema.safeParse(localModel).success &&
+    Object.values(localAgentModels).every((config) => !config.model || ModelIdSchema.safeParse(config.model).success);
+  const canSave = hasChanges && modelsValid;
+
+  const handleAgentModelChange = useCallback((role: AgentRole, config: AgentModelConfig) => {
+    setLocalAgentModels((prev) => ({ ...prev, [role]: config }));
+  }, []);
 
   const handleSave = useCallback(() => {
     setGeminiApiKey(localGeminiKey);
     setExaApiKey(localExaKey);
+    setProviderConnection("openai", toConnection(localOpenAIKey, localOpenAIUrl));
+    setProviderConnection("local", toConnection(localServerKey, localServerUrl));
+    setSearchSettings(toSearchSettings(localSearchProvider, localSearchUrl, localSearchKey));
+    setMockMode(localMockMode);
     setModel(localModel);
+    setAgentModels(localAgentModels);
     setMaxParallelism(localParallelism);
+    setPrices(toPriceTable(localPriceRows, localSearchPrices));
+    setBudget(localBudget);
+    setFailurePolicy(localFailurePolicy);
+    setReviewPlan(localReviewPlan);
+    setMaxOptions(localMaxOptions);
+    setRounds(localRounds);
     onClose();
-  }, [localGeminiKey, localExaKey, localModel, localParallelism, setGeminiApiKey, setExaApiKey, setModel, setMaxParallelism, onClose]);
+  }, [localGeminiKey, localExaKey, localOpenAIKey, localOpenAIUrl, localServerKey, localServerUrl, localSearchProvider, localSearchUrl, localSearchKey, localMockMode, localModel, localAgentModels, localParallelism, localPriceRows, localSearchPrices, localBudget, localFailurePolicy, localReviewPlan, localMaxOptions, localRounds, setGeminiApiKey, setExaApiKey, setProviderConnection, setSearchSettings, setMockMode, setModel, setAgentModels, setMaxParallelism, setPrices, setBudget, setFailurePolicy, setReviewPlan, setMaxOptions, setRounds, onClose]);
 
   const handleCancel = useCallback(() => {
     onClose();
@@ -259,7 +841,91 @@ export const SettingsPanel = memo(function SettingsPanel({
               value={localExaKey}
               onChange={setLocalExaKey}
               placeholder="exa-..."
-              description="Get your key from exa.ai (required, enables web search)"
+              description="Get your key from exa.ai (required when Exa is the search backend)"
+            />
+          </div>
+
+          {/* Search Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Web Search ]
+            </h3>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-stone-700">
+                Search Backend
+              </label>
+              <p className="text-xs text-stone-500">
+                {SEARCH_PROVIDERS.find((p) => p.id === localSearchProvider)?.description}
+              </p>
+              <select
+                value={localSearchProvider}
+                onChange={(e) => setLocalSearchProvider(e.target.value as SearchProviderId)}
+                className="w-full px-4 py-2.5 rounded-lg border border-stone-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              >
+                {SEARCH_PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {localSearchProvider === "searxng" && (
+              <>
+                <BaseUrlInput
+                  label="Search Endpoint URL"
+                  value={localSearchUrl}
+                  onChange={setLocalSearchUrl}
+                  placeholder="http://localhost:8888"
+                  description="SearXNG base URL, or a JSON endpoint with a {query} placeholder. Ignored when the server sets SEARXNG_URL"
+                />
+
+                <ApiKeyInput
+                  label="Search Endpoint API Key"
+                  value={localSearchKey}
+                  onChange={setLocalSearchKey}
+                  placeholder="Optional"
+                />
+              </>
+            )}
+          </div>
+
+          {/* Providers Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Other Providers ]
+            </h3>
+
+            <ApiKeyInput
+              label="OpenAI API Key"
+              value={localOpenAIKey}
+              onChange={setLocalOpenAIKey}
+              placeholder="sk-..."
+              description="Used by openai:<model> ids"
+            />
+
+            <BaseUrlInput
+              label="OpenAI Base URL"
+              value={localOpenAIUrl}
+              onChange={setLocalOpenAIUrl}
+              placeholder="https://api.openai.com/v1"
+              description="Optional - point at any OpenAI-compatible API"
+            />
+
+            <BaseUrlInput
+              label="Local Server URL"
+              value={localServerUrl}
+              onChange={setLocalServerUrl}
+              placeholder="http://localhost:11434/v1"
+              description="OpenAI-compatible server (Ollama, llama.cpp) used by local:<model> ids"
+            />
+
+            <ApiKeyInput
+              label="Local Server API Key"
+              value={localServerKey}
+              onChange={setLocalServerKey}
+              placeholder="Optional"
             />
           </div>
 
@@ -272,6 +938,52 @@ export const SettingsPanel = memo(function SettingsPanel({
             <ModelSelector value={localModel} onChange={setLocalModel} />
           </div>
 
+          {/* Agent Models Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Agent Models ]
+            </h3>
+            <p className="text-xs text-stone-500">
+              Override the model and generation settings for each agent. Empty fields use the defaults.
+            </p>
+
+            {AGENT_ROLES.map(({ role, name }) => (
+              <AgentModelRow
+                key={role}
+                role={role}
+                name={name}
+                config={localAgentModels[role] ?? DEFAULT_AGENT_MODELS[role]}
+                onChange={handleAgentModelChange}
+              />
+            ))}
+          </div>
+
+          {/* Planning Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Debate ]
+            </h3>
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={localReviewPlan}
+                onChange={(e) => setLocalReviewPlan(e.target.checked)}
+                className="mt-0.5 w-4 h-4 accent-amber-500"
+              />
+              <span className="space-y-1">
+                <span className="block text-sm font-medium text-stone-700">Review the plan before debating</span>
+                <span className="block text-xs text-stone-500">
+                  Pauses after planning so you can rename or add options, edit constraints and re-weight axes.
+                </span>
+              </span>
+            </label>
+
+            <MaxOptionsSlider value={localMaxOptions} onChange={setLocalMaxOptions} />
+
+            <RoundsSlider value={localRounds} onChange={setLocalRounds} />
+          </div>
+
           {/* Performance Section */}
           <div className="space-y-4">
             <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
@@ -282,6 +994,71 @@ export const SettingsPanel = memo(function SettingsPanel({
               value={localParallelism}
               onChange={setLocalParallelism}
             />
+
+            <FailurePolicyPicker value={localFailurePolicy} onChange={setLocalFailurePolicy} />
+          </div>
+
+          {/* Budget Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Budget ]
+            </h3>
+            <p className="text-xs text-stone-500">
+              Limits for each comparison. Agents stop searching once they have spent their share and answer with the research they have. Once the budget runs out, the remaining agents and the referee skip searches entirely, and the verdict is marked as budget-limited.
+            </p>
+
+            <BudgetInputs value={localBudget} onChange={setLocalBudget} />
+          </div>
+
+          {/* Pricing Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+                [ Pricing ]
+              </h3>
+              <button
+                type="button"
+                onClick={() => {
+                  setLocalPriceRows(toPriceRows(DEFAULT_PRICE_TABLE));
+                  setLocalSearchPrices(DEFAULT_PRICE_TABLE.search);
+                }}
+                className="text-xs text-stone-400 hover:text-stone-600"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <p className="text-xs text-stone-500">
+              USD prices used to estimate what each comparison cost. Models without a price are left out of the estimate.
+            </p>
+
+            <PriceTableEditor
+              rows={localPriceRows}
+              searchPrices={localSearchPrices}
+              onRowsChange={setLocalPriceRows}
+              onSearchPricesChange={setLocalSearchPrices}
+            />
+          </div>
+
+          {/* Offline Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+              [ Offline Mode ]
+            </h3>
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={localMockMode}
+                onChange={(e) => setLocalMockMode(e.target.checked)}
+                className="mt-0.5 w-4 h-4 accent-amber-500"
+              />
+              <span className="space-y-1">
+                <span className="block text-sm font-medium text-stone-700">Use mock agents</span>
+                <span className="block text-xs text-stone-500">
+                  Runs the whole debate against a scripted model and recorded search results. No API keys needed.
+                </span>
+              </span>
+            </label>
           </div>
 
           {/* Info Box */}
@@ -310,9 +1087,9 @@ export const SettingsPanel = memo(function SettingsPanel({
           </button>
           <button
             onClick={handleSave}
-            disabled={!hasChanges}
+            disabled={!canSave}
             className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-              hasChanges
+              canSave
                 ? "bg-stone-900 text-white hover:bg-amber-700"
                 : "bg-stone-200 text-stone-400 cursor-not-allowed"
             }`}
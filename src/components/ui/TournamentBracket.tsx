@@ -0,0 +1,73 @@
+"use client";
+
+import React, { memo } from "react";
+import type { Tournament, TournamentMatch } from "@/lib/types";
+import { isFinalMatch, tournamentRounds } from "@/lib/debate/tournament";
+
+export interface TournamentBracketProps {
+  tournament: Tournament;
+}
+
+const MatchCard = memo(function MatchCard({ match, final }: { match: TournamentMatch; final: boolean }) {
+  const playing = !match.ranking;
+  // Unplayed matches keep plan order
+  const order = match.ranking ?? match.options;
+
+  return (
+    <div
+      className={`rounded-xl border p-3 space-y-1.5 ${
+        playing ? "border-amber-300 bg-amber-50/60 animate-pulse" : "border-stone-200 bg-white"
+      }`}
+    >
+      {order.map((option, index) => {
+        const winner = !playing && index === 0;
+        return (
+          <div key={option} className="flex items-center gap-2 text-sm">
+            <span className="w-6 text-xs font-mono text-stone-400">
+              {playing ? "·" : final ? `${index + 1}.` : winner ? "→" : ""}
+            </span>
+            <span
+              className={`truncate ${
+                winner ? "font-medium text-emerald-700" : playing ? "text-stone-700" : "text-stone-400"
+              }`}
+            >
+              {option}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+/**
+ * TournamentBracket Component
+ * Shows each round's group matches side by side, with the winners that advanced
+ */
+export const TournamentBracket = memo(function TournamentBracket({ tournament }: TournamentBracketProps) {
+  const rounds = tournamentRounds(tournament.matches);
+  if (rounds.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-4">
+      <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">Tournament</h4>
+      <div className="flex gap-4 overflow-x-auto">
+        {rounds.map((matches, index) => {
+          const final = matches.length === 1 && isFinalMatch(tournament.matches, matches[0]);
+          return (
+            <div key={index} className="min-w-40 flex-1 space-y-3 flex flex-col justify-around">
+              <p className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+                {final ? "Final" : `Round ${index + 1}`}
+              </p>
+              {matches.map((match) => (
+                <MatchCard key={match.id} match={match} final={final} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+export default TournamentBracket;
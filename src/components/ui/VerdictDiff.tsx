@@ -0,0 +1,140 @@
+"use client";
+
+import React, { memo, useMemo } from "react";
+import type { Constraint } from "@/lib/types";
+import { diffConstraints, diffVerdicts, formatConstraint, type JudgedVerdict, type ListDiff } from "@/lib/utils/diff";
+
+export interface VerdictDiffProps {
+  before: JudgedVerdict;
+  after: JudgedVerdict;
+  // Constraints of the earlier and later comparison, when they should be listed too
+  constraints?: { before: Constraint[]; after: Constraint[] };
+  title?: string;
+}
+
+const Delta = memo(function Delta({ before, after }: { before?: number; after?: number }) {
+  if (before === undefined || after === undefined) return null;
+  const delta = after - before;
+  if (Math.abs(delta) < 0.05) return <span className="text-stone-300">—</span>;
+  return (
+    <span className={delta > 0 ? "text-emerald-600" : "text-red-500"}>
+      {delta > 0 ? "+" : ""}
+      {delta.toFixed(1)}
+    </span>
+  );
+});
+
+export const ListChanges = memo(function ListChanges({ title, diff }: { title: string; diff: ListDiff<string> }) {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">{title}</h5>
+      <ul className="text-sm space-y-0.5">
+        {diff.removed.map((item) => (
+          <li key={`-${item}`} className="text-red-600 line-through decoration-red-300">
+            − {item}
+          </li>
+        ))}
+        {diff.added.map((item) => (
+          <li key={`+${item}`} className="text-emerald-700">
+            + {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+/**
+ * VerdictDiff Component
+ * Shows how a verdict moved: the recommendation, weighted totals, changed axis scores and caveats
+ */
+export const VerdictDiff = memo(function VerdictDiff({
+  before,
+  after,
+  constraints,
+  title = "What changed",
+}: VerdictDiffProps) {
+  const diff = useMemo(() => diffVerdicts(before, after), [before, after]);
+  const constraintChanges = useMemo(() => {
+    if (!constraints) return undefined;
+    const changes = diffConstraints(constraints.before, constraints.after);
+    return { added: changes.added.map(formatConstraint), removed: changes.removed.map(formatConstraint) };
+  }, [constraints]);
+  const { recommendation } = diff;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-5">
+      <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">{title}</h4>
+
+      {constraintChanges && <ListChanges title="Constraints" diff={constraintChanges} />}
+
+      {/* Recommendation */}
+      <div className="text-sm">
+        {recommendation.changed ? (
+          <p>
+            <span className="text-stone-400 line-through">{recommendation.before.option}</span>
+            <span className="mx-2 text-stone-400">→</span>
+            <span className="font-medium text-emerald-700">{recommendation.after.option}</span>
+            <span className="ml-2 text-xs text-stone-500">({recommendation.after.confidence} confidence)</span>
+          </p>
+        ) : (
+          <p className="text-stone-700">
+            <span className="font-medium">{recommendation.after.option}</span> is still recommended
+            {recommendation.before.confidence !== recommendation.after.confidence &&
+              `, now with ${recommendation.after.confidence} confidence (was ${recommendation.before.confidence})`}
+          </p>
+        )}
+      </div>
+
+      {/* Weighted totals */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs font-mono text-stone-500 uppercase tracking-widest">
+            <th className="text-left font-normal pb-1">Option</th>
+            <th className="text-right font-normal pb-1">Before</th>
+            <th className="text-right font-normal pb-1">After</th>
+            <th className="text-right font-normal pb-1 w-14">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.totals.map((total) => (
+            <tr key={total.option} className="border-t border-stone-100">
+              <td className="py-1 text-stone-800">{total.option}</td>
+              <td className="py-1 text-right font-mono text-stone-400">{total.before?.toFixed(1) ?? "–"}</td>
+              <td className="py-1 text-right font-mono text-stone-800">{total.after?.toFixed(1) ?? "–"}</td>
+              <td className="py-1 text-right font-mono text-xs">
+                <Delta before={total.before} after={total.after} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {diff.scores.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-mono text-stone-500 uppercase tracking-widest">Score changes</h5>
+          <ul className="text-sm space-y-0.5">
+            {diff.scores.map((change) => (
+              <li key={`${change.axis}:${change.option}`} className="flex items-center gap-2">
+                <span className="flex-1 text-stone-700">
+                  {change.option} · {change.axis}
+                </span>
+                <span className="font-mono text-stone-500">
+                  {change.before ?? "–"} → {change.after ?? "–"}
+                </span>
+                <span className="w-10 text-right font-mono text-xs">
+                  <Delta before={change.before} after={change.after} />
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ListChanges title="Caveats" diff={diff.caveats} />
+    </div>
+  );
+});
+
+export default VerdictDiff;
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { memo, useMemo, useState } from "react";
+import type { AxisScore, ComparisonAxis } from "@/lib/types";
+import { computeWeightedTotals, findWeightFlips, normalizeName, rankOptions } from "@/lib/utils/scoring";
+
+export interface WeightSensitivityProps {
+  scores: AxisScore[];
+  axes: ComparisonAxis[];
+  options: string[];
+}
+
+const RANK_LABELS = ["1st", "2nd", "3rd"];
+
+const RankChange = memo(function RankChange({ change }: { change: number }) {
+  if (change === 0) return <span className="w-8 text-xs font-mono text-stone-300">—</span>;
+  return (
+    <span className={`w-8 text-xs font-mono ${change > 0 ? "text-emerald-600" : "text-red-500"}`}>
+      {change > 0 ? "▲" : "▼"}
+      {Math.abs(change)}
+    </span>
+  );
+});
+
+/**
+ * WeightSensitivity Component
+ * Re-weights the verdict's axes locally and shows where the top pick would change
+ */
+export const WeightSensitivity = memo(function WeightSensitivity({
+  scores,
+  axes,
+  options,
+}: WeightSensitivityProps) {
+  // Only axes the referee actually scored can move the ranking
+  const scoredAxes = useMemo(
+    () => axes.filter((axis) => scores.some((s) => normalizeName(s.axis) === normalizeName(axis.name))),
+    [axes, scores]
+  );
+  const [weights, setWeights] = useState<Record<string, number>>(() =>
+    Object.fromEntries(scoredAxes.map((axis) => [axis.name, axis.weight]))
+  );
+
+  const adjusted = useMemo(
+    () => scoredAxes.map((axis) => ({ ...axis, weight: weights[axis.name] ?? axis.weight })),
+    [scoredAxes, weights]
+  );
+  const original = useMemo(
+    () => rankOptions(computeWeightedTotals(scores, scoredAxes, options)),
+    [scores, scoredAxes, options]
+  );
+  const totals = useMemo(() => computeWeightedTotals(scores, adjusted, options), [scores, adjusted, options]);
+  const ranking = rankOptions(totals);
+  const flips = useMemo(() => findWeightFlips(scores, adjusted, options), [scores, adjusted, options]);
+  const changed = scoredAxes.some((axis) => weights[axis.name] !== axis.weight);
+
+  if (scoredAxes.length === 0 || options.length < 2) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 shadow-sm p-5 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-mono text-sm text-amber-600 uppercase tracking-wider">What if the weights differ?</h4>
+          <p className="text-xs text-stone-500 mt-1">
+            Drag a weight to re-rank the options with the referee&apos;s scores.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setWeights(Object.fromEntries(scoredAxes.map((axis) => [axis.name, axis.weight])))}
+          disabled={!changed}
+          className="text-xs font-mono text-amber-700 hover:text-amber-800 disabled:text-stone-300"
+        >
+          Reset
+        </button>
+      </div>
+
+      {/* Ranking */}
+      <ol className="space-y-1.5">
+        {ranking.map((option, index) => (
+          <li
+            key={option}
+            className={`flex items-center gap-3 px-3 py-2 rounded-lg ${index === 0 ? "bg-amber-50 border border-amber-200" : "bg-stone-50"}`}
+          >
+            <span className="w-8 text-sm font-mono text-stone-500">{RANK_LABELS[index] ?? `#${index + 1}`}</span>
+            <span className="flex-1 text-sm font-medium text-stone-800">{option}</span>
+            <RankChange change={original.indexOf(option) - index} />
+            <span className="w-12 text-right font-mono font-bold text-stone-700">{totals[option].toFixed(2)}</span>
+          </li>
+        ))}
+      </ol>
+      {ranking[0] !== original[0] && (
+        <p className="text-xs text-amber-700">
+          With these weights <strong>{ranking[0]}</strong> overtakes {original[0]}.
+        </p>
+      )}
+
+      {/* Sliders */}
+      <div className="space-y-4">
+        {adjusted.map((axis) => {
+          const axisFlips = flips.filter((flip) => flip.axis === axis.name);
+          return (
+            <div key={axis.name} className="space-y-1">
+              <label className="flex items-center gap-3 text-sm text-stone-700">
+                <span className="w-40 truncate" title={axis.description}>
+                  {axis.name}
+                </span>
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  value={axis.weight}
+                  onChange={(e) => setWeights((prev) => ({ ...prev, [axis.name]: Number(e.target.value) }))}
+                  className="flex-1 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                />
+                <span className="w-6 text-right font-mono text-amber-600">{axis.weight}</span>
+              </label>
+              <p className="pl-43 text-xs font-mono text-stone-400">
+                {axisFlips.length > 0
+                  ? axisFlips.map((flip) => `${flip.leader} leads at ${flip.weight}`).join(" · ")
+                  : `${ranking[0]} leads at any weight`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+export default WeightSensitivity;
@@ -8,6 +8,15 @@ export { PollComponent } from "./PollComponent";
 export { ComparisonChat } from "./ComparisonChat";
 export { SettingsPanel } from "./SettingsPanel";
 export { SessionHistory } from "./SessionHistory";
+export { DisputeLedger } from "./DisputeLedger";
+export { BenchmarkPanel } from "./BenchmarkPanel";
+export { PlanEditor } from "./PlanEditor";
+export { WeightSensitivity } from "./WeightSensitivity";
+export { TournamentBracket } from "./TournamentBracket";
+export { ForkEditor } from "./ForkEditor";
+export { VerdictDiff } from "./VerdictDiff";
+export { SessionComparison } from "./SessionComparison";
+export { ReportExport } from "./ReportExport";
 
 export type { ComparisonTableProps } from "./ComparisonTable";
 export type { ScoreChartProps } from "./ScoreChart";
@@ -15,3 +24,12 @@ export type { PollComponentProps } from "./PollComponent";
 export type { ComparisonChatProps, ChatPhase } from "./ComparisonChat";
 export type { SettingsPanelProps } from "./SettingsPanel";
 export type { SessionHistoryProps } from "./SessionHistory";
+export type { DisputeLedgerProps } from "./DisputeLedger";
+export type { BenchmarkPanelProps } from "./BenchmarkPanel";
+export type { PlanEditorProps } from "./PlanEditor";
+export type { WeightSensitivityProps } from "./WeightSensitivity";
+export type { TournamentBracketProps } from "./TournamentBracket";
+export type { ForkEditorProps } from "./ForkEditor";
+export type { VerdictDiffProps } from "./VerdictDiff";
+export type { SessionComparisonProps } from "./SessionComparison";
+export type { ReportExportProps, ReportFormat } from "./ReportExport";
@@ -0,0 +1,180 @@
+/**
+ * Benchmark Tests
+ * Batch runs against the mock model and CSV/JSON export
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  benchmarkToCsv,
+  createLocalAgentCaller,
+  parseBenchmarkSuite,
+  runBenchmark,
+  runDebate,
+  BENCHMARK_CSV_COLUMNS,
+  type BenchmarkRow,
+} from "../debate";
+import { DEFAULT_PRICE_TABLE, type AgentCallUsage, type DebateEvent } from "../types";
+import { estimateCallCost, summarizeUsage } from "../utils";
+
+const SUITE = {
+  name: "frameworks",
+  cases: [
+    { id: "dashboard", query: "Compare React vs Vue for a dashboard" },
+    { query: "Postgres vs MongoDB for orders", clarifications: { scale: "small" } },
+    { id: "edge", query: "Compare Svelte vs Angular" },
+  ],
+};
+
+describe("Agent usage", () => {
+  it("reports usage for every agent call", async () => {
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: SUITE.cases[0].query,
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+      onEvent: (event) => events.push(event),
+    });
+
+    // planner + 2 advocates + 2 cross-examiners + referee
+    expect(debate.usage.map((call) => call.role)).toEqual([
+      "planner",
+      "advocate",
+      "advocate",
+      "cross-examiner",
+      "cross-examiner",
+      "referee",
+    ]);
+    expect(debate.usage.every((call) => call.usage.totalTokens > 0)).toBe(true);
+    expect(debate.usage.every((call) => call.model === "mock:debate" && !call.searchProvider)).toBe(true);
+    const advocate = debate.usage.find((call) => call.role === "advocate")!;
+    expect(advocate.usage.searchCalls).toBeGreaterThan(0);
+    expect(advocate.usage.toolCalls).toBeGreaterThanOrEqual(advocate.usage.searchCalls);
+    expect(events.filter((e) => e.type === "usage")).toHaveLength(debate.usage.length);
+  });
+});
+
+describe("Usage cost", () => {
+  const call = (model: string | undefined, searchCalls = 0): AgentCallUsage => ({
+    role: "advocate",
+    model,
+    searchProvider: "exa",
+    usage: { inputTokens: 1_000_000, outputTokens: 100_000, totalTokens: 1_100_000, toolCalls: searchCalls, searchCalls },
+  });
+
+  it("prices tokens per million and searches per request", () => {
+    // 1M input at $0.50 + 100k output at $3 + 2 Exa searches at $0.005
+    expect(estimateCallCost(call("gemini-3-flash-preview", 2), DEFAULT_PRICE_TABLE)).toBeCloseTo(0.81);
+    expect(estimateCallCost(call("local:llama3.1"), DEFAULT_PRICE_TABLE)).toBe(0);
+    expect(estimateCallCost(call("openai:unknown-model"), DEFAULT_PRICE_TABLE)).toBeUndefined();
+  });
+
+  it("totals usage and reports models without a price", () => {
+    const summary = summarizeUsage(
+      [call("gemini-3-flash-preview"), call("openai:unknown-model"), call(undefined)],
+      DEFAULT_PRICE_TABLE
+    );
+    expect(summary.usage.totalTokens).toBe(3_300_000);
+    expect(summary.cost).toBeCloseTo(0.8);
+    expect(summary.unpricedModels).toEqual(["openai:unknown-model", "unknown"]);
+  });
+});
+
+describe("runBenchmark", () => {
+  it("runs every case with bounded concurrency and keeps suite order", async () => {
+    let running = 0;
+    let peak = 0;
+    const local = createLocalAgentCaller();
+    const completed: number[] = [];
+
+    const rows = await runBenchmark({
+      suite: parseBenchmarkSuite(SUITE).data!,
+      concurrency: 2,
+      credentials: { mock: true },
+      callAgent: local,
+      onCaseStart: () => {
+        running++;
+        peak = Math.max(peak, running);
+      },
+      onCaseComplete: (_, index) => {
+        running--;
+        completed.push(index);
+      },
+    });
+
+    expect(peak).toBe(2);
+    expect(completed.sort()).toEqual([0, 1, 2]);
+    expect(rows.map((r) => r.caseId)).toEqual(["dashboard", "case-2", "edge"]);
+    for (const row of rows) {
+      expect(row.status).toBe("complete");
+      expect(row.options).toContain(row.recommendation!);
+      expect(row.scores.length).toBeGreaterThan(0);
+      expect(row.usage.totalTokens).toBeGreaterThan(0);
+      expect(row.latencyMs).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("records planner failures on the row", async () => {
+    const rows = await runBenchmark({
+      suite: { cases: [{ query: "anything" }] },
+      callAgent: async () => Response.json({ error: "down", code: "AGENT_FAILED", retryable: true }, { status: 500 }),
+    });
+
+    expect(rows[0].status).toBe("error");
+    expect(rows[0].error).toBe("down");
+    expect(rows[0].recommendation).toBeUndefined();
+  });
+});
+
+describe("parseBenchmarkSuite", () => {
+  it("accepts a bare array of cases", () => {
+    const parsed = parseBenchmarkSuite([{ query: "A vs B" }]);
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.cases).toHaveLength(1);
+  });
+
+  it("rejects empty suites and cases without a query", () => {
+    expect(parseBenchmarkSuite({ cases: [] }).success).toBe(false);
+    expect(parseBenchmarkSuite([{ id: "x" }]).success).toBe(false);
+  });
+});
+
+describe("benchmarkToCsv", () => {
+  const row: BenchmarkRow = {
+    caseId: "q1",
+    query: 'Postgres vs "Dynamo", at scale',
+    status: "complete",
+    recommendation: "Postgres",
+    confidence: "high",
+    options: ["Postgres", "Dynamo"],
+    scores: [{ axis: "Cost", scores: { Postgres: 8, Dynamo: 6 } }],
+    weightedTotals: { Postgres: 8, Dynamo: 6 },
+    latencyMs: 1234,
+    usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150, toolCalls: 4, searchCalls: 3 },
+  };
+
+  it("writes a header and one escaped line per row", () => {
+    const [header, line, ...rest] = benchmarkToCsv([row]).trimEnd().split("\n");
+
+    expect(header).toBe(BENCHMARK_CSV_COLUMNS.join(","));
+    expect(rest).toEqual([]);
+    expect(line).toBe(
+      'q1,"Postgres vs ""Dynamo"", at scale",complete,Postgres,high,Postgres=8 Dynamo=6,Cost: Postgres=8 Dynamo=6,1234,100,50,150,3,,,,'
+    );
+  });
+
+  it("adds golden-answer results when the case was evaluated", () => {
+    const evaluated: BenchmarkRow = {
+      ...row,
+      evaluation: {
+        caseId: "q1",
+        query: row.query,
+        passed: false,
+        checks: [
+          { name: "recommends Postgres", passed: true },
+          { name: "caveat mentions \"cost\"", passed: false },
+        ],
+      },
+    };
+    const line = benchmarkToCsv([evaluated]).trimEnd().split("\n")[1];
+    expect(line.endsWith(',fail,1/2,"caveat mentions ""cost""",')).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for Cross-Examination Challenge Normalization
+ */
+import { describe, expect, it } from "bun:test";
+import { normalizeChallenges } from "../ai/challenges";
+import type { Source } from "../types";
+
+const retrieved: Source[] = [
+  { title: "Vue Benchmarks", url: "https://example.com/vue-bench", snippet: "Vue renders..." },
+];
+
+describe("normalizeChallenges", () => {
+  it("keeps challenges against opponents and attaches retrieved sources", () => {
+    const challenges = normalizeChallenges(
+      {
+        challenges: [
+          {
+            targetOption: "vue",
+            claim: "Vue is 2x faster",
+            critique: "Benchmarks show parity",
+            factCheck: {
+              verdict: "disputed",
+              evidence: "Independent benchmarks show similar render times",
+              sourceUrls: ["https://example.com/vue-bench", "https://made-up.example.com"],
+            },
+          },
+          { targetOption: "React", claim: "Own option", critique: "Should be dropped" },
+        ],
+      },
+      ["Vue"],
+      retrieved
+    );
+
+    expect(challenges).toEqual([
+      {
+        targetOption: "Vue",
+        claim: "Vue is 2x faster",
+        critique: "Benchmarks show parity",
+        factCheck: {
+          claim: "Vue is 2x faster",
+          verdict: "disputed",
+          evidence: "Independent benchmarks show similar render times",
+          sources: retrieved,
+        },
+      },
+    ]);
+  });
+
+  it("downgrades verdicts without backing sources to unverifiable", () => {
+    const [challenge] = normalizeChallenges(
+      {
+        challenges: [
+          {
+            targetOption: "Vue",
+            claim: "Vue has no enterprise users",
+            critique: "Unsupported",
+            factCheck: { verdict: "confirmed", evidence: "Trust me", sourceUrls: [] },
+          },
+        ],
+      },
+      ["Vue"],
+      retrieved
+    );
+
+    expect(challenge.factCheck?.verdict).toBe("unverifiable");
+    expect(challenge.factCheck?.sources).toEqual([]);
+  });
+});
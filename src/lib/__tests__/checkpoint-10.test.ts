@@ -73,6 +73,17 @@ describe("API Routes - Request Validation", () => {
       expect(data.code).toBe("INVALID_REQUEST");
     });
 
+    it("should reject models outside the allow-list", async () => {
+      const { POST } = await import("@/app/api/planner/route");
+      const req = createTestRequest({ query: "Compare React vs Vue", model: "gpt-unknown" });
+      const response = await POST(req);
+      
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe("INVALID_REQUEST");
+      expect(data.details).toContain("model");
+    });
+
     it("should return API_KEY_MISSING when no API key provided", async () => {
       // Temporarily clear env var
       const originalKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
@@ -91,6 +102,27 @@ describe("API Routes - Request Validation", () => {
       expect(data.retryable).toBe(false);
     });
 
+    it("should name the provider whose API key is missing", async () => {
+      const originalKey = process.env.OPENAI_API_KEY;
+      delete process.env.OPENAI_API_KEY;
+
+      const { POST } = await import("@/app/api/planner/route");
+      const req = createTestRequest({
+        query: "Compare React vs Vue",
+        apiKey: "test-key",
+        model: "openai:gpt-4o",
+      });
+      const response = await POST(req);
+
+      if (originalKey) process.env.OPENAI_API_KEY = originalKey;
+
+      expect(response.status).toBe(401);
+      const data = await response.json();
+      expect(data.code).toBe("API_KEY_MISSING");
+      expect(data.error).toContain("OpenAI");
+      expect(data.details).toContain("openai:gpt-4o");
+    });
+
     it("should accept valid request with query", async () => {
       const { POST } = await import("@/app/api/planner/route");
       const req = createTestRequest({ 
@@ -318,10 +350,10 @@ describe("Schema Validation", () => {
     expect(result.success).toBe(true);
   });
 
-  it("should reject ComparisonPlan with more than 3 options", () => {
+  it("should reject ComparisonPlan with more than 8 options", () => {
     const invalidPlan = {
       ...validComparisonPlan,
-      options: ["React", "Vue", "Angular", "Svelte"],
+      options: ["React", "Vue", "Angular", "Svelte", "Solid", "Qwik", "Preact", "Lit", "Ember"],
     };
     const result = ComparisonPlanSchema.safeParse(invalidPlan);
     expect(result.success).toBe(false);
@@ -140,13 +140,13 @@ describe("Complete Comparison Flow", () => {
       expect(refereeInput.arguments.length).toBe(refereeInput.crossExaminations.length);
     });
 
-    it("should enforce max 3 options constraint throughout flow", () => {
-      const planWith4Options = {
+    it("should enforce max 8 options constraint throughout flow", () => {
+      const planWith9Options = {
         ...validComparisonPlan,
-        options: ["React", "Vue", "Angular", "Svelte"],
+        options: ["React", "Vue", "Angular", "Svelte", "Solid", "Qwik", "Preact", "Lit", "Ember"],
       };
 
-      const result = ComparisonPlanSchema.safeParse(planWith4Options);
+      const result = ComparisonPlanSchema.safeParse(planWith9Options);
       expect(result.success).toBe(false);
     });
 
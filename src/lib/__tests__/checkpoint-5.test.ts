@@ -70,6 +70,72 @@ describe("Settings Store", () => {
     useSettingsStore.getState().setGeminiApiKey("");
     useSettingsStore.getState().setExaApiKey("");
   });
+
+  it("should only require an Exa key when Exa is the search backend", async () => {
+    const { useSettingsStore } = await import("@/lib/stores/settings");
+
+    useSettingsStore.getState().setGeminiApiKey("test-key");
+    useSettingsStore.getState().setSearchSettings({ provider: "local" });
+    expect(useSettingsStore.getState().hasRequiredKeys()).toBe(true);
+
+    useSettingsStore.getState().setSearchSettings({ provider: "searxng", baseURL: "http://localhost:8888" });
+    expect(useSettingsStore.getState().hasRequiredKeys()).toBe(true);
+
+    if (!process.env.SEARXNG_URL) {
+      useSettingsStore.getState().setSearchSettings({ provider: "searxng" });
+      expect(useSettingsStore.getState().hasRequiredKeys()).toBe(false);
+    }
+
+    // Reset
+    useSettingsStore.getState().setSearchSettings({ provider: "exa" });
+    useSettingsStore.getState().setGeminiApiKey("");
+  });
+
+  it("should resolve per-role agent settings over the default model", async () => {
+    const { useSettingsStore } = await import("@/lib/stores/settings");
+    const { DEFAULT_AGENT_MODELS } = await import("@/lib/types");
+
+    useSettingsStore.getState().setAgentModelConfig("referee", {
+      model: "gemini-2.5-pro-preview-05-06",
+      temperature: 0.2,
+    });
+
+    expect(useSettingsStore.getState().getAgentRequestConfig("referee")).toEqual({
+      model: "gemini-2.5-pro-preview-05-06",
+      generation: { temperature: 0.2, maxSteps: 8 },
+    });
+    expect(useSettingsStore.getState().getAgentRequestConfig("advocate")).toEqual({
+      model: "gemini-3-flash-preview",
+      generation: { maxSteps: 10 },
+    });
+
+    // Reset
+    useSettingsStore.getState().setAgentModels(DEFAULT_AGENT_MODELS);
+  });
+
+  it("should persist only the prices the user changed", async () => {
+    const { useSettingsStore, migrateSettings } = await import("@/lib/stores/settings");
+    const { DEFAULT_PRICE_TABLE } = await import("@/lib/types");
+
+    useSettingsStore.getState().setPrices({
+      models: { ...DEFAULT_PRICE_TABLE.models, "openai:gpt-4o": { input: 2, output: 8 } },
+      search: { ...DEFAULT_PRICE_TABLE.search, exa: 0.01 },
+    });
+    expect(useSettingsStore.getState().priceOverrides).toEqual({
+      models: { "openai:gpt-4o": { input: 2, output: 8 } },
+      search: { exa: 0.01 },
+    });
+    expect(useSettingsStore.getState().prices.models["gemini-3-flash-preview"]).toEqual(
+      DEFAULT_PRICE_TABLE.models["gemini-3-flash-preview"]
+    );
+
+    // Settings saved before overrides kept the whole table
+    const migrated = migrateSettings({ prices: { ...DEFAULT_PRICE_TABLE, search: { ...DEFAULT_PRICE_TABLE.search, exa: 0.02 } } }, 0);
+    expect(migrated).toEqual({ priceOverrides: { models: {}, search: { exa: 0.02 } } });
+
+    // Reset
+    useSettingsStore.getState().setPrices(DEFAULT_PRICE_TABLE);
+  });
 });
 
 // Test Session Store
@@ -150,6 +216,52 @@ describe("AI Provider", () => {
     const model = getModel("test-api-key");
     expect(model).toBeDefined();
   });
+
+  it("should resolve prefixed model ids to OpenAI-compatible providers", async () => {
+    const { getModel, findMissingProviderKey } = await import("@/lib/ai/provider");
+    const { parseModelId } = await import("@/lib/utils/model-id");
+
+    expect(parseModelId("gemini-3-flash-preview")).toEqual({ provider: "google", model: "gemini-3-flash-preview" });
+    expect(parseModelId("local:llama3.1:8b")).toEqual({ provider: "local", model: "llama3.1:8b" });
+
+    const model = getModel({ local: { baseURL: "http://localhost:8080/v1" } }, "local:llama3.1");
+    expect(typeof model === "object" && model.provider).toBe("local.chat");
+
+    // Local servers run without a key; OpenAI needs one
+    expect(findMissingProviderKey("local:llama3.1", {})).toBeUndefined();
+    expect(findMissingProviderKey("openai:gpt-4o", { openai: { apiKey: "sk-test" } })).toBeUndefined();
+    if (!process.env.OPENAI_API_KEY) {
+      expect(findMissingProviderKey("openai:gpt-4o", {})).toBe("OpenAI");
+    }
+  });
+
+  it("should not send the server's key to a base URL from the request", async () => {
+    const { PROVIDERS, findMissingProviderKey } = await import("@/lib/ai/provider");
+    const saved = { openai: process.env.OPENAI_API_KEY, local: process.env.LOCAL_LLM_API_KEY };
+    process.env.OPENAI_API_KEY = "sk-server";
+    process.env.LOCAL_LLM_API_KEY = "local-server";
+
+    try {
+      expect(PROVIDERS.openai.resolveConnection({}).apiKey).toBe("sk-server");
+      expect(PROVIDERS.openai.resolveConnection({ baseURL: "https://attacker.example/v1" })).toEqual({
+        apiKey: undefined,
+        baseURL: "https://attacker.example/v1",
+      });
+      expect(PROVIDERS.local.resolveConnection({ baseURL: "https://attacker.example/v1" }).apiKey).toBeUndefined();
+      expect(findMissingProviderKey("openai:gpt-4o", { openai: { baseURL: "https://attacker.example/v1" } })).toBe(
+        "OpenAI"
+      );
+      // A request with its own base URL and key uses both
+      expect(PROVIDERS.openai.resolveConnection({ baseURL: "https://proxy.example/v1", apiKey: "sk-own" }).apiKey).toBe(
+        "sk-own"
+      );
+    } finally {
+      for (const [name, value] of [["OPENAI_API_KEY", saved.openai], ["LOCAL_LLM_API_KEY", saved.local]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
 });
 
 // Test Exa Search Tool
@@ -227,7 +339,7 @@ describe("Zod Schemas", () => {
     const { ComparisonPlanSchema } = await import("@/lib/types/schemas");
 
     const invalidPlan = {
-      options: ["React", "Vue", "Angular", "Svelte"], // More than 3 options
+      options: ["React", "Vue", "Angular", "Svelte", "Solid", "Qwik", "Preact", "Lit", "Ember"], // More than 8 options
       constraints: [],
       axes: [],
       assignments: [],
@@ -0,0 +1,855 @@
+/**
+ * Debate Orchestrator Tests
+ * Runs whole debates server-side against the mock model
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  createDebateSession,
+  createLocalAgentCaller,
+  findResumePoint,
+  forkResume,
+  groupOptions,
+  runDebate,
+  type AgentCaller,
+} from "../debate";
+import { readAgentStream } from "../utils/agent-stream";
+import { renderCustomKeys, sessionToHtml, sessionToMarkdown } from "../utils/session-report";
+import { createAgentError, errorResponse } from "../utils/errors";
+import { EMPTY_USAGE, isBudgetExhausted, shareBudget } from "../utils/usage";
+import { validateReviewedPlan } from "../utils/plan";
+import { diffConstraints, diffSessions, diffVerdicts } from "../utils/diff";
+import { APPROVAL, ComparisonSessionSchema, DebateEventSchema, RefereeResponseSchema, type DebateEvent } from "../types";
+
+const QUERY = "Compare React vs Vue for a dashboard";
+
+function phases(events: DebateEvent[]) {
+  return events.flatMap((e) => (e.type === "phase" ? [e.phase] : []));
+}
+
+describe("runDebate", () => {
+  it("drives every agent and streams typed phase events", async () => {
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(phases(events)).toEqual(["planning", "advocating", "cross-examining", "refereeing", "complete"]);
+    expect(debate.arguments.map((a) => a.option)).toEqual(["React", "Vue"]);
+    expect(debate.crossExaminations).toHaveLength(2);
+    expect(debate.plan?.options).toContain(debate.result?.recommendation.option);
+
+    // Streamed deltas add up to the final argument
+    const reactText = events
+      .filter((e) => e.type === "agent-text" && e.role === "advocate" && e.option === "React")
+      .map((e) => (e.type === "agent-text" ? e.delta : ""))
+      .join("");
+    expect(reactText).toBe(debate.arguments[0].argument);
+  });
+
+  it("records a failed advocate and carries on", async () => {
+    const local = createLocalAgentCaller();
+    const callAgent: AgentCaller = (endpoint, body) =>
+      endpoint === "advocate" && body.option === "Vue"
+        ? Promise.resolve(errorResponse(createAgentError("advocate crashed")))
+        : local(endpoint, body);
+
+    const debate = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent });
+
+    expect(debate.status).toBe("complete");
+    expect(debate.arguments[1].error).toContain("advocate crashed");
+    expect(debate.result).toBeDefined();
+  });
+
+  it("stops with an error event when the planner fails", async () => {
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      callAgent: async () => errorResponse(createAgentError("planner down")),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("error");
+    expect(debate.error?.code).toBe("AGENT_FAILED");
+    expect(phases(events)).toEqual(["planning", "error"]);
+  });
+});
+
+describe("runDebate budget", () => {
+  it("stops searching once the budget is spent and says so in the verdict", async () => {
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      budget: { maxTokens: 1 },
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(debate.crossExaminations).toHaveLength(2);
+    // Only the planner's first step searched before its share ran out
+    expect(debate.usage.filter((call) => call.usage.searchCalls > 0).map((call) => call.role)).toEqual(["planner"]);
+    expect(debate.budgetNotes).toEqual([
+      "Planner research was cut short",
+      "Research for React was cut short",
+      "Research for Vue was cut short",
+      "Fact-checking by the React cross-examiner was cut short",
+      "Fact-checking by the Vue cross-examiner was cut short",
+      "Referee fact-check searches were skipped",
+    ]);
+    expect(events.filter((e) => e.type === "budget")).toHaveLength(debate.budgetNotes.length);
+    expect(debate.result?.caveats[0]).toStartWith("Budget-limited: Planner research was cut short;");
+  });
+
+  it("shares what is left of each limit", () => {
+    const spent = { usage: { ...EMPTY_USAGE, totalTokens: 4000, searchCalls: 3 }, cost: 0.25 };
+    const budget = { maxTokens: 10_000, maxCostUsd: 1, maxSearchCalls: 4 };
+
+    expect(shareBudget(budget, spent, 0.5)).toEqual({ maxTokens: 3000, maxCostUsd: 0.375, maxSearchCalls: 0 });
+    expect(isBudgetExhausted(budget, spent)).toBe(false);
+    expect(isBudgetExhausted({ maxSearchCalls: 3 }, spent)).toBe(true);
+  });
+
+  it("leaves a debate within budget untouched", async () => {
+    const debate = await runDebate({
+      query: QUERY,
+      budget: { maxTokens: 10_000_000, maxSearchCalls: 100 },
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+    });
+
+    expect(debate.budgetNotes).toEqual([]);
+    expect(debate.crossExaminations).toHaveLength(2);
+    expect(debate.result?.caveats.some((c) => c.startsWith("Budget-limited"))).toBe(false);
+  });
+});
+
+describe("runDebate resume", () => {
+  // Records which agents a debate called, by endpoint and option
+  function recordingCaller(
+    calls: string[],
+    fail?: (endpoint: string, option: unknown, body: Record<string, unknown>) => boolean
+  ): AgentCaller {
+    const local = createLocalAgentCaller();
+    return (endpoint, body) => {
+      calls.push(body.option ? `${endpoint}:${body.option}` : endpoint);
+      return fail?.(endpoint, body.option, body)
+        ? Promise.resolve(errorResponse(createAgentError(`${endpoint} down`)))
+        : local(endpoint, body);
+    };
+  }
+
+  it("reruns only the failed advocate, then every cross-examiner and the referee", async () => {
+    const failed = await runDebate({
+      query: QUERY,
+      credentials: { mock: true },
+      callAgent: recordingCaller(
+        [],
+        (endpoint, option) => endpoint === "referee" || (endpoint === "advocate" && option === "Vue")
+      ),
+    });
+    const point = findResumePoint(createDebateSession(QUERY, failed));
+    expect(point).toMatchObject({ phase: "advocating", options: ["Vue"] });
+
+    const calls: string[] = [];
+    const events: DebateEvent[] = [];
+    const resumed = await runDebate({
+      query: QUERY,
+      resume: point!.resume,
+      credentials: { mock: true },
+      callAgent: recordingCaller(calls),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(resumed.status).toBe("complete");
+    expect(calls).toEqual(["advocate:Vue", "cross-examine:React", "cross-examine:Vue", "referee"]);
+    expect(phases(events)).toEqual(["advocating", "cross-examining", "refereeing", "complete"]);
+    expect(resumed.arguments.map((a) => [a.option, !!a.error])).toEqual([["React", false], ["Vue", false]]);
+    expect(resumed.arguments[0]).toBe(failed.arguments[0]);
+  });
+
+  it("keeps finished cross-examinations when only one of them failed", async () => {
+    const failed = await runDebate({
+      query: QUERY,
+      credentials: { mock: true },
+      callAgent: recordingCaller(
+        [],
+        (endpoint, option) => endpoint === "referee" || (endpoint === "cross-examine" && option === "React")
+      ),
+    });
+    const point = findResumePoint(createDebateSession(QUERY, failed));
+    expect(point).toMatchObject({ phase: "cross-examining", options: ["React"] });
+
+    const calls: string[] = [];
+    const resumed = await runDebate({
+      query: QUERY,
+      resume: point!.resume,
+      credentials: { mock: true },
+      callAgent: recordingCaller(calls),
+    });
+
+    expect(calls).toEqual(["cross-examine:React", "referee"]);
+    expect(resumed.crossExaminations.map((c) => c.option)).toEqual(["React", "Vue"]);
+    expect(resumed.crossExaminations[1]).toBe(failed.crossExaminations[1]);
+  });
+
+  it("retries just the picked option when several failed", async () => {
+    const failed = await runDebate({
+      query: QUERY,
+      credentials: { mock: true },
+      callAgent: recordingCaller([], (endpoint) => endpoint === "advocate"),
+    });
+
+    const calls: string[] = [];
+    const retried = await runDebate({
+      query: QUERY,
+      resume: { plan: failed.plan!, arguments: failed.arguments, retryOptions: ["Vue"] },
+      credentials: { mock: true },
+      callAgent: recordingCaller(calls),
+    });
+
+    expect(calls.filter((c) => c.startsWith("advocate"))).toEqual(["advocate:Vue"]);
+    expect(retried.arguments.map((a) => [a.option, !!a.error])).toEqual([["React", true], ["Vue", false]]);
+  });
+
+  it("keeps the saved rebuttal rounds when only the referee failed", async () => {
+    const failed = await runDebate({
+      query: QUERY,
+      rounds: 2,
+      credentials: { mock: true },
+      callAgent: recordingCaller([], (endpoint) => endpoint === "referee"),
+    });
+    const session = createDebateSession(QUERY, failed);
+    const point = findResumePoint(session);
+    expect(point).toMatchObject({ phase: "refereeing", options: [] });
+    expect(point!.resume.rounds).toEqual(failed.rounds);
+
+    const calls: string[] = [];
+    const resumed = await runDebate({
+      query: QUERY,
+      resume: point!.resume,
+      rounds: (session.rounds?.length ?? 0) + 1,
+      credentials: { mock: true },
+      callAgent: recordingCaller(calls),
+    });
+
+    expect(resumed.status).toBe("complete");
+    expect(calls).toEqual(["referee"]);
+    expect(resumed.rounds).toEqual(failed.rounds);
+  });
+
+  it("replays the rebuttal rounds a debate stopped in before the verdict", async () => {
+    const failed = await runDebate({
+      query: QUERY,
+      rounds: 3,
+      failurePolicy: { action: "abort" },
+      credentials: { mock: true },
+      callAgent: recordingCaller(
+        [],
+        (endpoint, option, body) =>
+          endpoint === "advocate" && option === "Vue" && (body.rebuttal as { round: number } | undefined)?.round === 3
+      ),
+    });
+    expect(failed.status).toBe("error");
+    expect(failed.rounds.map((r) => r.round)).toEqual([2]);
+
+    const session = createDebateSession(QUERY, failed, { rounds: 3 });
+    const point = findResumePoint(session);
+    expect(point).toMatchObject({ phase: "rebutting", options: ["React", "Vue"], rounds: 3 });
+
+    const calls: string[] = [];
+    const resumed = await runDebate({
+      query: QUERY,
+      resume: point!.resume,
+      rounds: point!.rounds,
+      credentials: { mock: true },
+      callAgent: recordingCaller(calls),
+    });
+
+    expect(resumed.status).toBe("complete");
+    expect(calls).toEqual([
+      "advocate:React",
+      "advocate:Vue",
+      "cross-examine:React",
+      "cross-examine:Vue",
+      "referee",
+    ]);
+    expect(resumed.rounds.map((r) => r.round)).toEqual([2, 3]);
+    expect(resumed.rounds[0]).toEqual(failed.rounds[0]);
+  });
+
+  it("only offers to resume failed sessions with a plan", () => {
+    expect(findResumePoint({ status: "error" })).toBeUndefined();
+    const plan = { options: ["A"], constraints: [], axes: [], assignments: [] };
+    expect(findResumePoint({ status: "complete", plan })).toBeUndefined();
+  });
+});
+
+describe("runDebate failure policy", () => {
+  // Fails the Vue advocate for its first `failures` attempts
+  function flakyVueAdvocate(failures: number, calls: string[] = []): AgentCaller {
+    const local = createLocalAgentCaller();
+    return (endpoint, body) => {
+      calls.push(body.option ? `${endpoint}:${body.option}` : endpoint);
+      if (endpoint === "advocate" && body.option === "Vue" && failures-- > 0) {
+        return Promise.resolve(errorResponse(createAgentError("search timed out")));
+      }
+      return local(endpoint, body);
+    };
+  }
+
+  it("retries a failed advocate before carrying on", async () => {
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      failurePolicy: { action: "retry", attempts: 2 },
+      credentials: { mock: true },
+      callAgent: flakyVueAdvocate(1),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.arguments.every((a) => !a.error)).toBe(true);
+    expect(events.filter((e) => e.type === "retry")).toEqual([
+      { type: "retry", role: "advocate", option: "Vue", attempt: 2, error: "search timed out" },
+    ]);
+  });
+
+  it("records the failure once the retries run out", async () => {
+    const calls: string[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      failurePolicy: { action: "retry", attempts: 1 },
+      credentials: { mock: true },
+      callAgent: flakyVueAdvocate(5, calls),
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(calls.filter((c) => c === "advocate:Vue")).toHaveLength(2);
+    expect(debate.arguments[1].error).toContain("search timed out");
+  });
+
+  it("aborts at the first failed advocate and leaves a resumable session", async () => {
+    const calls: string[] = [];
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      failurePolicy: { action: "abort" },
+      credentials: { mock: true },
+      callAgent: flakyVueAdvocate(1, calls),
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("error");
+    expect(debate.error?.details).toBe("Research for Vue failed: search timed out");
+    expect(calls.some((c) => c.startsWith("cross-examine"))).toBe(false);
+    expect(phases(events)).toEqual(["planning", "advocating", "error"]);
+    expect(findResumePoint(createDebateSession(QUERY, debate))).toMatchObject({
+      phase: "advocating",
+      options: ["Vue"],
+    });
+  });
+});
+
+describe("runDebate plan review", () => {
+  it("stops after planning and asks to confirm the plan", async () => {
+    const calls: string[] = [];
+    const local = createLocalAgentCaller();
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      reviewPlan: true,
+      credentials: { mock: true },
+      callAgent: (endpoint, body) => {
+        calls.push(endpoint);
+        return local(endpoint, body);
+      },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("reviewing");
+    expect(calls).toEqual(["planner"]);
+    expect(phases(events)).toEqual(["planning", "reviewing"]);
+    const review = events.find((e) => e.type === "plan-review");
+    expect(review?.type === "plan-review" && review.confirmation.details).toStartWith("Compare React, Vue across");
+    expect(events.some((e) => e.type === "plan")).toBe(false);
+  });
+
+  it("debates the approved plan as edited, without planning again", async () => {
+    const reviewed = await runDebate({ query: QUERY, reviewPlan: true, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const edited = validateReviewedPlan({
+      ...reviewed.plan!,
+      options: ["React", " Svelte "],
+      axes: [...reviewed.plan!.axes, { name: "Hiring", description: "Talent pool", weight: 9 }],
+    });
+    expect(edited.success).toBe(true);
+
+    const calls: string[] = [];
+    const local = createLocalAgentCaller();
+    const debate = await runDebate({
+      query: QUERY,
+      planApproval: { approval: APPROVAL.YES, plan: edited.success ? edited.plan : reviewed.plan! },
+      credentials: { mock: true },
+      callAgent: (endpoint, body) => {
+        calls.push(endpoint);
+        return local(endpoint, body);
+      },
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(calls).not.toContain("planner");
+    expect(debate.arguments.map((a) => a.option)).toEqual(["React", "Svelte"]);
+    expect(debate.plan?.assignments.map((a) => a.option)).toEqual(["React", "Svelte"]);
+    expect(debate.plan?.axes.at(-1)?.name).toBe("Hiring");
+  });
+
+  it("rejects plans that cannot be debated", () => {
+    const plan = { options: ["React", "react"], constraints: [], axes: [], assignments: [] };
+    const result = validateReviewedPlan(plan);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual(["Keep at least one axis", "Options must be different"]);
+  });
+
+  it("ends the debate when the plan is denied", async () => {
+    const plan = { options: ["A", "B"], constraints: [], axes: [{ name: "Cost", description: "", weight: 5 }], assignments: [] };
+    const debate = await runDebate({
+      query: QUERY,
+      planApproval: { approval: APPROVAL.NO, plan },
+      callAgent: createLocalAgentCaller(),
+    });
+
+    expect(debate.status).toBe("error");
+    expect(debate.error?.details).toBe("The comparison plan was not approved");
+  });
+});
+
+describe("runDebate tournament", () => {
+  const TOURNAMENT_QUERY = "Compare React vs Vue vs Svelte vs Angular vs Solid for a dashboard";
+
+  it("groups options into balanced matches of at most three", () => {
+    expect(groupOptions(["A", "B", "C", "D"])).toEqual([["A", "B"], ["C", "D"]]);
+    expect(groupOptions(["A", "B", "C", "D", "E"])).toEqual([["A", "B", "C"], ["D", "E"]]);
+    expect(groupOptions(["A", "B", "C", "D", "E", "F", "G", "H"]).map((g) => g.length)).toEqual([3, 3, 2]);
+  });
+
+  it("plays group matches and ranks the winners in a final", async () => {
+    const calls: string[] = [];
+    const local = createLocalAgentCaller();
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: TOURNAMENT_QUERY,
+      maxOptions: 5,
+      credentials: { mock: true },
+      callAgent: (endpoint, body) => {
+        calls.push(endpoint);
+        return local(endpoint, body);
+      },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(debate.plan?.options).toHaveLength(5);
+    const [first, second, final] = debate.tournament?.matches ?? [];
+    expect(first.options).toEqual(["React", "Vue", "Svelte"]);
+    expect(second.options).toEqual(["Angular", "Solid"]);
+    expect(final.round).toBe(2);
+    expect(final.options).toEqual([first.ranking![0], second.ranking![0]]);
+    expect(final.ranking?.[0]).toBe(debate.result!.recommendation.option);
+
+    // Every option argues once; finalists are cross-examined again in the final
+    expect(calls.filter((c) => c === "advocate")).toHaveLength(5);
+    expect(calls.filter((c) => c === "cross-examine")).toHaveLength(7);
+    expect(calls.filter((c) => c === "referee")).toHaveLength(3);
+    expect(debate.crossExaminations.map((c) => c.option)).toEqual(debate.plan!.options);
+    expect(events.filter((e) => e.type === "verdict")).toHaveLength(1);
+    expect(events.filter((e) => e.type === "match")).toHaveLength(6);
+  });
+
+  it("keeps single debates for three options or fewer", async () => {
+    const debate = await runDebate({ query: QUERY, maxOptions: 8, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+
+    expect(debate.status).toBe("complete");
+    expect(debate.tournament).toBeUndefined();
+  });
+
+  it("records the bracket on the session", async () => {
+    const debate = await runDebate({
+      query: TOURNAMENT_QUERY,
+      maxOptions: 4,
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+    });
+    const session = createDebateSession(TOURNAMENT_QUERY, debate);
+
+    expect(ComparisonSessionSchema.safeParse(session).success).toBe(true);
+    expect(session.tournament?.matches.map((m) => m.options.length)).toEqual([2, 2, 2]);
+    expect(session.transcript?.entries.filter((e) => e.content.includes("advances"))).toHaveLength(2);
+  });
+});
+
+describe("runDebate rounds", () => {
+  it("has every advocate rebut the challenges against it, then cross-examines again", async () => {
+    const bodies: { endpoint: string; body: Record<string, unknown> }[] = [];
+    const local = createLocalAgentCaller();
+    const events: DebateEvent[] = [];
+    const debate = await runDebate({
+      query: QUERY,
+      rounds: 3,
+      credentials: { mock: true },
+      callAgent: (endpoint, body) => {
+        bodies.push({ endpoint, body });
+        return local(endpoint, body);
+      },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(debate.status).toBe("complete");
+    expect(debate.rounds.map((r) => r.round)).toEqual([2, 3]);
+    expect(debate.rounds[0].rebuttals.map((r) => r.option)).toEqual(["React", "Vue"]);
+    expect(debate.rounds[0].rebuttals[0].argument).toContain("Rebuttal for React (round 2)");
+    expect(phases(events)).toEqual([
+      "planning",
+      "advocating",
+      "cross-examining",
+      "rebutting",
+      "cross-examining",
+      "rebutting",
+      "cross-examining",
+      "refereeing",
+      "complete",
+    ]);
+
+    // Each rebuttal answers only the challenges aimed at its own option
+    const rebuttal = bodies.find((b) => b.endpoint === "advocate" && b.body.rebuttal)?.body.rebuttal as {
+      challenges: { targetOption: string }[];
+    };
+    expect(rebuttal.challenges.length).toBeGreaterThan(0);
+    expect(rebuttal.challenges.every((c) => c.targetOption === "React")).toBe(true);
+
+    // The referee sees the round history
+    const referee = bodies.find((b) => b.endpoint === "referee")!.body;
+    expect(referee.rounds).toEqual(debate.rounds);
+  });
+
+  it("runs a single round by default", async () => {
+    const debate = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+
+    expect(debate.rounds).toEqual([]);
+  });
+
+  it("records rebuttals in the session transcript and report", async () => {
+    const debate = await runDebate({ query: QUERY, rounds: 2, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const session = createDebateSession(QUERY, debate);
+
+    expect(ComparisonSessionSchema.safeParse(session).success).toBe(true);
+    const types = session.transcript?.entries.map((e) => e.type) ?? [];
+    expect(types.filter((t) => t === "advocate_rebuttal")).toHaveLength(2);
+    expect(types.filter((t) => t === "rebuttal_cross_examination")).toHaveLength(2);
+    expect(types.indexOf("advocate_rebuttal")).toBeGreaterThan(types.lastIndexOf("cross_examination"));
+    expect(sessionToMarkdown(session)).toContain("### Rebuttal by Vue");
+  });
+});
+
+describe("runDebate fork", () => {
+  // Records which agents a debate called, by endpoint and option
+  function recordingCaller(calls: string[]): AgentCaller {
+    const local = createLocalAgentCaller();
+    return (endpoint, body) => {
+      calls.push(body.option ? `${endpoint}:${body.option}` : endpoint);
+      return local(endpoint, body);
+    };
+  }
+
+  async function forkWith(rerun: "referee" | "cross-examination") {
+    const original = await runDebate({ query: QUERY, rounds: 2, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const plan = {
+      ...original.plan!,
+      constraints: [...original.plan!.constraints, { type: "budget" as const, description: "Hosting budget", value: "$5000" }],
+    };
+
+    const calls: string[] = [];
+    const bodies: Record<string, unknown>[] = [];
+    const record = recordingCaller(calls);
+    const fork = await runDebate({
+      query: QUERY,
+      rounds: 2,
+      resume: forkResume(original, plan, rerun),
+      credentials: { mock: true },
+      callAgent: (endpoint, body) => {
+        if (endpoint === "referee") bodies.push(body);
+        return record(endpoint, body);
+      },
+    });
+    return { original, fork, calls, referee: bodies[0] };
+  }
+
+  it("re-judges the saved debate under the new constraints", async () => {
+    const { original, fork, calls, referee } = await forkWith("referee");
+
+    expect(fork.status).toBe("complete");
+    expect(calls).toEqual(["referee"]);
+    expect(fork.arguments).toEqual(original.arguments);
+    expect(fork.rounds).toEqual(original.rounds);
+    expect((referee.plan as { constraints: unknown[] }).constraints).toContainEqual(
+      expect.objectContaining({ value: "$5000" })
+    );
+  });
+
+  it("can raise the challenges again before the verdict", async () => {
+    const { fork, calls } = await forkWith("cross-examination");
+
+    // No fresh research - the advocates only rebut the new challenges
+    expect(calls).toEqual([
+      "cross-examine:React",
+      "cross-examine:Vue",
+      "advocate:React",
+      "advocate:Vue",
+      "cross-examine:React",
+      "cross-examine:Vue",
+      "referee",
+    ]);
+    expect(fork.rounds.map((r) => r.round)).toEqual([2]);
+  });
+
+  it("diffs the two verdicts and their constraints", () => {
+    const axes = [
+      { name: "Cost", description: "", weight: 8 },
+      { name: "Speed", description: "", weight: 2 },
+    ];
+    const before = {
+      summary: "",
+      scores: [
+        { axis: "Cost", scores: { A: 4, B: 7 } },
+        { axis: "Speed", scores: { A: 9, B: 5 } },
+      ],
+      tradeoffs: [],
+      recommendation: { option: "B", reasoning: "", confidence: "high" as const },
+      caveats: ["Tight budget", "Small team"],
+    };
+    const after = {
+      ...before,
+      scores: [
+        { axis: "cost", scores: { A: 8, B: 7 } },
+        { axis: "Speed", scores: { A: 9, B: 5 } },
+      ],
+      recommendation: { option: "A", reasoning: "", confidence: "medium" as const },
+      caveats: ["Small team", "Watch egress fees"],
+    };
+
+    const diff = diffVerdicts({ result: before, axes, options: ["A", "B"] }, { result: after, axes, options: ["A", "B"] });
+    expect(diff.recommendation).toMatchObject({ changed: true, before: { option: "B" }, after: { option: "A" } });
+    expect(diff.scores).toEqual([{ axis: "Cost", option: "A", before: 4, after: 8 }]);
+    expect(diff.totals.map((t) => t.option)).toEqual(["A", "B"]);
+    expect(diff.totals[0].after! - diff.totals[0].before!).toBeCloseTo(3.2);
+    expect(diff.caveats).toEqual({ added: ["Watch egress fees"], removed: ["Tight budget"] });
+
+    const budget = { type: "budget" as const, description: "Hosting", value: "$500" };
+    expect(diffConstraints([budget], [{ ...budget, value: "$5000" }])).toEqual({
+      added: [{ ...budget, value: "$5000" }],
+      removed: [budget],
+    });
+  });
+});
+
+describe("diffSessions", () => {
+  it("reports plan, verdict and source changes between two sessions", async () => {
+    const first = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const plan = first.plan!;
+    const revised = {
+      ...plan,
+      options: [...plan.options, "Svelte"],
+      constraints: [...plan.constraints, { type: "scale" as const, description: "Concurrent users", value: "50k" }],
+      axes: plan.axes.map((axis, i) => (i === 0 ? { ...axis, weight: axis.weight === 10 ? 1 : 10 } : axis)),
+    };
+    const edited = validateReviewedPlan(revised);
+    const second = await runDebate({
+      query: QUERY,
+      planApproval: { approval: APPROVAL.YES, plan: edited.success ? edited.plan : plan },
+      credentials: { mock: true },
+      callAgent: createLocalAgentCaller(),
+    });
+
+    const diff = diffSessions(createDebateSession(QUERY, first), createDebateSession(QUERY, second));
+
+    expect(diff.options).toEqual({ added: ["Svelte"], removed: [] });
+    expect(diff.constraints.added).toEqual([{ type: "scale", description: "Concurrent users", value: "50k" }]);
+    expect(diff.axes.reweighted).toEqual([
+      { axis: plan.axes[0].name, before: plan.axes[0].weight, after: revised.axes[0].weight },
+    ]);
+    expect(diff.verdict?.totals.map((t) => t.option)).toContain("Svelte");
+    expect(diff.verdict?.totals.find((t) => t.option === "Svelte")?.before).toBeUndefined();
+    expect(diff.sources.removed).toEqual([]);
+  });
+
+  it("leaves the verdict out when a session has none", async () => {
+    const done = createDebateSession(QUERY, await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() }));
+    const failed = { ...done, result: undefined, status: "error" as const };
+
+    expect(diffSessions(failed, done).verdict).toBeUndefined();
+    expect(diffSessions(done, done)).toMatchObject({
+      options: { added: [], removed: [] },
+      axes: { added: [], removed: [], reweighted: [] },
+      sources: { added: [], removed: [] },
+    });
+  });
+});
+
+describe("createDebateSession", () => {
+  it("builds a valid session and markdown report from a debate", async () => {
+    const debate = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const session = createDebateSession(QUERY, debate, { clarifications: { scale: "small" } });
+
+    expect(ComparisonSessionSchema.safeParse(session).success).toBe(true);
+    expect(session.status).toBe("complete");
+    expect(session.transcript?.entries.map((e) => e.type)).toEqual([
+      "user_query",
+      "clarification_answer",
+      "planning_result",
+      "advocate_argument",
+      "advocate_argument",
+      "cross_examination",
+      "cross_examination",
+      "referee_verdict",
+    ]);
+
+    const markdown = sessionToMarkdown(session);
+    expect(markdown).toStartWith(`# ${QUERY}`);
+    expect(markdown).toContain(`**${debate.result?.recommendation.option}**`);
+    expect(markdown).toContain("| **Weighted total** |");
+    expect(markdown).toContain(`](${debate.arguments[0].sources[0].url})`);
+    // No model was configured; the one the referee ran on is recorded
+    expect(session.model).toBe("mock:debate");
+  });
+
+  it("keeps the planner error on a failed session", async () => {
+    const debate = await runDebate({
+      query: QUERY,
+      callAgent: async () => errorResponse(createAgentError("planner down")),
+    });
+    const session = createDebateSession(QUERY, debate);
+
+    expect(session.status).toBe("error");
+    expect(session.error).toBe(debate.error?.error);
+    expect(sessionToMarkdown(session)).toContain("> **Error:**");
+  });
+});
+
+describe("Decision report", () => {
+  it("renders score blocks as tables", () => {
+    const markdown = renderCustomKeys("Scores:\n_Score{Performance:React=8,Vue=7}\n_Score{Ecosystem:React=9,Vue=6}\n\nDone.");
+
+    expect(markdown).toContain("| Axis | React | Vue |");
+    expect(markdown).toContain("| Performance | 8 | 7 |");
+    expect(markdown).toContain("| Ecosystem | 9 | 6 |");
+    expect(markdown).not.toContain("_Score:");
+    expect(markdown).toContain("Done.");
+  });
+
+  it("records the clarifications and a metadata footer", async () => {
+    const debate = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const session = createDebateSession(QUERY, debate, {
+      clarifications: { scale: "small" },
+      questions: [{ id: "scale", question: "How many users?", type: "single", options: ["small", "large"], allowCustom: false }],
+    });
+    const markdown = sessionToMarkdown(session);
+
+    expect(markdown).toContain("## Clarifications");
+    expect(markdown).toContain("How many users?");
+    expect(markdown).toContain("## About this report");
+    expect(markdown.indexOf("## Clarifications")).toBeLessThan(markdown.indexOf("## About this report"));
+  });
+
+  it("renders a standalone HTML document with raw HTML escaped", async () => {
+    const query = "Compare <script>alert(1)</script> React vs Vue";
+    const debate = await runDebate({ query, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const html = sessionToHtml(createDebateSession(query, debate));
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<table>");
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).not.toContain("<script>");
+  });
+});
+
+describe("Debate route", () => {
+  it("streams debate events as data parts", async () => {
+    const { POST } = await import("@/app/api/debate/route");
+    const response = await POST(
+      new Request("http://localhost/api/debate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: QUERY, mock: true, maxParallelism: 1 }),
+      })
+    );
+
+    const events: DebateEvent[] = [];
+    await readAgentStream(response, {
+      onData: (name, data) => name === "debate" && events.push(DebateEventSchema.parse(data)),
+    });
+
+    expect(events.at(-1)).toEqual({ type: "phase", phase: "complete" });
+    expect(events.some((e) => e.type === "verdict")).toBe(true);
+  });
+
+  it("rejects requests without a query", async () => {
+    const { POST } = await import("@/app/api/debate/route");
+    const response = await POST(
+      new Request("http://localhost/api/debate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mock: true }),
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("Follow-up route", () => {
+  async function askFollowUp(question: string) {
+    const debate = await runDebate({ query: QUERY, credentials: { mock: true }, callAgent: createLocalAgentCaller() });
+    const { POST } = await import("@/app/api/follow-up/route");
+    const response = await POST(
+      new Request("http://localhost/api/follow-up", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plan: debate.plan,
+          arguments: debate.arguments,
+          crossExaminations: debate.crossExaminations,
+          result: debate.result,
+          question,
+          sessionId: "follow-up-test",
+          mock: true,
+        }),
+      })
+    );
+    return { debate, response };
+  }
+
+  it("updates the verdict when the answer changes it", async () => {
+    const { debate, response } = await askFollowUp("What if our team size doubles?");
+    const { text, data } = await readAgentStream(response);
+
+    expect(text).toContain("## Updated Verdict");
+    const verdict = RefereeResponseSchema.parse(data.verdict);
+    expect(verdict.recommendation.option).not.toBe(debate.result?.recommendation.option);
+    expect(data.usage).toBeDefined();
+  });
+
+  it("keeps the verdict for questions that do not change it", async () => {
+    const { debate, response } = await askFollowUp("Which option has the better ecosystem?");
+    const { text, data } = await readAgentStream(response);
+
+    expect(text).toContain(`**${debate.result?.recommendation.option}**`);
+    expect(data.verdict).toBeUndefined();
+  });
+
+  it("rejects an empty question", async () => {
+    const { response } = await askFollowUp("   ");
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Verdict Evaluation Tests
+ * Golden-answer checks against hand-written and recorded verdicts
+ */
+import { describe, expect, it } from "bun:test";
+import { checkVerdict, evaluateRecordedRun, parseRecordedRun } from "../debate";
+import type { BenchmarkSuite, RefereeResponse } from "../types";
+
+const VERDICT: RefereeResponse = {
+  summary: "Postgres wins for transactional workloads.",
+  scores: [
+    { axis: "Performance", scores: { Postgres: 8, DynamoDB: 7 } },
+    { axis: "Operational Cost", scores: { Postgres: 6, DynamoDB: 9 } },
+  ],
+  tradeoffs: [
+    { condition: "If you need multi-region writes", recommendation: "Choose DynamoDB" },
+    { condition: "If you rely on complex joins", recommendation: "Choose Postgres" },
+  ],
+  recommendation: { option: "PostgreSQL", reasoning: "Relational model fits orders", confidence: "high" },
+  caveats: ["Scale beyond a single primary needs sharding"],
+};
+
+const SUITE: BenchmarkSuite = {
+  cases: [
+    { id: "orders", query: "Postgres vs DynamoDB for orders", expect: { recommend: ["Postgres", "PostgreSQL"] } },
+    { id: "sessions", query: "Redis vs Memcached for sessions", expect: { recommend: "Redis" } },
+    { query: "No expectations here" },
+  ],
+};
+
+describe("checkVerdict", () => {
+  it("passes every satisfied expectation", () => {
+    const checks = checkVerdict(
+      {
+        recommend: ["Postgres", "PostgreSQL"],
+        notRecommend: ["DynamoDB"],
+        confidence: ["high"],
+        tradeoffs: [{ condition: "multi-region", recommend: "DynamoDB" }],
+        caveats: ["sharding"],
+        mentions: ["joins"],
+        scoreOrder: [{ axis: "operational_cost", order: ["DynamoDB", "Postgres"] }],
+      },
+      VERDICT
+    );
+
+    expect(checks).toHaveLength(7);
+    expect(checks.filter((c) => !c.passed)).toEqual([]);
+  });
+
+  it("reports what the verdict said when a check fails", () => {
+    const [recommend, caveat, order] = checkVerdict(
+      {
+        recommend: "DynamoDB",
+        caveats: ["vendor lock-in"],
+        scoreOrder: [{ axis: "Performance", order: ["DynamoDB", "Postgres"] }],
+      },
+      VERDICT
+    );
+
+    expect(recommend).toMatchObject({ passed: false, detail: "recommended PostgreSQL" });
+    expect(caveat.passed).toBe(false);
+    expect(order).toMatchObject({ name: "DynamoDB > Postgres on Performance", passed: false, detail: "DynamoDB=7 Postgres=8" });
+  });
+
+  it("treats tied scores as out of order and a missing verdict as a failure", () => {
+    const tied: RefereeResponse = { ...VERDICT, scores: [{ axis: "Performance", scores: { Postgres: 7, DynamoDB: 7 } }] };
+    expect(checkVerdict({ scoreOrder: [{ axis: "Performance", order: ["Postgres", "DynamoDB"] }] }, tied)[0].passed).toBe(false);
+    expect(checkVerdict({ recommend: "Postgres" }, undefined)[0]).toMatchObject({ passed: false, detail: "no verdict" });
+  });
+});
+
+describe("evaluateRecordedRun", () => {
+  it("scores a benchmark report by case id and skips cases without expectations", () => {
+    const run = parseRecordedRun(
+      {
+        configuration: "gemini · prompts 1234",
+        rows: [
+          { caseId: "orders", query: "renamed query", result: VERDICT },
+          { caseId: "sessions", query: "Redis vs Memcached for sessions" },
+        ],
+      },
+      "report.json"
+    );
+    const summary = evaluateRecordedRun(SUITE, run!);
+
+    expect(summary.configuration).toBe("gemini · prompts 1234");
+    expect(summary.cases.map((c) => [c.caseId, c.passed])).toEqual([
+      ["orders", true],
+      ["sessions", false],
+    ]);
+    expect(summary.accuracy).toBe(0.5);
+  });
+
+  it("matches saved sessions by query and fails cases that were never recorded", () => {
+    const session = {
+      id: "s1",
+      query: "postgres vs dynamodb for orders",
+      createdAt: new Date().toISOString(),
+      status: "complete",
+      result: VERDICT,
+    };
+    const summary = evaluateRecordedRun(SUITE, parseRecordedRun(session, "session.json")!);
+
+    expect(summary.configuration).toBe("session.json");
+    expect(summary.casesPassed).toBe(1);
+    expect(summary.cases[1].checks[0]).toEqual({ name: "has a recorded session", passed: false });
+  });
+
+  it("rejects files that are neither reports nor sessions", () => {
+    expect(parseRecordedRun({ hello: "world" }, "x.json")).toBeUndefined();
+  });
+});
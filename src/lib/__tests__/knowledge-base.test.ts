@@ -0,0 +1,72 @@
+/**
+ * Tests for the Knowledge Base Index
+ */
+import { describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { buildKnowledgeIndex, ingestKnowledgeBase, searchKnowledgeBase } from "../ai/knowledge-base";
+import { collectSearchSources } from "../ai/sources";
+
+const ADR = `# ADR-012: Primary Database
+
+## Context
+Our billing service needs strict transactional guarantees and complex reporting joins.
+
+## Decision
+We standardize on PostgreSQL with logical replication to the analytics warehouse.
+
+## Consequences
+MongoDB clusters are being retired after the 2024 outage caused by replica set elections.`;
+
+const RUNBOOK = `Kafka consumer lag runbook
+
+Check partition rebalancing and consumer group health before scaling brokers.`;
+
+describe("buildKnowledgeIndex", () => {
+  const index = buildKnowledgeIndex("/kb", [
+    { path: "/kb/adr/012-database.md", content: ADR },
+    { path: "/kb/runbooks/kafka.txt", content: RUNBOOK },
+  ]);
+
+  it("chunks documents by section with anchored file:// URLs", () => {
+    expect(index.chunks.map((c) => c.url)).toEqual([
+      "file:///kb/adr/012-database.md#context",
+      "file:///kb/adr/012-database.md#decision",
+      "file:///kb/adr/012-database.md#consequences",
+      "file:///kb/runbooks/kafka.txt",
+    ]);
+    expect(index.chunks[1].title).toBe("ADR-012: Primary Database - Decision");
+    expect(index.chunks[3].title).toBe("kafka");
+  });
+
+  it("ranks the most relevant section first with BM25", () => {
+    const results = searchKnowledgeBase(index, "mongodb outage replica");
+    expect(results[0].url).toBe("file:///kb/adr/012-database.md#consequences");
+    expect(searchKnowledgeBase(index, "kafka consumer lag")[0].url).toBe("file:///kb/runbooks/kafka.txt");
+    expect(searchKnowledgeBase(index, "graphql federation")).toEqual([]);
+  });
+
+  it("turns knowledge base results into citable sources", () => {
+    const results = searchKnowledgeBase(index, "postgresql replication");
+    const sources = collectSearchSources([{ toolResults: [{ toolName: "knowledgeBaseSearch", output: results }] }]);
+    expect(sources[0].url).toBe("file:///kb/adr/012-database.md#decision");
+  });
+});
+
+describe("ingestKnowledgeBase", () => {
+  it("reads supported files from nested folders", async () => {
+    const root = await mkdtemp(path.join(tmpdir(), "kb-"));
+    await mkdir(path.join(root, "adr"));
+    await mkdir(path.join(root, ".git"));
+    await writeFile(path.join(root, "adr", "012-database.md"), ADR);
+    await writeFile(path.join(root, "kafka.txt"), RUNBOOK);
+    await writeFile(path.join(root, "diagram.png"), "not text");
+    await writeFile(path.join(root, ".git", "HEAD"), "ref: refs/heads/main");
+
+    const index = await ingestKnowledgeBase(root);
+    const files = new Set(index.chunks.map((c) => path.basename(new URL(c.url).pathname)));
+    expect([...files].sort()).toEqual(["012-database.md", "kafka.txt"]);
+    expect(index.chunks[0].publishedDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+});
@@ -9,6 +9,7 @@ import {
   parseMarkdownCustomKeys,
   extractCustomKeys,
   hasCustomKeys,
+  extractListSection,
 } from "../utils/markdown-parser";
 
 describe("parseTableKey", () => {
@@ -172,3 +173,40 @@ describe("hasCustomKeys", () => {
     expect(hasCustomKeys("Regular markdown")).toBe(false);
   });
 });
+
+describe("extractListSection", () => {
+  it("collects list items under a matching heading", () => {
+    const markdown = `## Performance
+- Fast rendering
+
+## Acknowledged Weaknesses
+- Steep learning curve
+1. Large bundle size
+
+### Mitigations
+- Code splitting helps
+
+## Sources
+- [React](https://react.dev)`;
+
+    expect(extractListSection(markdown, /weakness/i)).toEqual([
+      "Steep learning curve",
+      "Large bundle size",
+      "Code splitting helps",
+    ]);
+  });
+
+  it("treats bold-only lines as headings", () => {
+    const markdown = `**Limitations:**
+* No built-in router
+
+**Sources:**
+- docs`;
+
+    expect(extractListSection(markdown, /limitation/i)).toEqual(["No built-in router"]);
+  });
+
+  it("returns an empty list when no heading matches", () => {
+    expect(extractListSection("- item", /weakness/i)).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Offline Debate Tests
+ * Runs the full planner -> advocate -> cross-examine -> referee flow against
+ * the scripted mock model and fixture search, with no API keys
+ */
+import { describe, expect, it } from "bun:test";
+import { readAgentStream } from "../utils/agent-stream";
+import { parseQueryOptions, searchFixtures } from "../ai";
+import {
+  AdvocateResponseSchema,
+  CrossExamineResponseSchema,
+  RefereeResponseSchema,
+  type AdvocateResponse,
+  type ComparisonPlan,
+  type CrossExamineResponse,
+} from "../types";
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/api", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...(body as object), mock: true }),
+  });
+}
+
+describe("parseQueryOptions", () => {
+  it("reads the compared options from the query", () => {
+    expect(parseQueryOptions("Compare React vs Vue for a dashboard")).toEqual(["React", "Vue"]);
+    expect(parseQueryOptions("Should I use Postgres, MySQL or SQLite?")).toEqual(["Postgres", "MySQL", "SQLite"]);
+  });
+
+  it("falls back to the fixture options", () => {
+    expect(parseQueryOptions("Which database is best?")).toEqual(["PostgreSQL", "MongoDB"]);
+  });
+});
+
+describe("searchFixtures", () => {
+  it("replays matching recordings and synthesizes a result otherwise", () => {
+    expect(searchFixtures("vue reactivity")[0].url).toBe("https://blog.vuejs.org/posts/vue-3-5");
+    expect(searchFixtures("elixir phoenix liveview")[0].url).toContain("fixtures.tech-referee.dev");
+  });
+});
+
+describe("Offline debate", () => {
+  it("runs every phase deterministically without API keys", async () => {
+    const planner = await import("@/app/api/planner/route");
+    const advocate = await import("@/app/api/advocate/route");
+    const crossExamine = await import("@/app/api/cross-examine/route");
+    const referee = await import("@/app/api/referee/route");
+
+    // Planning
+    const planResponse = await planner.POST(post({ query: "Compare React vs Vue for a dashboard" }));
+    expect(planResponse.status).toBe(200);
+    const { plan } = (await planResponse.json()) as { plan: ComparisonPlan };
+    expect(plan.options).toEqual(["React", "Vue"]);
+
+    // Advocates stream prose, then cite the fixture search results
+    const args: AdvocateResponse[] = [];
+    for (const option of plan.options) {
+      const response = await advocate.POST(post({ option, plan, sessionId: "offline" }));
+      let deltas = 0;
+      const { text, data } = await readAgentStream(response, { onText: () => deltas++ });
+      expect(deltas).toBeGreaterThan(1);
+
+      const evidence = AdvocateResponseSchema.pick({ sources: true, weaknesses: true }).parse(data.advocate);
+      expect(evidence.sources.length).toBeGreaterThan(0);
+      expect(evidence.weaknesses.length).toBe(2);
+      args.push({ option, argument: text, ...evidence });
+    }
+
+    // Cross-examination yields typed challenges against the opponent
+    const crossExams: CrossExamineResponse[] = [];
+    for (const own of args) {
+      const response = await crossExamine.POST(
+        post({
+          option: own.option,
+          ownArgument: own,
+          opponentArguments: args.filter((a) => a.option !== own.option),
+          plan,
+          sessionId: "offline",
+        })
+      );
+      const { text, data } = await readAgentStream(response);
+      const { challenges } = CrossExamineResponseSchema.pick({ challenges: true }).parse(data["cross-examination"]);
+      expect(challenges).toHaveLength(1);
+      expect(challenges[0].targetOption).not.toBe(own.option);
+      expect(challenges[0].factCheck?.sources.length).toBeGreaterThan(0);
+      crossExams.push({ option: own.option, challenges, defense: text });
+    }
+
+    // Referee verdict agrees with the streamed prose
+    const runReferee = async () => {
+      const response = await referee.POST(
+        post({ plan, arguments: args, crossExaminations: crossExams, sessionId: "offline" })
+      );
+      const { text, data } = await readAgentStream(response);
+      return { text, verdict: RefereeResponseSchema.parse(data.verdict) };
+    };
+
+    const first = await runReferee();
+    expect(first.verdict.error).toBeUndefined();
+    expect(plan.options).toContain(first.verdict.recommendation.option);
+    expect(first.text).toContain(`**${first.verdict.recommendation.option}**`);
+    expect(first.verdict.scores).toHaveLength(plan.axes.length);
+
+    const second = await runReferee();
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for Search Providers
+ */
+import { describe, expect, it } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { buildKnowledgeIndex, saveKnowledgeIndex } from "../ai/knowledge-base";
+import {
+  buildJsonSearchUrl,
+  createJsonSearchProvider,
+  createKnowledgeBaseSearchProvider,
+  parseJsonSearchResponse,
+  resolveSearchProviderId,
+} from "../ai/search";
+
+describe("buildJsonSearchUrl", () => {
+  it("targets SearXNG's JSON search endpoint", () => {
+    expect(buildJsonSearchUrl("http://localhost:8888", "react vs vue")).toBe(
+      "http://localhost:8888/search?q=react+vs+vue&format=json"
+    );
+  });
+
+  it("fills a {query} placeholder", () => {
+    expect(buildJsonSearchUrl("https://search.internal/api?term={query}", "c++ & rust")).toBe(
+      "https://search.internal/api?term=c%2B%2B%20%26%20rust"
+    );
+  });
+});
+
+describe("parseJsonSearchResponse", () => {
+  it("maps SearXNG results and generic arrays onto search results", () => {
+    const searxng = {
+      results: [
+        { title: "Vue Guide", url: "https://vuejs.org/guide", content: "Vue is progressive", publishedDate: null },
+        { title: "No URL", content: "skipped" },
+      ],
+    };
+    expect(parseJsonSearchResponse(searxng)).toEqual([
+      { title: "Vue Guide", url: "https://vuejs.org/guide", content: "Vue is progressive", publishedDate: undefined },
+    ]);
+
+    const generic = [{ url: "https://react.dev", snippet: "React docs", published_date: "2025-01-01" }];
+    expect(parseJsonSearchResponse(generic)).toEqual([
+      { title: "https://react.dev", url: "https://react.dev", content: "React docs", publishedDate: "2025-01-01" },
+    ]);
+  });
+
+  it("rejects responses without results", () => {
+    expect(() => parseJsonSearchResponse({ error: "rate limited" })).toThrow();
+  });
+});
+
+describe("JSON search provider", () => {
+  // Host and Authorization header of each request the provider makes
+  async function requestsFor(connection: { baseURL?: string; apiKey?: string }) {
+    const sent: [string, string | null][] = [];
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      sent.push([new URL(String(url)).host, new Headers(init?.headers).get("Authorization")]);
+      return Response.json({ results: [] });
+    }) as typeof fetch;
+    try {
+      await createJsonSearchProvider(connection).search("react vs vue");
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+    return sent;
+  }
+
+  it("only queries the server's endpoint when one is configured", async () => {
+    const saved = { url: process.env.SEARXNG_URL, key: process.env.SEARXNG_API_KEY };
+    process.env.SEARXNG_URL = "http://searxng.internal";
+    process.env.SEARXNG_API_KEY = "server-key";
+
+    try {
+      expect(await requestsFor({})).toEqual([["searxng.internal", "Bearer server-key"]]);
+      expect(await requestsFor({ baseURL: "http://169.254.169.254/latest" })).toEqual([
+        ["searxng.internal", "Bearer server-key"],
+      ]);
+
+      // Without one, the request's endpoint is used with only the request's key
+      delete process.env.SEARXNG_URL;
+      expect(await requestsFor({ baseURL: "https://search.example" })).toEqual([["search.example", null]]);
+      expect(await requestsFor({ baseURL: "https://search.example", apiKey: "own-key" })).toEqual([
+        ["search.example", "Bearer own-key"],
+      ]);
+    } finally {
+      for (const [name, value] of [["SEARXNG_URL", saved.url], ["SEARXNG_API_KEY", saved.key]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+});
+
+describe("Knowledge base search", () => {
+  it("searches the ingested knowledge base", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "search-kb-"));
+    const indexPath = path.join(dir, "knowledge-base.json");
+    const index = buildKnowledgeIndex("/kb", [
+      { path: "/kb/kafka.md", content: "# Kafka runbook\n\nPartition rebalancing for Kafka" },
+      { path: "/kb/postgres.md", content: "# Postgres runbook\n\nVacuum and replication" },
+    ]);
+    await saveKnowledgeIndex(index, indexPath);
+
+    const provider = createKnowledgeBaseSearchProvider(indexPath);
+    const results = await provider.search("postgres replication lag");
+    expect(results.map((r) => r.url)).toEqual(["file:///kb/postgres.md"]);
+  });
+
+  it("returns nothing before the knowledge base is ingested", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "search-kb-"));
+    expect(await createKnowledgeBaseSearchProvider(path.join(dir, "missing.json")).search("postgres")).toEqual([]);
+  });
+});
+
+describe("resolveSearchProviderId", () => {
+  it("prefers the request's backend", () => {
+    expect(resolveSearchProviderId({ provider: "searxng" })).toBe("searxng");
+  });
+});
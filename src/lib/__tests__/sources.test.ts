@@ -0,0 +1,48 @@
+/**
+ * Tests for Search Source Collection
+ */
+import { describe, expect, it } from "bun:test";
+import { collectSearchSources } from "../ai/sources";
+
+const steps = [
+  {
+    toolResults: [
+      {
+        toolName: "webSearch",
+        output: [
+          { title: "Vue Guide", url: "https://vuejs.org/guide", content: "Vue is progressive" },
+          { title: "Broken", url: "not a url", content: "ignored" },
+        ],
+      },
+    ],
+  },
+  {
+    toolResults: [
+      {
+        toolName: "webSearch",
+        output: [
+          { title: "React Docs", url: "https://react.dev", content: "x".repeat(500), publishedDate: "2025-01-01" },
+          { title: "Vue Guide (again)", url: "https://vuejs.org/guide", content: "duplicate" },
+        ],
+      },
+      { toolName: "otherTool", output: [{ title: "Nope", url: "https://example.com", content: "" }] },
+    ],
+  },
+];
+
+describe("collectSearchSources", () => {
+  it("dedupes by URL and drops invalid results", () => {
+    const sources = collectSearchSources(steps);
+
+    expect(sources.map((s) => s.url)).toEqual(["https://vuejs.org/guide", "https://react.dev"]);
+    expect(sources[0].title).toBe("Vue Guide");
+    expect(sources[1].snippet).toHaveLength(300);
+    expect(sources[1].publishedDate).toBe("2025-01-01");
+  });
+
+  it("lists sources cited in the text first", () => {
+    const sources = collectSearchSources(steps, "According to [React](https://react.dev)...");
+
+    expect(sources.map((s) => s.url)).toEqual(["https://react.dev", "https://vuejs.org/guide"]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for Referee Verdict Normalization
+ */
+import { describe, expect, it } from "bun:test";
+import { normalizeVerdict, buildFallbackVerdict, type VerdictExtraction } from "../ai/verdict";
+import { computeWeightedTotals, findWeightFlips, scoresFromMarkdown } from "../utils/scoring";
+import { RefereeResponseSchema, type ComparisonPlan } from "../types";
+
+const plan: ComparisonPlan = {
+  options: ["React", "Vue"],
+  constraints: [],
+  axes: [
+    { name: "Performance", description: "Runtime speed", weight: 8 },
+    { name: "Developer Experience", description: "Ease of use", weight: 4 },
+  ],
+  assignments: [
+    { option: "React", advocateId: "advocate-1" },
+    { option: "Vue", advocateId: "advocate-2" },
+  ],
+};
+
+const extraction: VerdictExtraction = {
+  scores: [
+    { axis: "performance", scores: [{ option: "react", score: 7 }, { option: "Vue", score: 9 }] },
+    { axis: "Developer_Experience", scores: [{ option: "React", score: 12 }, { option: "Svelte", score: 8 }] },
+    { axis: "Community", scores: [{ option: "React", score: 10 }] },
+  ],
+  tradeoffs: [{ condition: "If you need a large hiring pool", recommendation: "React" }],
+  recommendation: { option: "vue", reasoning: "Faster for the stated workload", confidence: "high" },
+  caveats: ["Team already knows React", "  "],
+};
+
+describe("normalizeVerdict", () => {
+  it("maps scores onto plan axes and options", () => {
+    const verdict = normalizeVerdict(plan, "prose", extraction);
+
+    expect(verdict.scores).toEqual([
+      { axis: "Performance", scores: { React: 7, Vue: 9 } },
+      { axis: "Developer Experience", scores: { React: 10 } },
+    ]);
+  });
+
+  it("canonicalizes the recommended option and drops blank caveats", () => {
+    const verdict = normalizeVerdict(plan, "prose", extraction);
+
+    expect(verdict.recommendation).toEqual({
+      option: "Vue",
+      reasoning: "Faster for the stated workload",
+      confidence: "high",
+    });
+    expect(verdict.caveats).toEqual(["Team already knows React"]);
+    expect(verdict.summary).toBe("prose");
+    expect(RefereeResponseSchema.safeParse(verdict).success).toBe(true);
+  });
+
+  it("falls back to the top weighted option when the recommendation is unknown", () => {
+    const verdict = normalizeVerdict(plan, "prose", {
+      ...extraction,
+      recommendation: { option: "Angular", reasoning: "n/a", confidence: "high" },
+    });
+
+    expect(verdict.recommendation.option).toBe("Vue");
+    expect(verdict.recommendation.confidence).toBe("low");
+  });
+
+  it("recovers scores from markdown when extraction has none", () => {
+    const summary = "_Score{Performance:React=6,Vue=8}";
+    const verdict = normalizeVerdict(plan, summary, { ...extraction, scores: [] });
+
+    expect(verdict.scores).toEqual([{ axis: "Performance", scores: { React: 6, Vue: 8 } }]);
+  });
+});
+
+describe("buildFallbackVerdict", () => {
+  it("derives scores and a low-confidence recommendation from the prose", () => {
+    const summary = `_Table{Option:string,Performance:number,Developer_Experience:number}
+| Option | Performance | Developer Experience |
+|---|---|---|
+| React | 9 | 6 |
+| Vue | 7 | 9 |
+`;
+    const verdict = buildFallbackVerdict(plan, summary, "extraction failed");
+
+    expect(verdict.scores).toEqual([
+      { axis: "Performance", scores: { React: 9, Vue: 7 } },
+      { axis: "Developer Experience", scores: { React: 6, Vue: 9 } },
+    ]);
+    expect(verdict.recommendation.option).toBe("React");
+    expect(verdict.recommendation.confidence).toBe("low");
+    expect(verdict.error).toBe("extraction failed");
+  });
+});
+
+describe("scoring", () => {
+  it("computes weighted totals using only scored axes", () => {
+    const totals = computeWeightedTotals(
+      [
+        { axis: "Performance", scores: { React: 6, Vue: 9 } },
+        { axis: "Developer Experience", scores: { React: 9 } },
+      ],
+      plan.axes,
+      plan.options
+    );
+
+    expect(totals.React).toBeCloseTo((6 * 8 + 9 * 4) / 12);
+    expect(totals.Vue).toBe(9);
+  });
+
+  it("ignores score blocks for unknown axes", () => {
+    expect(scoresFromMarkdown("_Score{Cost:React=3,Vue=4}", plan)).toEqual([]);
+  });
+
+  it("finds the nearest weights at which the leader changes", () => {
+    const scores = [
+      { axis: "Performance", scores: { React: 9, Vue: 6 } },
+      { axis: "Developer Experience", scores: { React: 5, Vue: 9 } },
+    ];
+
+    expect(findWeightFlips(scores, plan.axes, plan.options)).toEqual([
+      { axis: "Performance", weight: 5, leader: "Vue" },
+      { axis: "Developer Experience", weight: 7, leader: "Vue" },
+    ]);
+  });
+
+  it("reports no flips when one option wins every axis", () => {
+    const scores = [
+      { axis: "Performance", scores: { React: 9, Vue: 6 } },
+      { axis: "Developer Experience", scores: { React: 8, Vue: 7 } },
+    ];
+
+    expect(findWeightFlips(scores, plan.axes, plan.options)).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Agent Budget Guard
+ * Stops an agent's tool loop once its share of the session budget is spent,
+ * so it finishes its answer with the research it already has
+ */
+import type { LanguageModelUsage } from "ai";
+import { DEFAULT_PRICE_TABLE, type AgentBudget } from "@/lib/types";
+import { estimateCallCost, isBudgetExhausted } from "@/lib/utils/usage";
+import type { StepWithToolResults } from "./sources";
+import { summarizeAgentUsage, type AgentUsageContext } from "./usage";
+
+interface StepWithUsage extends StepWithToolResults {
+  usage: LanguageModelUsage;
+}
+
+export interface BudgetGuard {
+  // Pass as `prepareStep`: removes every tool once the budget is spent
+  prepareStep: (options: { steps: StepWithUsage[] }) => { activeTools?: never[]; toolChoice?: "none" };
+  // Whether the budget cut the tool loop short
+  readonly limited: boolean;
+}
+
+/**
+ * Guard an agent request with its budget; without a budget the guard never intervenes
+ */
+export function createBudgetGuard(budget: AgentBudget | undefined, context: AgentUsageContext): BudgetGuard {
+  let limited = false;
+
+  return {
+    prepareStep: ({ steps }) => {
+      if (!budget) return {};
+      if (!limited) {
+        const report = summarizeAgentUsage(steps.map((step) => step.usage), steps, context);
+        const cost = estimateCallCost(report, budget.prices ?? DEFAULT_PRICE_TABLE) ?? 0;
+        limited = isBudgetExhausted(budget, { usage: report.usage, cost });
+      }
+      return limited ? { activeTools: [], toolChoice: "none" } : {};
+    },
+    get limited() {
+      return limited;
+    },
+  };
+}
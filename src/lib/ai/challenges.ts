@@ -0,0 +1,121 @@
+/**
+ * Cross-Examination Challenge Extraction
+ * Turns the cross-examiner's streamed markdown into typed Challenge objects
+ */
+import { generateText, Output, type LanguageModel, type LanguageModelUsage } from "ai";
+import { z } from "zod";
+import { CHALLENGE_EXTRACTION_PROMPT } from "./prompts";
+import { ChallengeSchema, type Challenge, type Source } from "@/lib/types";
+import { matchName } from "@/lib/utils/scoring";
+
+/**
+ * Structured output schema for extraction
+ * Fact-checks reference retrieved sources by URL; full sources are attached during normalization
+ */
+export const ChallengeExtractionSchema = z.object({
+  challenges: z.array(
+    z.object({
+      targetOption: z.string(),
+      claim: z.string(),
+      critique: z.string(),
+      factCheck: z
+        .object({
+          verdict: z.enum(["confirmed", "disputed", "unverifiable"]),
+          evidence: z.string(),
+          sourceUrls: z.array(z.string()),
+        })
+        .optional(),
+    })
+  ),
+});
+
+export type ChallengeExtraction = z.infer<typeof ChallengeExtractionSchema>;
+
+/**
+ * Build validated challenges from an extraction
+ * - Targets must be one of the opponent options
+ * - Fact-check sources must come from the retrieved search results; a confirmed or
+ *   disputed verdict without any backing source is downgraded to "unverifiable"
+ */
+export function normalizeChallenges(
+  extraction: ChallengeExtraction,
+  opponentOptions: string[],
+  retrievedSources: Source[]
+): Challenge[] {
+  const challenges: Challenge[] = [];
+
+  for (const entry of extraction.challenges) {
+    const targetOption = matchName(entry.targetOption, opponentOptions);
+    if (!targetOption || !entry.claim.trim() || !entry.critique.trim()) continue;
+
+    let factCheck: Challenge["factCheck"];
+    if (entry.factCheck) {
+      const sources = retrievedSources.filter((s) => entry.factCheck!.sourceUrls.includes(s.url));
+      factCheck = {
+        claim: entry.claim,
+        verdict: sources.length > 0 ? entry.factCheck.verdict : "unverifiable",
+        evidence: entry.factCheck.evidence,
+        sources,
+      };
+    }
+
+    const parsed = ChallengeSchema.safeParse({
+      targetOption,
+      claim: entry.claim,
+      critique: entry.critique,
+      factCheck,
+    });
+    if (parsed.success) challenges.push(parsed.data);
+  }
+
+  return challenges;
+}
+
+/**
+ * Extract typed challenges from the cross-examiner's markdown
+ * Never throws - extraction failures yield an empty list
+ */
+export async function extractChallenges({
+  model,
+  option,
+  opponentOptions,
+  text,
+  retrievedSources,
+  onUsage,
+}: {
+  model: LanguageModel;
+  option: string;
+  opponentOptions: string[];
+  text: string;
+  retrievedSources: Source[];
+  onUsage?: (usage: LanguageModelUsage) => void;
+}): Promise<Challenge[]> {
+  const sourcesText = retrievedSources.length > 0
+    ? retrievedSources.map((s) => `- ${s.url} (${s.title})`).join("\n")
+    : "No sources retrieved";
+
+  try {
+    const { output, usage } = await generateText({
+      model,
+      system: CHALLENGE_EXTRACTION_PROMPT,
+      prompt: `## Cross-Examiner's Option
+${option}
+
+## Opponent Options
+${opponentOptions.join(", ")}
+
+## Retrieved Sources
+${sourcesText}
+
+## Cross-Examination
+${text}`,
+      output: Output.object({ schema: ChallengeExtractionSchema }),
+    });
+    onUsage?.(usage);
+
+    return output ? normalizeChallenges(output, opponentOptions, retrievedSources) : [];
+  } catch (err) {
+    console.error("Challenge extraction error:", err);
+    return [];
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Offline Fixtures
+ * Recorded search results and the default comparison used by the mock model
+ */
+import { tokenize } from "./knowledge-base";
+import { rankDocuments, type SearchProvider, type SearchResult } from "./search";
+import type { ComparisonAxis } from "@/lib/types";
+
+// Options compared when the mock planner cannot read any from the query
+export const FIXTURE_OPTIONS = ["PostgreSQL", "MongoDB"];
+
+// Axes every mock plan evaluates
+export const FIXTURE_AXES: ComparisonAxis[] = [
+  { name: "Performance", description: "Throughput and latency under typical workloads", weight: 8 },
+  { name: "Scalability", description: "How well it grows with data and traffic", weight: 7 },
+  { name: "Developer Experience", description: "Tooling, documentation and ease of use", weight: 6 },
+  { name: "Ecosystem", description: "Libraries, hosting options and community size", weight: 5 },
+];
+
+// Recorded search results replayed by the fixture search tool
+export const FIXTURE_SEARCH_RESULTS: SearchResult[] = [
+  {
+    title: "PostgreSQL 17 Release Notes",
+    url: "https://www.postgresql.org/docs/17/release-17.html",
+    content:
+      "PostgreSQL 17 improves vacuum memory usage, adds incremental backups and speeds up bulk loading and exports. JSON support gains JSON_TABLE and SQL/JSON constructors.",
+    publishedDate: "2024-09-26",
+  },
+  {
+    title: "MongoDB 8.0 Performance Improvements",
+    url: "https://www.mongodb.com/products/updates/version-8-0",
+    content:
+      "MongoDB 8.0 delivers up to 36% better read throughput and 59% faster updates than 7.0, and makes horizontal scaling with sharding faster to set up.",
+    publishedDate: "2024-10-02",
+  },
+  {
+    title: "Stack Overflow Developer Survey 2024 - Databases",
+    url: "https://survey.stackoverflow.co/2024/technology#most-popular-technologies-database",
+    content:
+      "PostgreSQL is the most used database among professional developers for the second year in a row, ahead of MySQL, SQLite and MongoDB.",
+    publishedDate: "2024-07-24",
+  },
+  {
+    title: "React 19 Release",
+    url: "https://react.dev/blog/2024/12/05/react-19",
+    content:
+      "React 19 adds Actions, the use API, and stable Server Components. The React Compiler removes most manual memoization.",
+    publishedDate: "2024-12-05",
+  },
+  {
+    title: "Vue 3.5 Release Announcement",
+    url: "https://blog.vuejs.org/posts/vue-3-5",
+    content:
+      "Vue 3.5 reduces reactivity system memory usage by 56% and speeds up operations on large reactive arrays by up to 10x.",
+    publishedDate: "2024-09-01",
+  },
+  {
+    title: "State of JavaScript 2024 - Front-end Frameworks",
+    url: "https://2024.stateofjs.com/en-US/libraries/front-end-frameworks/",
+    content:
+      "React remains the most used front-end framework, while Svelte and Vue lead on developer satisfaction among respondents.",
+    publishedDate: "2024-12-16",
+  },
+];
+
+/**
+ * Replay recorded results for a query, ranked by shared terms
+ * Queries matching no recording get a synthesized result so agents always have a citation
+ */
+export function searchFixtures(query: string, limit = 3): SearchResult[] {
+  const ranked = rankDocuments(FIXTURE_SEARCH_RESULTS, query, limit);
+  if (ranked.length > 0) return ranked;
+
+  const slug = tokenize(query).join("-") || "query";
+  return [
+    {
+      title: `Fixture: ${query}`,
+      url: `https://fixtures.tech-referee.dev/search/${encodeURIComponent(slug)}`,
+      content: `Recorded offline result for "${query}". No live search was performed.`,
+    },
+  ];
+}
+
+/**
+ * Search provider replaying the recorded results - never touches the network
+ */
+export const fixtureSearchProvider: SearchProvider = {
+  name: "Fixtures",
+  search: async (query) => searchFixtures(query),
+};
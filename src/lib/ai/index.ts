@@ -1,9 +1,24 @@
 /**
  * AI Module Exports
  */
-export { getGoogleProvider, getModel } from "./provider";
 export {
+  getGoogleProvider,
+  getModel,
+  findMissingProviderKey,
+  isMockMode,
+  MOCK_MODEL_ID,
+  PROVIDERS,
+  resolveAgentConfig,
+  getAgentCallSettings,
+  type AgentCredentials,
+  type AgentOverrides,
+  type ResolvedAgentConfig,
+} from "./provider";
+export {
+  createSearchTool,
   createExaSearchTool,
+  createFixtureSearchTool,
+  createKnowledgeBaseTool,
   createClarificationTool,
   createConfirmationTool,
   createAgentTools,
@@ -14,14 +29,86 @@ export {
   SearchResultSchema,
   type SearchResult,
   type ApprovalType,
+  type ToolOptions,
 } from "./tools";
+export {
+  createSearchProvider,
+  createExaSearchProvider,
+  createJsonSearchProvider,
+  createKnowledgeBaseSearchProvider,
+  resolveSearchProviderId,
+  buildJsonSearchUrl,
+  parseJsonSearchResponse,
+  rankDocuments,
+  type SearchProvider,
+  type SearchProviderOptions,
+  type ExaSearchOptions,
+} from "./search";
+export {
+  ingestKnowledgeBase,
+  buildKnowledgeIndex,
+  searchKnowledgeBase,
+  saveKnowledgeIndex,
+  loadKnowledgeIndex,
+  findKnowledgeBaseIndex,
+  resolveKnowledgeBaseIndexPath,
+  KnowledgeIndexSchema,
+  KNOWLEDGE_BASE_EXTENSIONS,
+  tokenize,
+  type KnowledgeIndex,
+  type KnowledgeChunk,
+  type KnowledgeDocument,
+} from "./knowledge-base";
+export {
+  createMockModel,
+  scriptMockTurn,
+  buildMockVerdict,
+  parseQueryOptions,
+  mockScore,
+  type MockTurn,
+  type MockPromptView,
+  type MockModelOptions,
+} from "./mock";
+export {
+  searchFixtures,
+  fixtureSearchProvider,
+  FIXTURE_SEARCH_RESULTS,
+  FIXTURE_OPTIONS,
+  FIXTURE_AXES,
+} from "./fixtures";
 export {
   PLANNER_SYSTEM_PROMPT,
   ADVOCATE_SYSTEM_PROMPT,
   CROSS_EXAMINER_SYSTEM_PROMPT,
   REFEREE_SYSTEM_PROMPT,
+  VERDICT_EXTRACTION_PROMPT,
+  CHALLENGE_EXTRACTION_PROMPT,
+  FOLLOW_UP_SYSTEM_PROMPT,
+  PROMPT_VERSION,
   injectOption,
+  injectMaxOptions,
 } from "./prompts";
+export {
+  extractRefereeVerdict,
+  normalizeVerdict,
+  buildFallbackVerdict,
+  VerdictExtractionSchema,
+  type VerdictExtraction,
+} from "./verdict";
+export {
+  collectSearchSources,
+  countToolCalls,
+  searchResultToSource,
+  type StepWithToolResults,
+} from "./sources";
+export { summarizeAgentUsage, type AgentUsageContext } from "./usage";
+export { createBudgetGuard, type BudgetGuard } from "./budget";
+export {
+  extractChallenges,
+  normalizeChallenges,
+  ChallengeExtractionSchema,
+  type ChallengeExtraction,
+} from "./challenges";
 export {
   processToolCalls,
   hasPendingToolConfirmation,
@@ -0,0 +1,283 @@
+/**
+ * Knowledge Base
+ * Ingests internal docs (ADRs, runbooks, extracted PDF text) into an on-disk BM25 index
+ */
+import { existsSync } from "node:fs";
+import { readdir, readFile, stat, writeFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import type { SearchResult } from "./search";
+
+// File types read during ingestion; PDFs are expected as extracted .txt
+export const KNOWLEDGE_BASE_EXTENSIONS = [".md", ".markdown", ".mdx", ".txt"];
+
+const DEFAULT_KNOWLEDGE_BASE_INDEX = "data/knowledge-base.json";
+
+// Target chunk size in characters - roughly one section of a typical ADR
+const CHUNK_SIZE = 1200;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const KnowledgeChunkSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  content: z.string(),
+  publishedDate: z.string().optional(),
+  // Term frequencies and token count used for BM25 scoring
+  terms: z.record(z.string(), z.number()),
+  length: z.number(),
+});
+
+export type KnowledgeChunk = z.infer<typeof KnowledgeChunkSchema>;
+
+export const KnowledgeIndexSchema = z.object({
+  version: z.literal(1),
+  root: z.string(),
+  createdAt: z.string(),
+  chunks: z.array(KnowledgeChunkSchema),
+  documentFrequency: z.record(z.string(), z.number()),
+  averageLength: z.number(),
+});
+
+export type KnowledgeIndex = z.infer<typeof KnowledgeIndexSchema>;
+
+/**
+ * A document read from the knowledge base folder
+ */
+export interface KnowledgeDocument {
+  // Absolute file path
+  path: string;
+  content: string;
+  modifiedAt?: Date;
+}
+
+/**
+ * Heading anchor in the style GitHub renders for markdown headings
+ */
+function slugify(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+/**
+ * Split a document into sections at markdown headings
+ */
+function splitSections(content: string): { heading?: string; text: string }[] {
+  const sections: { heading?: string; text: string }[] = [];
+  let current: { heading?: string; lines: string[] } = { lines: [] };
+
+  for (const line of content.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      sections.push({ heading: current.heading, text: current.lines.join("\n").trim() });
+      current = { heading: heading[1], lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push({ heading: current.heading, text: current.lines.join("\n").trim() });
+
+  return sections.filter((s) => s.text.length > 0);
+}
+
+/**
+ * Pack paragraphs into chunks of about CHUNK_SIZE characters
+ * Paragraphs longer than a chunk are cut at the size limit
+ */
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length + 2 > CHUNK_SIZE) {
+      chunks.push(current);
+      current = "";
+    }
+
+    current = current ? `${current}\n\n${trimmed}` : trimmed;
+    while (current.length > CHUNK_SIZE) {
+      chunks.push(current.slice(0, CHUNK_SIZE));
+      current = current.slice(CHUNK_SIZE);
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Lowercased words of at least three characters
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9.+#]{3,}/g) ?? [];
+}
+
+function countTerms(text: string): { terms: Record<string, number>; length: number } {
+  const tokens = tokenize(text);
+  const terms: Record<string, number> = {};
+  for (const token of tokens) {
+    terms[token] = (terms[token] ?? 0) + 1;
+  }
+  return { terms, length: tokens.length };
+}
+
+/**
+ * Chunk documents and compute the BM25 statistics for them
+ * Chunk URLs are file:// links to the source file, anchored at the section heading
+ */
+export function buildKnowledgeIndex(root: string, documents: KnowledgeDocument[]): KnowledgeIndex {
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const document of documents) {
+    const sections = splitSections(document.content);
+    const documentTitle =
+      document.content.match(/^#\s+(.+)$/m)?.[1].trim() ?? path.basename(document.path, path.extname(document.path));
+    const fileUrl = pathToFileURL(document.path).href;
+
+    for (const section of sections) {
+      const isTitleSection = !section.heading || section.heading === documentTitle;
+      const title = isTitleSection ? documentTitle : `${documentTitle} - ${section.heading}`;
+      const url = section.heading && !isTitleSection ? `${fileUrl}#${slugify(section.heading)}` : fileUrl;
+
+      for (const content of chunkText(section.text)) {
+        chunks.push({
+          title,
+          url,
+          content,
+          publishedDate: document.modifiedAt?.toISOString().slice(0, 10),
+          ...countTerms(`${title} ${content}`),
+        });
+      }
+    }
+  }
+
+  const documentFrequency: Record<string, number> = {};
+  for (const chunk of chunks) {
+    for (const term of Object.keys(chunk.terms)) {
+      documentFrequency[term] = (documentFrequency[term] ?? 0) + 1;
+    }
+  }
+
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  return {
+    version: 1,
+    root,
+    createdAt: new Date().toISOString(),
+    chunks,
+    documentFrequency,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+}
+
+/**
+ * Recursively list supported files, skipping hidden folders and node_modules
+ */
+async function listDocuments(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      files.push(...(await listDocuments(fullPath)));
+    } else if (KNOWLEDGE_BASE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read every supported document under a folder and index it
+ */
+export async function ingestKnowledgeBase(rootDir: string): Promise<KnowledgeIndex> {
+  const root = path.resolve(rootDir);
+  const documents: KnowledgeDocument[] = [];
+
+  for (const file of await listDocuments(root)) {
+    const [content, stats] = await Promise.all([readFile(file, "utf8"), stat(file)]);
+    documents.push({ path: file, content, modifiedAt: stats.mtime });
+  }
+
+  return buildKnowledgeIndex(root, documents);
+}
+
+/**
+ * Rank indexed chunks against a query with BM25
+ */
+export function searchKnowledgeBase(index: KnowledgeIndex, query: string, limit = 5): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.chunks.length;
+
+  return index.chunks
+    .map((chunk) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = chunk.terms[term];
+        if (!frequency) continue;
+        const df = index.documentFrequency[term] ?? 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = 1 - B + (B * chunk.length) / (index.averageLength || 1);
+        score += (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+      }
+      return { chunk, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk }) => ({
+      title: chunk.title,
+      url: chunk.url,
+      content: chunk.content,
+      publishedDate: chunk.publishedDate,
+    }));
+}
+
+/**
+ * Index path from KNOWLEDGE_BASE_INDEX, defaulting to data/knowledge-base.json
+ */
+export function resolveKnowledgeBaseIndexPath(indexPath?: string): string {
+  return path.resolve(indexPath || process.env.KNOWLEDGE_BASE_INDEX || DEFAULT_KNOWLEDGE_BASE_INDEX);
+}
+
+/**
+ * Path of the knowledge base index, or undefined when none has been ingested
+ */
+export function findKnowledgeBaseIndex(indexPath?: string): string | undefined {
+  const resolved = resolveKnowledgeBaseIndexPath(indexPath);
+  return existsSync(resolved) ? resolved : undefined;
+}
+
+export async function saveKnowledgeIndex(index: KnowledgeIndex, indexPath?: string): Promise<string> {
+  const resolved = resolveKnowledgeBaseIndexPath(indexPath);
+  await mkdir(path.dirname(resolved), { recursive: true });
+  await writeFile(resolved, JSON.stringify(index));
+  return resolved;
+}
+
+// Parsed indexes, reloaded when the file changes on disk
+const indexCache = new Map<string, { mtimeMs: number; index: KnowledgeIndex }>();
+
+export async function loadKnowledgeIndex(indexPath?: string): Promise<KnowledgeIndex> {
+  const resolved = resolveKnowledgeBaseIndexPath(indexPath);
+  const { mtimeMs } = await stat(resolved);
+  const cached = indexCache.get(resolved);
+  if (cached?.mtimeMs === mtimeMs) return cached.index;
+
+  const index = KnowledgeIndexSchema.parse(JSON.parse(await readFile(resolved, "utf8")));
+  indexCache.set(resolved, { mtimeMs, index });
+  return index;
+}
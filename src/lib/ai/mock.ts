@@ -0,0 +1,503 @@
+/**
+ * Scripted Mock Model
+ * Deterministic LanguageModel that plays every agent role offline
+ * Reads the options and axes from each prompt, calls webSearch once per research agent,
+ * and cites whatever the (fixture) search returned - same prompt in, same stream out
+ */
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import {
+  PLANNER_SYSTEM_PROMPT,
+  ADVOCATE_SYSTEM_PROMPT,
+  CROSS_EXAMINER_SYSTEM_PROMPT,
+  REFEREE_SYSTEM_PROMPT,
+  VERDICT_EXTRACTION_PROMPT,
+  CHALLENGE_EXTRACTION_PROMPT,
+  FOLLOW_UP_SYSTEM_PROMPT,
+} from "./prompts";
+import { FIXTURE_AXES, FIXTURE_OPTIONS } from "./fixtures";
+import type { SearchResult } from "./search";
+import type { VerdictExtraction } from "./verdict";
+import type { ChallengeExtraction } from "./challenges";
+import { MAX_DEBATE_OPTIONS, type AxisScore, type ComparisonAxis } from "@/lib/types";
+import { computeWeightedTotals, rankOptions } from "@/lib/utils/scoring";
+
+type MockCallOptions = Parameters<MockLanguageModelV3["doGenerate"]>[0];
+type MockGenerateResult = Awaited<ReturnType<MockLanguageModelV3["doGenerate"]>>;
+type MockStreamPart = Awaited<ReturnType<MockLanguageModelV3["doStream"]>>["stream"] extends ReadableStream<infer T>
+  ? T
+  : never;
+
+/**
+ * One scripted model turn - either prose/JSON or a single tool call
+ */
+export type MockTurn =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; toolName: string; input: Record<string, unknown> };
+
+/**
+ * The parts of a prompt the script reacts to
+ */
+export interface MockPromptView {
+  system: string;
+  user: string;
+  searchResults: SearchResult[];
+  canSearch: boolean;
+}
+
+export interface MockModelOptions {
+  modelId?: string;
+  // Delay between streamed chunks - 0 keeps tests fast
+  chunkDelayInMs?: number;
+}
+
+/**
+ * Flatten the call prompt into the fields the script needs
+ */
+function viewPrompt(options: MockCallOptions): MockPromptView {
+  let system = "";
+  let user = "";
+  const searchResults: SearchResult[] = [];
+  let hasToolMessage = false;
+
+  for (const message of options.prompt) {
+    if (message.role === "system") {
+      system += message.content;
+    } else if (message.role === "user") {
+      for (const part of message.content) {
+        if (part.type === "text") user += part.text;
+      }
+    } else if (message.role === "tool") {
+      hasToolMessage = true;
+      for (const part of message.content) {
+        if (part.type === "tool-result" && part.output.type === "json" && Array.isArray(part.output.value)) {
+          searchResults.push(...(part.output.value as SearchResult[]));
+        }
+      }
+    }
+  }
+
+  const canSearch = !hasToolMessage && !!options.tools?.some((t) => t.name === "webSearch");
+  return { system, user, searchResults, canSearch };
+}
+
+/**
+ * Stable 32-bit string hash
+ */
+function hash(text: string): number {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) {
+    h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+/**
+ * Deterministic 5-9 score for an option on an axis
+ */
+export function mockScore(option: string, axis: string): number {
+  return 5 + (hash(`${option}::${axis}`) % 5);
+}
+
+function match(text: string, pattern: RegExp): string | undefined {
+  return pattern.exec(text)?.[1]?.trim();
+}
+
+function splitList(text: string | undefined): string[] {
+  return (text ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Read "- Name (weight: N/10)" or "- **Name** (weight: N/10)" axis lines
+ */
+function parseAxes(text: string): ComparisonAxis[] {
+  const axes: ComparisonAxis[] = [];
+  for (const m of text.matchAll(/^- (?:\*\*)?(.+?)(?:\*\*)? \(weight: (\d+(?:\.\d+)?)\/10\)(?::\s*(.*))?$/gm)) {
+    if (!axes.some((a) => a.name === m[1])) {
+      axes.push({ name: m[1], weight: Number(m[2]), description: m[3] ?? "" });
+    }
+  }
+  return axes.length > 0 ? axes : FIXTURE_AXES;
+}
+
+/**
+ * Pull the compared options out of a free-form query ("Compare X vs Y for ...")
+ */
+export function parseQueryOptions(query: string, maxOptions = MAX_DEBATE_OPTIONS): string[] {
+  const firstLine = query.split("\n")[0].replace(/[?.!]+$/, "");
+  const body = firstLine.replace(/^.*?\b(?:compare|between|use|choose|pick)\s+/i, "");
+  const options = body
+    .split(/\s+(?:vs\.?|versus|or|and)\s+|,\s*/i)
+    .map((part) => part.replace(/\s+(?:for|in|with|when|on|as|to)\s+.*$/i, "").trim())
+    .filter(Boolean);
+
+  return options.length >= 2 ? options.slice(0, maxOptions) : FIXTURE_OPTIONS;
+}
+
+/**
+ * Markdown citation for the nth search result, or an empty string without results
+ */
+function cite(results: SearchResult[], index: number): string {
+  if (results.length === 0) return "";
+  const result = results[index % results.length];
+  return ` ([${result.title}](${result.url}))`;
+}
+
+function scoresFor(options: string[], axes: ComparisonAxis[]): AxisScore[] {
+  return axes.map((axis) => ({
+    axis: axis.name,
+    scores: Object.fromEntries(options.map((option) => [option, mockScore(option, axis.name)])),
+  }));
+}
+
+/**
+ * The structured verdict the mock referee reaches for a plan
+ * Shared by the referee prose and the verdict extraction so the two always agree
+ */
+export function buildMockVerdict(options: string[], axes: ComparisonAxis[]): VerdictExtraction {
+  const scores = scoresFor(options, axes);
+  const [winner] = rankOptions(computeWeightedTotals(scores, axes, options));
+
+  return {
+    scores: scores.map((s) => ({
+      axis: s.axis,
+      scores: Object.entries(s.scores).map(([option, score]) => ({ option, score })),
+    })),
+    tradeoffs: axes.map((axis) => {
+      const best = [...options].sort((a, b) => mockScore(b, axis.name) - mockScore(a, axis.name))[0];
+      return { condition: `If ${axis.name.toLowerCase()} matters most`, recommendation: best };
+    }),
+    recommendation: {
+      option: winner ?? options[0],
+      reasoning: `${winner ?? options[0]} has the highest weighted score across the comparison axes.`,
+      confidence: "medium",
+    },
+    caveats: [
+      "Scores come from offline fixtures, not live research",
+      "A different weighting of the axes could change the outcome",
+    ],
+  };
+}
+
+function plannerTurn(view: MockPromptView): MockTurn {
+  const maxOptions = Number(match(view.system, /maximum (\d+) options/) ?? MAX_DEBATE_OPTIONS);
+  const options = parseQueryOptions(view.user, maxOptions);
+  if (view.canSearch) {
+    return { type: "tool-call", toolName: "webSearch", input: { query: `${options.join(" vs ")} comparison` } };
+  }
+  return {
+    type: "text",
+    text: JSON.stringify({
+      needsClarification: false,
+      plan: {
+        options,
+        constraints: [],
+        axes: FIXTURE_AXES,
+        assignments: options.map((option, i) => ({ option, advocateId: `advocate-${i + 1}` })),
+      },
+    }),
+  };
+}
+
+function advocateTurn(view: MockPromptView): MockTurn {
+  if (view.user.includes("You are rebutting for:")) return rebuttalTurn(view);
+  const option = match(view.user, /You are advocating for: \*\*(.+?)\*\*/) ?? FIXTURE_OPTIONS[0];
+  const axes = parseAxes(view.user);
+  if (view.canSearch) {
+    return { type: "tool-call", toolName: "webSearch", input: { query: `${option} ${axes[0].name.toLowerCase()}` } };
+  }
+
+  const ranked = [...axes].sort((a, b) => mockScore(option, a.name) - mockScore(option, b.name));
+  const sections = axes.map(
+    (axis, i) =>
+      `### ${axis.name}\n\n${option} scores ${mockScore(option, axis.name)}/10 on ${axis.name.toLowerCase()} in our offline benchmarks${cite(view.searchResults, i)}.`
+  );
+
+  return {
+    type: "text",
+    text: `## The Case for ${option}
+
+${option} is a strong fit for this comparison.
+
+${sections.join("\n\n")}
+
+## Acknowledged Weaknesses
+
+- ${option} is weakest on ${ranked[0].name.toLowerCase()}
+- Offline fixtures may not reflect the latest ${option} release`,
+  };
+}
+
+function rebuttalTurn(view: MockPromptView): MockTurn {
+  const option = match(view.user, /You are rebutting for: \*\*(.+?)\*\*/) ?? FIXTURE_OPTIONS[0];
+  const round = match(view.user, /\(round (\d+)\)/) ?? "2";
+  const axes = parseAxes(view.user);
+  if (view.canSearch) {
+    return { type: "tool-call", toolName: "webSearch", input: { query: `${option} ${axes[0].name.toLowerCase()} evidence` } };
+  }
+
+  // Alternate conceding and refuting so both show up in the offline transcript
+  const claims = [...view.user.matchAll(/^- \*\*Claim\*\*: "(.+)"$/gm)].map((m) => m[1]);
+  const answers = claims.map((claim, i) =>
+    i % 2 === 0
+      ? `- **Refuted**: "${claim}" - newer benchmarks show otherwise${cite(view.searchResults, i)}.`
+      : `- **Conceded**: "${claim}" - this holds for small teams.`
+  );
+  const ranked = [...axes].sort((a, b) => mockScore(option, a.name) - mockScore(option, b.name));
+
+  return {
+    type: "text",
+    text: `## Rebuttal for ${option} (round ${round})
+
+${answers.length > 0 ? answers.join("\n") : `No challenges were raised against ${option}.`}
+
+## Acknowledged Weaknesses
+
+- ${option} is weakest on ${ranked[0].name.toLowerCase()}`,
+  };
+}
+
+function crossExaminerTurn(view: MockPromptView): MockTurn {
+  const option = match(view.user, /You are cross-examining on behalf of: \*\*(.+?)\*\*/) ?? FIXTURE_OPTIONS[0];
+  const options = splitList(match(view.user, /\*\*Options Being Compared:\*\* (.+)/));
+  const opponents = options.filter((o) => o !== option);
+  const axes = parseAxes(view.user);
+  if (view.canSearch) {
+    return {
+      type: "tool-call",
+      toolName: "webSearch",
+      input: { query: `${opponents[0] ?? option} ${axes[0].name.toLowerCase()} limitations` },
+    };
+  }
+
+  const challenges = opponents.map((opponent, i) => {
+    const axis = axes[i % axes.length].name;
+    return `- **Target**: ${opponent}
+- **Claim**: "${opponent} leads on ${axis.toLowerCase()}"
+- **Issue**: The claim ignores workloads where ${option} performs better
+- **Counter-Evidence**: ${option} scores ${mockScore(option, axis)}/10 on ${axis.toLowerCase()}${cite(view.searchResults, i)}`;
+  });
+
+  return {
+    type: "text",
+    text: `### Challenges to Opponent Arguments
+
+${challenges.join("\n\n")}
+
+### Defense of ${option}
+
+The criticisms of ${option} rely on outdated information.
+
+### Key Omissions
+
+- Opponents did not discuss migration costs`,
+  };
+}
+
+function refereeTurn(view: MockPromptView): MockTurn {
+  const options = splitList(match(view.user, /\*\*Options Being Compared:\*\* (.+)/));
+  const axes = parseAxes(view.user);
+  const verdict = buildMockVerdict(options.length > 0 ? options : FIXTURE_OPTIONS, axes);
+  const compared = options.length > 0 ? options : FIXTURE_OPTIONS;
+
+  const table = [
+    `_Table{Option:string,${axes.map((a) => `${a.name.replace(/\s+/g, "_")}:number`).join(",")}}`,
+    `| Option | ${axes.map((a) => a.name).join(" | ")} |`,
+    ...compared.map((o) => `| ${o} | ${axes.map((a) => mockScore(o, a.name)).join(" | ")} |`),
+  ].join("\n");
+
+  const scoreLines = axes
+    .map((a) => `_Score{${a.name}:${compared.map((o) => `${o.replace(/\s+/g, "_")}=${mockScore(o, a.name)}`).join(",")}}`)
+    .join("\n");
+
+  return {
+    type: "text",
+    text: `## Comparison Table
+
+${table}
+
+## Scores
+
+${scoreLines}
+
+## Trade-off Analysis
+
+${verdict.tradeoffs.map((t) => `- ${t.condition}, choose ${t.recommendation}`).join("\n")}
+
+## Recommendation
+
+**${verdict.recommendation.option}** - ${verdict.recommendation.reasoning} Confidence: ${verdict.recommendation.confidence}.
+
+## Caveats
+
+${verdict.caveats.map((c) => `- ${c}`).join("\n")}`,
+  };
+}
+
+function followUpTurn(view: MockPromptView): MockTurn {
+  const options = splitList(match(view.user, /\*\*Options Being Compared:\*\* (.+)/));
+  const compared = options.length > 0 ? options : FIXTURE_OPTIONS;
+  const axes = parseAxes(view.user);
+  const current = match(view.user, /\*\*Current Recommendation:\*\* (.+?) \(/) ?? compared[0];
+  const question = match(view.user, /## Follow-up Question\s+([\s\S]+)$/) ?? "";
+
+  // Only hypotheticals move the verdict, and always to the next option in the plan
+  if (!/^what if\b/i.test(question)) {
+    return {
+      type: "text",
+      text: `The verdict stands: **${current}** remains the best fit. The debate already covered this - ${current} leads on ${axes[0].name.toLowerCase()}.`,
+    };
+  }
+
+  const next = compared.find((o) => o !== current) ?? current;
+  const scoreLines = axes
+    .map((a) => `_Score{${a.name}:${compared.map((o) => `${o.replace(/\s+/g, "_")}=${mockScore(o, a.name)}`).join(",")}}`)
+    .join("\n");
+
+  return {
+    type: "text",
+    text: `That change shifts the balance towards **${next}**, which handles it with less effort than ${current}.
+
+## Updated Verdict
+
+${scoreLines}
+
+## Recommendation
+
+**${next}** - ${next} copes better with the changed circumstances. Confidence: medium.
+
+## Caveats
+
+- Revisit if the change turns out to be temporary`,
+  };
+}
+
+function verdictExtractionTurn(view: MockPromptView): MockTurn {
+  const options = splitList(match(view.user, /\*\*Options:\*\* (.+)/));
+  const axisNames = splitList(match(view.user, /\*\*Axes:\*\* (.+)/));
+  const axes = axisNames.map((name) => FIXTURE_AXES.find((a) => a.name === name) ?? { name, description: "", weight: 5 });
+  const verdict = buildMockVerdict(options, axes);
+
+  // The extraction prompt omits axis weights, so take the winner from the referee's prose
+  const recommended = match(view.user, /## Recommendation\s+\*\*(.+?)\*\*/);
+  if (recommended) {
+    verdict.recommendation = {
+      ...verdict.recommendation,
+      option: recommended,
+      reasoning: `${recommended} has the highest weighted score across the comparison axes.`,
+    };
+  }
+
+  return { type: "text", text: JSON.stringify(verdict) };
+}
+
+function challengeExtractionTurn(view: MockPromptView): MockTurn {
+  const sourceUrls = [...view.user.matchAll(/^- (https?:\/\/\S+)/gm)].map((m) => m[1]);
+  const extraction: ChallengeExtraction = { challenges: [] };
+
+  for (const m of view.user.matchAll(/- \*\*Target\*\*: (.+)\n- \*\*Claim\*\*: "(.+)"\n- \*\*Issue\*\*: (.+)\n- \*\*Counter-Evidence\*\*: (.+)/g)) {
+    const cited = sourceUrls.filter((url) => m[4].includes(url));
+    extraction.challenges.push({
+      targetOption: m[1],
+      claim: m[2],
+      critique: m[3],
+      factCheck: { verdict: "disputed", evidence: m[4], sourceUrls: cited },
+    });
+  }
+
+  return { type: "text", text: JSON.stringify(extraction) };
+}
+
+/**
+ * Decide the next turn for a prompt - the whole offline script
+ */
+export function scriptMockTurn(view: MockPromptView): MockTurn {
+  const prefix = (template: string) => template.split("{option}")[0];
+
+  if (view.system.startsWith(PLANNER_SYSTEM_PROMPT.split("{maxOptions}")[0])) return plannerTurn(view);
+  if (view.system.startsWith(prefix(ADVOCATE_SYSTEM_PROMPT))) return advocateTurn(view);
+  if (view.system.startsWith(prefix(CROSS_EXAMINER_SYSTEM_PROMPT))) return crossExaminerTurn(view);
+  if (view.system === REFEREE_SYSTEM_PROMPT) return refereeTurn(view);
+  if (view.system === FOLLOW_UP_SYSTEM_PROMPT) return followUpTurn(view);
+  if (view.system === VERDICT_EXTRACTION_PROMPT) return verdictExtractionTurn(view);
+  if (view.system === CHALLENGE_EXTRACTION_PROMPT) return challengeExtractionTurn(view);
+  return { type: "text", text: "This is a scripted offline response." };
+}
+
+/**
+ * Rough token estimate so usage accounting has non-zero, stable numbers
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function usageFor(view: MockPromptView, output: string): MockGenerateResult["usage"] {
+  const input = estimateTokens(view.system + view.user);
+  const generated = estimateTokens(output);
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: generated, text: generated, reasoning: 0 },
+  };
+}
+
+/**
+ * Create the scripted mock model
+ */
+export function createMockModel({ modelId = "debate", chunkDelayInMs = 0 }: MockModelOptions = {}) {
+  let callCount = 0;
+
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId,
+    doGenerate: async (options) => {
+      const view = viewPrompt(options);
+      const turn = scriptMockTurn(view);
+      const toolCallId = `mock-call-${++callCount}`;
+
+      if (turn.type === "tool-call") {
+        const input = JSON.stringify(turn.input);
+        return {
+          content: [{ type: "tool-call", toolCallId, toolName: turn.toolName, input }],
+          finishReason: { unified: "tool-calls", raw: "tool_calls" },
+          usage: usageFor(view, input),
+          warnings: [],
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: turn.text }],
+        finishReason: { unified: "stop", raw: "stop" },
+        usage: usageFor(view, turn.text),
+        warnings: [],
+      };
+    },
+    doStream: async (options) => {
+      const view = viewPrompt(options);
+      const turn = scriptMockTurn(view);
+      const id = `mock-${++callCount}`;
+      const chunks: MockStreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+      if (turn.type === "tool-call") {
+        const input = JSON.stringify(turn.input);
+        chunks.push(
+          { type: "tool-call", toolCallId: id, toolName: turn.toolName, input },
+          { type: "finish", finishReason: { unified: "tool-calls", raw: "tool_calls" }, usage: usageFor(view, input) }
+        );
+      } else {
+        chunks.push({ type: "text-start", id });
+        // Stream word by word, keeping the whitespace with the preceding word
+        for (const delta of turn.text.match(/\S+\s*|\s+/g) ?? []) {
+          chunks.push({ type: "text-delta", id, delta });
+        }
+        chunks.push(
+          { type: "text-end", id },
+          { type: "finish", finishReason: { unified: "stop", raw: "stop" }, usage: usageFor(view, turn.text) }
+        );
+      }
+
+      return {
+        stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: chunkDelayInMs || null }),
+      };
+    },
+  });
+}
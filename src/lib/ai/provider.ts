@@ -1,8 +1,131 @@
 /**
- * Google AI Provider Factory
- * Creates Google Generative AI provider with dynamic API key support
+ * LLM Provider Registry
+ * Resolves model ids to Google Gemini or OpenAI-compatible providers with dynamic
+ * API key support, and resolves per-role model and generation settings for each agent
  */
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { stepCountIs, type LanguageModel } from "ai";
+import {
+  DEFAULT_AGENT_MODELS,
+  DEFAULT_MODEL,
+  type AgentRole,
+  type GenerationSettings,
+  type ModelId,
+  type ProviderConnection,
+  type ProviderCredentials,
+  type ProviderId,
+} from "@/lib/types";
+import { PROVIDER_NAMES, parseModelId } from "@/lib/utils/model-id";
+import { createMockModel } from "./mock";
+
+// Model every agent uses in mock mode
+export const MOCK_MODEL_ID: ModelId = "mock:debate";
+
+/**
+ * Whether a request runs offline against the scripted mock model and fixture search
+ * Enabled per request from settings, or for every request with TECH_REFEREE_MOCK=1
+ */
+export function isMockMode(requested?: boolean): boolean {
+  return !!requested || ["1", "true"].includes(process.env.TECH_REFEREE_MOCK ?? "");
+}
+
+/**
+ * Credentials for every provider - the Gemini key travels separately as `apiKey`
+ */
+export interface AgentCredentials extends ProviderCredentials {
+  google?: ProviderConnection;
+  mock?: ProviderConnection;
+}
+
+interface ProviderDefinition {
+  // Whether calls fail without an API key (local servers usually need none)
+  requiresApiKey: boolean;
+  // Fill in unset connection fields from server env vars
+  resolveConnection: (connection?: ProviderConnection) => ProviderConnection;
+  createModel: (modelId: string, connection: ProviderConnection) => LanguageModel;
+}
+
+/**
+ * Connection to an OpenAI-compatible server, falling back to its env vars
+ * The server's key only goes to the server's base URL: a request that names
+ * its own base URL has to bring its own key too
+ */
+function resolveCompatibleConnection(
+  connection: ProviderConnection | undefined,
+  env: ProviderConnection,
+  defaultBaseURL: string
+): ProviderConnection {
+  if (connection?.baseURL) return { apiKey: connection.apiKey, baseURL: connection.baseURL };
+  return { apiKey: connection?.apiKey || env.apiKey, baseURL: env.baseURL || defaultBaseURL };
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  google: {
+    requiresApiKey: true,
+    resolveConnection: (connection) => ({
+      apiKey: connection?.apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    }),
+    createModel: (modelId, { apiKey }) => getGoogleProvider(apiKey)(modelId),
+  },
+  openai: {
+    requiresApiKey: true,
+    resolveConnection: (connection) =>
+      resolveCompatibleConnection(
+        connection,
+        { apiKey: process.env.OPENAI_API_KEY, baseURL: process.env.OPENAI_BASE_URL },
+        "https://api.openai.com/v1"
+      ),
+    createModel: (modelId, { apiKey, baseURL }) =>
+      createOpenAICompatible({
+        name: "openai",
+        apiKey,
+        baseURL: baseURL!,
+        supportsStructuredOutputs: true,
+      })(modelId),
+  },
+  local: {
+    requiresApiKey: false,
+    resolveConnection: (connection) =>
+      resolveCompatibleConnection(
+        connection,
+        { apiKey: process.env.LOCAL_LLM_API_KEY, baseURL: process.env.LOCAL_LLM_BASE_URL },
+        "http://localhost:11434/v1"
+      ),
+    createModel: (modelId, { apiKey, baseURL }) =>
+      createOpenAICompatible({
+        name: "local",
+        apiKey,
+        baseURL: baseURL!,
+      })(modelId),
+  },
+  mock: {
+    requiresApiKey: false,
+    resolveConnection: () => ({}),
+    createModel: (modelId) =>
+      createMockModel({ modelId, chunkDelayInMs: Number(process.env.TECH_REFEREE_MOCK_DELAY_MS) || 0 }),
+  },
+};
+
+/**
+ * Normalize a Gemini key or a credentials object to AgentCredentials
+ */
+function toCredentials(credentials?: AgentCredentials | string): AgentCredentials {
+  return typeof credentials === "string" ? { google: { apiKey: credentials } } : credentials ?? {};
+}
+
+/**
+ * Name of the provider whose API key is missing for a model, or undefined if none is
+ */
+export function findMissingProviderKey(
+  modelId: string,
+  credentials?: AgentCredentials | string
+): string | undefined {
+  const { provider } = parseModelId(modelId);
+  const definition = PROVIDERS[provider];
+  const connection = definition.resolveConnection(toCredentials(credentials)[provider]);
+  return definition.requiresApiKey && !connection.apiKey ? PROVIDER_NAMES[provider] : undefined;
+}
 
 export function getGoogleProvider(apiKey?: string) {
   return createGoogleGenerativeAI({
@@ -10,10 +133,73 @@ export function getGoogleProvider(apiKey?: string) {
   });
 }
 
+/**
+ * Resolve a model id to a language model on its provider
+ * Accepts a Gemini API key or credentials for every provider
+ */
 export function getModel(
-  apiKey?: string,
-  modelId: string = "gemini-3-flash-preview"
+  credentials?: AgentCredentials | string,
+  modelId: string = DEFAULT_MODEL
+): LanguageModel {
+  const { provider, model } = parseModelId(modelId);
+  const definition = PROVIDERS[provider];
+  return definition.createModel(model, definition.resolveConnection(toCredentials(credentials)[provider]));
+}
+
+/**
+ * Fully resolved configuration an agent runs with
+ */
+export interface ResolvedAgentConfig {
+  role: AgentRole;
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  maxSteps: number;
+}
+
+/**
+ * Per-request settings that override a role's defaults
+ */
+export interface AgentOverrides {
+  model?: ModelId;
+  generation?: GenerationSettings;
+  // Force the scripted mock model
+  mock?: boolean;
+}
+
+/**
+ * Merge request overrides with the role's defaults
+ */
+export function resolveAgentConfig(
+  role: AgentRole,
+  overrides: AgentOverrides = {}
+): ResolvedAgentConfig {
+  const defaults = DEFAULT_AGENT_MODELS[role];
+  return {
+    role,
+    model: overrides.mock ? MOCK_MODEL_ID : overrides.model ?? defaults.model ?? DEFAULT_MODEL,
+    temperature: overrides.generation?.temperature ?? defaults.temperature,
+    maxOutputTokens: overrides.generation?.maxOutputTokens ?? defaults.maxOutputTokens,
+    maxSteps: overrides.generation?.maxSteps ?? defaults.maxSteps,
+  };
+}
+
+/**
+ * Build the model and call settings to spread into generateText/streamText for a role
+ */
+export function getAgentCallSettings(
+  role: AgentRole,
+  credentials?: AgentCredentials | string,
+  overrides?: AgentOverrides
 ) {
-  const google = getGoogleProvider(apiKey);
-  return google(modelId);
+  const config = resolveAgentConfig(role, overrides);
+  return {
+    config,
+    callSettings: {
+      model: getModel(credentials, config.model),
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+      stopWhen: stepCountIs(config.maxSteps),
+    },
+  };
 }
@@ -0,0 +1,241 @@
+/**
+ * Search Providers
+ * Interchangeable web search backends behind the agents' webSearch tool
+ */
+import { z } from "zod";
+import Exa from "exa-js";
+import { SearchProviderIdSchema, type SearchProviderId, type SearchSettings } from "@/lib/types";
+import { findKnowledgeBaseIndex, loadKnowledgeIndex, searchKnowledgeBase, tokenize } from "./knowledge-base";
+
+/**
+ * Search result schema for type safety
+ */
+export const SearchResultSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  content: z.string(),
+  publishedDate: z.string().optional(),
+});
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+/**
+ * A search backend - implementations throw on failure so the tool can retry
+ */
+export interface SearchProvider {
+  // Display name used in logs
+  name: string;
+  search: (query: string) => Promise<SearchResult[]>;
+}
+
+/**
+ * Options shared by the search providers
+ */
+export interface SearchProviderOptions {
+  numResults?: number;
+}
+
+export interface ExaSearchOptions extends SearchProviderOptions {
+  livecrawl?: "always" | "fallback" | "never";
+}
+
+const DEFAULT_NUM_RESULTS = 5;
+
+// Page text is trimmed so a handful of results fit comfortably in the prompt
+const MAX_CONTENT_LENGTH = 1500;
+
+/**
+ * Exa search with page contents
+ * Missing API key disables search (empty results) rather than failing the agent
+ */
+export function createExaSearchProvider(apiKey?: string, options: ExaSearchOptions = {}): SearchProvider {
+  const resolvedApiKey = apiKey || process.env.EXA_API_KEY;
+  const { numResults = DEFAULT_NUM_RESULTS, livecrawl = "always" } = options;
+
+  return {
+    name: "Exa",
+    search: async (query) => {
+      if (!resolvedApiKey) {
+        console.warn("Exa API key not configured - search disabled");
+        return [];
+      }
+
+      const exa = new Exa(resolvedApiKey);
+      const response = await exa.searchAndContents(query, {
+        livecrawl,
+        numResults,
+        text: true,
+      });
+      return response.results.map((result) => ({
+        title: result.title ?? "Untitled",
+        url: result.url,
+        content: (result as { text?: string }).text?.slice(0, MAX_CONTENT_LENGTH) ?? "",
+        publishedDate: result.publishedDate,
+      }));
+    },
+  };
+}
+
+// A single hit from a SearXNG-style JSON endpoint; field names vary between servers
+const JsonSearchHitSchema = z.object({
+  title: z.string().nullish(),
+  url: z.string(),
+  content: z.string().nullish(),
+  snippet: z.string().nullish(),
+  description: z.string().nullish(),
+  publishedDate: z.string().nullish(),
+  published_date: z.string().nullish(),
+});
+
+const JsonSearchResponseSchema = z.union([
+  z.object({ results: z.array(z.unknown()) }),
+  z.array(z.unknown()),
+]);
+
+/**
+ * URL for a JSON search request
+ * A "{query}" placeholder in the base URL is filled in; otherwise SearXNG's /search?format=json is used
+ */
+export function buildJsonSearchUrl(baseURL: string, query: string): string {
+  if (baseURL.includes("{query}")) {
+    return baseURL.replace("{query}", encodeURIComponent(query));
+  }
+
+  const url = new URL("search", baseURL.endsWith("/") ? baseURL : `${baseURL}/`);
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "json");
+  return url.toString();
+}
+
+/**
+ * Map a JSON search response onto search results, skipping hits without a URL
+ */
+export function parseJsonSearchResponse(body: unknown, numResults = DEFAULT_NUM_RESULTS): SearchResult[] {
+  const parsed = JsonSearchResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error("Unexpected search response format");
+  }
+
+  const hits = Array.isArray(parsed.data) ? parsed.data : parsed.data.results;
+  const results: SearchResult[] = [];
+
+  for (const hit of hits) {
+    const result = JsonSearchHitSchema.safeParse(hit);
+    if (!result.success) continue;
+
+    const { title, url, content, snippet, description, publishedDate, published_date } = result.data;
+    results.push({
+      title: title || url,
+      url,
+      content: (content || snippet || description || "").slice(0, MAX_CONTENT_LENGTH),
+      publishedDate: publishedDate || published_date || undefined,
+    });
+
+    if (results.length >= numResults) break;
+  }
+
+  return results;
+}
+
+/**
+ * SearXNG or any HTTP endpoint returning JSON search results
+ * A configured SEARXNG_URL pins the endpoint, so requests cannot point the server at other hosts;
+ * without one the request's URL is used, with only the request's own key
+ */
+export function createJsonSearchProvider(
+  connection: { baseURL?: string; apiKey?: string },
+  options: SearchProviderOptions = {}
+): SearchProvider {
+  const serverURL = process.env.SEARXNG_URL;
+  const baseURL = serverURL || connection.baseURL;
+  const apiKey = serverURL ? connection.apiKey || process.env.SEARXNG_API_KEY : connection.apiKey;
+  const { numResults = DEFAULT_NUM_RESULTS } = options;
+
+  return {
+    name: "SearXNG",
+    search: async (query) => {
+      if (!baseURL) {
+        console.warn("SearXNG URL not configured - search disabled");
+        return [];
+      }
+
+      const response = await fetch(buildJsonSearchUrl(baseURL, query), {
+        headers: {
+          Accept: "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        signal: AbortSignal.timeout(15000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Search endpoint returned ${response.status}`);
+      }
+
+      return parseJsonSearchResponse(await response.json(), numResults);
+    },
+  };
+}
+
+/**
+ * Rank documents by the number of query terms they contain
+ * Documents sharing no terms with the query are dropped; ties keep their original order
+ */
+export function rankDocuments(documents: SearchResult[], query: string, limit: number): SearchResult[] {
+  const terms = new Set(tokenize(query));
+
+  return documents
+    .map((document, index) => ({
+      document,
+      index,
+      hits: tokenize(`${document.title} ${document.content}`).filter((t) => terms.has(t)).length,
+    }))
+    .filter((r) => r.hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.index - b.index)
+    .slice(0, limit)
+    .map((r) => r.document);
+}
+
+/**
+ * Search the internal knowledge base built by `bun run kb:ingest` instead of the web
+ */
+export function createKnowledgeBaseSearchProvider(
+  indexPath?: string,
+  options: SearchProviderOptions = {}
+): SearchProvider {
+  const { numResults = DEFAULT_NUM_RESULTS } = options;
+
+  return {
+    name: "Knowledge base",
+    search: async (query) => {
+      const resolved = findKnowledgeBaseIndex(indexPath);
+      if (!resolved) {
+        console.warn("Knowledge base not ingested - search disabled");
+        return [];
+      }
+      return searchKnowledgeBase(await loadKnowledgeIndex(resolved), query, numResults);
+    },
+  };
+}
+
+/**
+ * Search backend configured by the request, falling back to SEARCH_PROVIDER and then Exa
+ */
+export function resolveSearchProviderId(settings?: SearchSettings): SearchProviderId {
+  if (settings) return settings.provider;
+  const fromEnv = SearchProviderIdSchema.safeParse(process.env.SEARCH_PROVIDER);
+  return fromEnv.success ? fromEnv.data : "exa";
+}
+
+/**
+ * Create the search provider for a request
+ */
+export function createSearchProvider(settings?: SearchSettings, exaApiKey?: string): SearchProvider {
+  switch (resolveSearchProviderId(settings)) {
+    case "exa":
+      return createExaSearchProvider(exaApiKey);
+    case "searxng":
+      return createJsonSearchProvider({ baseURL: settings?.baseURL, apiKey: settings?.apiKey });
+    case "local":
+      return createKnowledgeBaseSearchProvider();
+  }
+}
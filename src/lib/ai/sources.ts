@@ -0,0 +1,72 @@
+/**
+ * Source Collection
+ * Maps search results retrieved during an agent run to SourceSchema citations
+ */
+import { z } from "zod";
+import { SearchResultSchema, type SearchResult } from "./search";
+import { SourceSchema, type Source } from "@/lib/types";
+
+// Maximum snippet length stored per source
+const SNIPPET_LENGTH = 300;
+
+// Tools whose results are citable sources - web search and the internal knowledge base
+const SEARCH_TOOL_NAMES = new Set(["webSearch", "knowledgeBaseSearch"]);
+
+/**
+ * Minimal view of an agent step - only the tool results are needed
+ */
+export interface StepWithToolResults {
+  toolResults: Array<{ toolName: string; output: unknown }>;
+}
+
+/**
+ * Convert a search result into a Source, or undefined if its URL is not valid
+ */
+export function searchResultToSource(result: SearchResult): Source | undefined {
+  const parsed = SourceSchema.safeParse({
+    title: result.title,
+    url: result.url,
+    snippet: result.content.slice(0, SNIPPET_LENGTH).trim(),
+    publishedDate: result.publishedDate ?? undefined,
+  });
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Collect unique sources from every search tool call made across the given steps
+ * Sources cited in `text` are listed first, in retrieval order otherwise
+ */
+export function collectSearchSources(steps: StepWithToolResults[], text = ""): Source[] {
+  const byUrl = new Map<string, Source>();
+
+  for (const step of steps) {
+    for (const toolResult of step.toolResults) {
+      if (!SEARCH_TOOL_NAMES.has(toolResult.toolName)) continue;
+
+      const results = z.array(SearchResultSchema).safeParse(toolResult.output);
+      if (!results.success) continue;
+
+      for (const result of results.data) {
+        const source = searchResultToSource(result);
+        if (source && !byUrl.has(source.url)) {
+          byUrl.set(source.url, source);
+        }
+      }
+    }
+  }
+
+  const sources = [...byUrl.values()];
+  const cited = sources.filter((s) => text.includes(s.url));
+  const uncited = sources.filter((s) => !text.includes(s.url));
+  return [...cited, ...uncited];
+}
+
+/**
+ * Count the tool calls made across the given steps, or only those of one tool
+ */
+export function countToolCalls(steps: StepWithToolResults[], toolName?: string): number {
+  return steps.reduce(
+    (count, step) => count + step.toolResults.filter((r) => !toolName || r.toolName === toolName).length,
+    0
+  );
+}
@@ -1,23 +1,57 @@
 /**
- * AI Tools - Exa Search Tool and Human-in-the-Loop Utilities
+ * AI Tools - Web Search Tool and Human-in-the-Loop Utilities
  * Creates tools for web research and user confirmation workflows
  */
-import { tool } from "ai";
+import { tool, type ToolSet } from "ai";
 import { z } from "zod";
-import Exa from "exa-js";
 import { searchRetry } from "@/lib/utils";
+import { APPROVAL, ConfirmationRequestSchema, type ApprovalType, type SearchSettings } from "@/lib/types";
+import { fixtureSearchProvider } from "./fixtures";
+import { findKnowledgeBaseIndex, loadKnowledgeIndex, searchKnowledgeBase } from "./knowledge-base";
+import {
+  createExaSearchProvider,
+  createSearchProvider,
+  resolveSearchProviderId,
+  type SearchProvider,
+  type SearchResult,
+} from "./search";
+
+export { SearchResultSchema, type SearchResult } from "./search";
 
 /**
- * Search result schema for type safety
+ * Input schema shared by every web search tool
  */
-export const SearchResultSchema = z.object({
-  title: z.string(),
-  url: z.string(),
-  content: z.string(),
-  publishedDate: z.string().optional(),
+const webSearchInputSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe("The search query - be specific for better results"),
+});
+
+const WEB_SEARCH_DESCRIPTION =
+  "Search the web for up-to-date technical information, documentation, comparisons, and reviews. Use this to research technologies, frameworks, and tools.";
+
+const knowledgeBaseInputSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .max(200)
+    .describe("Keywords to look for in internal documents"),
 });
 
-export type SearchResult = z.infer<typeof SearchResultSchema>;
+const KNOWLEDGE_BASE_DESCRIPTION =
+  "Search the organization's internal documents - architecture decision records, runbooks, design docs and postmortems. Use this to find internal context, past decisions and operational experience that is not on the web.";
+
+/**
+ * Options for building agent tool sets
+ */
+export interface ToolOptions {
+  // Replay recorded search results instead of calling a search backend
+  mock?: boolean;
+  // Search backend to use; defaults to SEARCH_PROVIDER or Exa
+  search?: SearchSettings;
+}
 
 /**
  * Search failure info for graceful degradation
@@ -29,53 +63,22 @@ export interface SearchFailureInfo {
 }
 
 /**
- * Creates an Exa Search tool for web research with live crawling
- * Uses searchAndContents API with livecrawl: 'always' for up-to-date results
- * Gracefully handles missing API key and failures by returning empty results
+ * Creates a web search tool backed by the given search provider
+ * Gracefully handles failures by returning empty results
  * Requirements: 10.2 - Graceful degradation on search failures
  */
-export function createExaSearchTool(apiKey?: string) {
-  const resolvedApiKey = apiKey || process.env.EXA_API_KEY;
-  
+export function createSearchTool(provider: SearchProvider) {
   return tool({
-    description:
-      "Search the web for up-to-date technical information, documentation, comparisons, and reviews. Use this to research technologies, frameworks, and tools.",
-    inputSchema: z.object({
-      query: z
-        .string()
-        .min(1)
-        .max(200)
-        .describe("The search query - be specific for better results"),
-    }),
+    description: WEB_SEARCH_DESCRIPTION,
+    inputSchema: webSearchInputSchema,
     execute: async ({ query }): Promise<SearchResult[]> => {
-      // Handle missing API key gracefully - return empty results
-      if (!resolvedApiKey) {
-        console.warn("Exa API key not configured - search disabled");
-        return [];
-      }
-      
       try {
         // Use retry wrapper for transient failures
-        const results = await searchRetry(async () => {
-          const exa = new Exa(resolvedApiKey);
-          const response = await exa.searchAndContents(query, {
-            livecrawl: "always",
-            numResults: 5,
-            text: true,
-          });
-          return response.results.map((result) => ({
-            title: result.title ?? "Untitled",
-            url: result.url,
-            content: (result as { text?: string }).text?.slice(0, 1500) ?? "",
-            publishedDate: result.publishedDate,
-          }));
-        });
-        
-        return results;
+        return await searchRetry(() => provider.search(query));
       } catch (error) {
         // Return empty results on error - agent will continue with available info
         // This implements graceful degradation (Requirement 10.2)
-        console.error("Exa search error after retries:", error);
+        console.error(`${provider.name} search error after retries:`, error);
         return [];
       }
     },
@@ -83,14 +86,52 @@ export function createExaSearchTool(apiKey?: string) {
 }
 
 /**
- * Approval enum for human-in-the-loop workflows
+ * Creates an Exa Search tool for web research with live crawling
+ * Uses searchAndContents API with livecrawl: 'always' for up-to-date results
  */
-export const APPROVAL = {
-  YES: "Yes, confirmed.",
-  NO: "No, denied.",
-} as const;
+export function createExaSearchTool(apiKey?: string) {
+  return createSearchTool(createExaSearchProvider(apiKey));
+}
 
-export type ApprovalType = (typeof APPROVAL)[keyof typeof APPROVAL];
+/**
+ * Creates a drop-in replacement for the web search tool that replays recorded results
+ * Used for offline and deterministic runs - never touches the network
+ */
+export function createFixtureSearchTool() {
+  return createSearchTool(fixtureSearchProvider);
+}
+
+/**
+ * Web search tool for the given options - fixtures in mock mode, the configured backend otherwise
+ */
+function createWebSearchTool(exaApiKey?: string, options: ToolOptions = {}) {
+  return options.mock
+    ? createFixtureSearchTool()
+    : createSearchTool(createSearchProvider(options.search, exaApiKey));
+}
+
+/**
+ * Creates a search tool over the ingested knowledge base index
+ * Results cite file:// URLs so internal evidence flows into sources like web results
+ */
+export function createKnowledgeBaseTool(indexPath?: string) {
+  return tool({
+    description: KNOWLEDGE_BASE_DESCRIPTION,
+    inputSchema: knowledgeBaseInputSchema,
+    execute: async ({ query }): Promise<SearchResult[]> => {
+      try {
+        return searchKnowledgeBase(await loadKnowledgeIndex(indexPath), query);
+      } catch (error) {
+        // Same graceful degradation as web search
+        console.error("Knowledge base search error:", error);
+        return [];
+      }
+    },
+  });
+}
+
+// Approval answers live with the schemas so the plan review can share them with the client
+export { APPROVAL, type ApprovalType };
 
 /**
  * Creates a clarification poll tool for gathering user input
@@ -132,13 +173,7 @@ export function createConfirmationTool() {
   return tool({
     description:
       "Ask the user to confirm an important action or decision before proceeding",
-    inputSchema: z.object({
-      action: z.string().describe("Description of the action to confirm"),
-      details: z
-        .string()
-        .optional()
-        .describe("Additional details about the action"),
-    }),
+    inputSchema: ConfirmationRequestSchema,
     outputSchema: z.string(),
     // No execute function - requires human-in-the-loop confirmation
   });
@@ -159,9 +194,9 @@ export function getToolsRequiringConfirmation<
 /**
  * All tools available for the Tech Referee agents
  */
-export function createAgentTools(exaApiKey?: string) {
+export function createAgentTools(exaApiKey?: string, options?: ToolOptions) {
   return {
-    webSearch: createExaSearchTool(exaApiKey),
+    webSearch: createWebSearchTool(exaApiKey, options),
     askClarification: createClarificationTool(),
     confirmAction: createConfirmationTool(),
   };
@@ -170,18 +205,28 @@ export function createAgentTools(exaApiKey?: string) {
 /**
  * Tools for planner agent (includes clarification)
  */
-export function createPlannerTools(exaApiKey?: string) {
+export function createPlannerTools(exaApiKey?: string, options?: ToolOptions) {
   return {
-    webSearch: createExaSearchTool(exaApiKey),
+    webSearch: createWebSearchTool(exaApiKey, options),
     askClarification: createClarificationTool(),
   };
 }
 
 /**
  * Tools for advocate/cross-examiner agents (search only)
+ * Adds knowledge base search when an index has been ingested (never in mock mode),
+ * unless webSearch already searches the knowledge base
  */
-export function createResearchTools(exaApiKey?: string) {
-  return {
-    webSearch: createExaSearchTool(exaApiKey),
+export function createResearchTools(exaApiKey?: string, options?: ToolOptions) {
+  const tools: ToolSet = {
+    webSearch: createWebSearchTool(exaApiKey, options),
   };
+
+  const searchesKnowledgeBase = resolveSearchProviderId(options?.search) === "local";
+  const knowledgeBaseIndex = options?.mock || searchesKnowledgeBase ? undefined : findKnowledgeBaseIndex();
+  if (knowledgeBaseIndex) {
+    tools.knowledgeBaseSearch = createKnowledgeBaseTool(knowledgeBaseIndex);
+  }
+
+  return tools;
 }
@@ -0,0 +1,46 @@
+/**
+ * Agent Usage
+ * Token, tool-call and search accounting for a single agent request
+ */
+import type { LanguageModelUsage } from "ai";
+import type { AgentUsageReport, SearchSettings } from "@/lib/types";
+import { EMPTY_USAGE, sumUsage } from "@/lib/utils/usage";
+import { resolveSearchProviderId } from "./search";
+import { countToolCalls, type StepWithToolResults } from "./sources";
+
+/**
+ * What an agent request ran on - mock requests search recorded fixtures, which cost nothing
+ */
+export interface AgentUsageContext {
+  model: string;
+  mock?: boolean;
+  search?: SearchSettings;
+  // Set when a budget guard cut the request's tool loop short
+  budgetLimited?: boolean;
+}
+
+/**
+ * Summarize an agent request: every model call it made plus the tool calls in its steps
+ * Providers may omit token counts; missing counts are treated as zero
+ */
+export function summarizeAgentUsage(
+  usages: LanguageModelUsage[],
+  steps: StepWithToolResults[],
+  context: AgentUsageContext
+): AgentUsageReport {
+  const usage = sumUsage([
+    ...usages.map((usage) => {
+      const inputTokens = usage.inputTokens ?? 0;
+      const outputTokens = usage.outputTokens ?? 0;
+      return { ...EMPTY_USAGE, inputTokens, outputTokens, totalTokens: usage.totalTokens ?? inputTokens + outputTokens };
+    }),
+    { ...EMPTY_USAGE, toolCalls: countToolCalls(steps), searchCalls: countToolCalls(steps, "webSearch") },
+  ]);
+
+  return {
+    model: context.model,
+    searchProvider: context.mock ? undefined : resolveSearchProviderId(context.search),
+    usage,
+    budgetLimited: context.budgetLimited || undefined,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Referee Verdict Extraction
+ * Turns the referee's streamed markdown into a validated RefereeResponse
+ */
+import { generateText, Output, type LanguageModel, type LanguageModelUsage } from "ai";
+import { z } from "zod";
+import { VERDICT_EXTRACTION_PROMPT } from "./prompts";
+import {
+  RefereeResponseSchema,
+  type AxisScore,
+  type ComparisonPlan,
+  type RefereeResponse,
+} from "@/lib/types";
+import {
+  clampScore,
+  computeWeightedTotals,
+  matchName,
+  rankOptions,
+  scoresFromMarkdown,
+} from "@/lib/utils/scoring";
+
+/**
+ * Structured output schema for extraction
+ * Scores use arrays instead of records so the model can emit them reliably
+ */
+export const VerdictExtractionSchema = z.object({
+  scores: z.array(
+    z.object({
+      axis: z.string(),
+      scores: z.array(z.object({ option: z.string(), score: z.number() })),
+    })
+  ),
+  tradeoffs: z.array(z.object({ condition: z.string(), recommendation: z.string() })),
+  recommendation: z.object({
+    option: z.string(),
+    reasoning: z.string(),
+    confidence: z.enum(["high", "medium", "low"]),
+  }),
+  caveats: z.array(z.string()),
+});
+
+export type VerdictExtraction = z.infer<typeof VerdictExtractionSchema>;
+
+/**
+ * Map extracted scores onto the plan's axes and options, dropping anything unknown
+ */
+function normalizeScores(plan: ComparisonPlan, extracted: VerdictExtraction["scores"]): AxisScore[] {
+  const axisNames = plan.axes.map((a) => a.name);
+  const byAxis = new Map<string, Record<string, number>>();
+
+  for (const entry of extracted) {
+    const axis = matchName(entry.axis, axisNames);
+    if (!axis) continue;
+    const scores = byAxis.get(axis) ?? {};
+    for (const { option, score } of entry.scores) {
+      const canonical = matchName(option, plan.options);
+      if (canonical && Number.isFinite(score)) {
+        scores[canonical] = clampScore(score);
+      }
+    }
+    if (Object.keys(scores).length > 0) byAxis.set(axis, scores);
+  }
+
+  return axisNames
+    .filter((name) => byAxis.has(name))
+    .map((name) => ({ axis: name, scores: byAxis.get(name)! }));
+}
+
+/**
+ * Pick the top-ranked option by weighted score, or the first option if nothing was scored
+ */
+function topRankedOption(plan: ComparisonPlan, scores: AxisScore[]): string {
+  const totals = computeWeightedTotals(scores, plan.axes, plan.options);
+  return rankOptions(totals)[0] ?? plan.options[0];
+}
+
+/**
+ * Build a validated RefereeResponse from an extraction and the referee's prose
+ * Scores missing from the extraction are recovered from _Score/_Table blocks in the prose
+ */
+export function normalizeVerdict(
+  plan: ComparisonPlan,
+  summary: string,
+  extraction: VerdictExtraction
+): RefereeResponse {
+  let scores = normalizeScores(plan, extraction.scores);
+  if (scores.length === 0) {
+    scores = scoresFromMarkdown(summary, plan);
+  }
+
+  const recommendedOption = matchName(extraction.recommendation.option, plan.options);
+
+  return RefereeResponseSchema.parse({
+    summary,
+    scores,
+    tradeoffs: extraction.tradeoffs.filter((t) => t.condition.trim() && t.recommendation.trim()),
+    recommendation: recommendedOption
+      ? { ...extraction.recommendation, option: recommendedOption }
+      : {
+          option: topRankedOption(plan, scores),
+          reasoning: extraction.recommendation.reasoning,
+          confidence: "low",
+        },
+    caveats: extraction.caveats.filter((c) => c.trim()),
+  });
+}
+
+/**
+ * Build a verdict from the prose alone when structured extraction fails
+ * The recommendation falls back to the highest weighted score with low confidence
+ */
+export function buildFallbackVerdict(
+  plan: ComparisonPlan,
+  summary: string,
+  reason: string
+): RefereeResponse {
+  const scores = scoresFromMarkdown(summary, plan);
+
+  return RefereeResponseSchema.parse({
+    summary,
+    scores,
+    tradeoffs: [],
+    recommendation: {
+      option: topRankedOption(plan, scores),
+      reasoning: "Derived from the highest weighted score; the referee's stated recommendation could not be extracted.",
+      confidence: "low",
+    },
+    caveats: [],
+    error: reason,
+  });
+}
+
+/**
+ * Extract a structured verdict from the referee's markdown
+ * Never throws - extraction failures produce a fallback verdict with `error` set
+ */
+export async function extractRefereeVerdict({
+  model,
+  plan,
+  summary,
+  onUsage,
+}: {
+  model: LanguageModel;
+  plan: ComparisonPlan;
+  summary: string;
+  onUsage?: (usage: LanguageModelUsage) => void;
+}): Promise<RefereeResponse> {
+  try {
+    const { output, usage } = await generateText({
+      model,
+      system: VERDICT_EXTRACTION_PROMPT,
+      prompt: `## Comparison Plan
+**Options:** ${plan.options.join(", ")}
+**Axes:** ${plan.axes.map((a) => a.name).join(", ")}
+
+## Referee Verdict
+${summary}`,
+      output: Output.object({ schema: VerdictExtractionSchema }),
+    });
+    onUsage?.(usage);
+
+    if (!output) {
+      return buildFallbackVerdict(plan, summary, "Verdict extraction produced no output");
+    }
+
+    return normalizeVerdict(plan, summary, output);
+  } catch (err) {
+    console.error("Verdict extraction error:", err);
+    return buildFallbackVerdict(
+      plan,
+      summary,
+      `Verdict extraction failed: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Debate Benchmark
+ * Runs a suite of queries through runDebate() and tabulates verdicts, latency and usage
+ */
+import { PROMPT_VERSION } from "@/lib/ai/prompts";
+import {
+  BenchmarkSuiteSchema,
+  DEFAULT_MODEL,
+  type AgentUsage,
+  type AxisScore,
+  type BenchmarkCase,
+  type BenchmarkSuite,
+  type DebateEvent,
+  type AgentRole,
+  type DebateRequest,
+  type Recommendation,
+  type RefereeResponse,
+} from "@/lib/types";
+import { computeWeightedTotals, executeInParallel, sumUsage } from "@/lib/utils";
+import { evaluateCase, type CaseEvaluation } from "./evaluation";
+import { runDebate, type AgentCaller, type DebateCredentials, type DebateResult } from "./orchestrator";
+
+export interface BenchmarkRow {
+  caseId: string;
+  query: string;
+  status: DebateResult["status"];
+  recommendation?: string;
+  confidence?: Recommendation["confidence"];
+  options: string[];
+  scores: AxisScore[];
+  weightedTotals: Record<string, number>;
+  latencyMs: number;
+  usage: AgentUsage;
+  // Full verdict, kept so recorded reports can be re-scored offline
+  result?: RefereeResponse;
+  // Golden-answer checks, when the case declares expectations
+  evaluation?: CaseEvaluation;
+  error?: string;
+}
+
+export interface BenchmarkReport {
+  suite?: string;
+  // Model/prompt configuration the rows were produced with
+  configuration: string;
+  startedAt: string;
+  agents?: DebateRequest["agents"];
+  rows: BenchmarkRow[];
+}
+
+export interface RunBenchmarkOptions {
+  suite: BenchmarkSuite;
+  // Debates run at once
+  concurrency?: number;
+  // Agents run at once within each debate
+  maxParallelism?: number;
+  agents?: DebateRequest["agents"];
+  // Budget for each debate, not for the whole suite
+  budget?: DebateRequest["budget"];
+  prices?: DebateRequest["prices"];
+  failurePolicy?: DebateRequest["failurePolicy"];
+  maxOptions?: DebateRequest["maxOptions"];
+  rounds?: DebateRequest["rounds"];
+  credentials?: DebateCredentials;
+  callAgent: AgentCaller;
+  onCaseStart?: (testCase: BenchmarkCase, index: number) => void;
+  onCaseComplete?: (row: BenchmarkRow, index: number) => void;
+  onEvent?: (event: DebateEvent, index: number) => void;
+}
+
+const AGENT_ROLES: AgentRole[] = ["planner", "advocate", "cross-examiner", "referee"];
+
+/**
+ * Label a run by its agent models and prompt version, e.g. "gemini-3-flash-preview · prompts 1a2b3c4d"
+ */
+export function describeConfiguration(agents: DebateRequest["agents"], options: { mock?: boolean } = {}): string {
+  const models = AGENT_ROLES.map((role) => (options.mock ? "mock" : agents?.[role]?.model ?? DEFAULT_MODEL));
+  const label = new Set(models).size === 1 ? models[0] : AGENT_ROLES.map((role, i) => `${role}=${models[i]}`).join(" ");
+  return `${label} · prompts ${PROMPT_VERSION}`;
+}
+
+/**
+ * Validate a suite file - either { name?, cases: [...] } or a bare array of cases
+ */
+export function parseBenchmarkSuite(input: unknown) {
+  return BenchmarkSuiteSchema.safeParse(Array.isArray(input) ? { cases: input } : input);
+}
+
+/**
+ * Tabulate one finished debate
+ */
+export function toBenchmarkRow(caseId: string, query: string, debate: DebateResult, latencyMs: number): BenchmarkRow {
+  const { plan, result } = debate;
+  const questions = debate.clarifications?.map((q) => q.id).join(", ");
+
+  return {
+    caseId,
+    query,
+    status: debate.status,
+    recommendation: result?.recommendation.option,
+    confidence: result?.recommendation.confidence,
+    options: plan?.options ?? [],
+    scores: result?.scores ?? [],
+    weightedTotals: plan && result ? computeWeightedTotals(result.scores, plan.axes, plan.options) : {},
+    latencyMs: Math.round(latencyMs),
+    usage: sumUsage(debate.usage.map((call) => call.usage)),
+    result,
+    error: debate.status === "clarifying" ? `Unanswered clarifications: ${questions}` : debate.error?.error,
+  };
+}
+
+/**
+ * Run every case in the suite, at most `concurrency` debates at a time
+ * Rows are returned in suite order
+ */
+export async function runBenchmark(options: RunBenchmarkOptions): Promise<BenchmarkRow[]> {
+  const { suite, concurrency = 2, onCaseStart, onCaseComplete, onEvent, ...debateOptions } = options;
+
+  const { results } = await executeInParallel({
+    items: suite.cases,
+    maxParallelism: concurrency,
+    executor: async (testCase, index): Promise<BenchmarkRow> => {
+      onCaseStart?.(testCase, index);
+      const startedAt = performance.now();
+      const debate = await runDebate({
+        ...debateOptions,
+        query: testCase.query,
+        clarifications: testCase.clarifications,
+        sessionId: `bench-${index + 1}`,
+        onEvent: (event) => onEvent?.(event, index),
+      });
+      const caseId = testCase.id ?? `case-${index + 1}`;
+      const row = toBenchmarkRow(caseId, testCase.query, debate, performance.now() - startedAt);
+      return { ...row, evaluation: evaluateCase(testCase, caseId, debate.result) };
+    },
+    onItemComplete: (_, row, index) => onCaseComplete?.(row, index),
+  });
+
+  return results;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatScores(scores: Record<string, number>): string {
+  return Object.entries(scores)
+    .map(([option, score]) => `${option}=${Number(score.toFixed(2))}`)
+    .join(" ");
+}
+
+export const BENCHMARK_CSV_COLUMNS = [
+  "case_id",
+  "query",
+  "status",
+  "recommendation",
+  "confidence",
+  "weighted_totals",
+  "axis_scores",
+  "latency_ms",
+  "input_tokens",
+  "output_tokens",
+  "total_tokens",
+  "search_calls",
+  "eval_result",
+  "eval_checks",
+  "eval_failures",
+  "error",
+] as const;
+
+/**
+ * Export rows as CSV, one line per case
+ * Scores vary by plan, so they are packed as "Axis: A=7 B=5; ..." in a single column
+ */
+export function benchmarkToCsv(rows: BenchmarkRow[]): string {
+  const lines = rows.map((row) =>
+    [
+      row.caseId,
+      row.query,
+      row.status,
+      row.recommendation,
+      row.confidence,
+      formatScores(row.weightedTotals),
+      row.scores.map((s) => `${s.axis}: ${formatScores(s.scores)}`).join("; "),
+      row.latencyMs,
+      row.usage.inputTokens,
+      row.usage.outputTokens,
+      row.usage.totalTokens,
+      row.usage.searchCalls,
+      row.evaluation && (row.evaluation.passed ? "pass" : "fail"),
+      row.evaluation && `${row.evaluation.checks.filter((c) => c.passed).length}/${row.evaluation.checks.length}`,
+      row.evaluation?.checks
+        .filter((c) => !c.passed)
+        .map((c) => c.name)
+        .join("; "),
+      row.error,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return `${[BENCHMARK_CSV_COLUMNS.join(","), ...lines].join("\n")}\n`;
+}
+
+/**
+ * Export a report as pretty-printed JSON
+ */
+export function benchmarkToJson(report: BenchmarkReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
@@ -0,0 +1,254 @@
+/**
+ * Verdict Evaluation
+ * Scores referee verdicts against the golden answers declared in a benchmark suite
+ * Works on live benchmark rows or on recorded reports and sessions, without calling any model
+ */
+import { z } from "zod";
+import {
+  ComparisonSessionSchema,
+  RefereeResponseSchema,
+  type BenchmarkCase,
+  type BenchmarkSuite,
+  type RefereeResponse,
+  type VerdictExpectations,
+} from "@/lib/types";
+import { matchName, normalizeName } from "@/lib/utils";
+
+export interface ExpectationCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface CaseEvaluation {
+  caseId: string;
+  query: string;
+  passed: boolean;
+  checks: ExpectationCheck[];
+}
+
+export interface EvaluationSummary {
+  configuration: string;
+  cases: CaseEvaluation[];
+  casesPassed: number;
+  checksPassed: number;
+  checksTotal: number;
+  // Share of cases whose every check passed, 0-1
+  accuracy: number;
+}
+
+/**
+ * A verdict recorded for a suite case - from a benchmark report row or a saved session
+ */
+export interface RecordedVerdict {
+  caseId?: string;
+  query: string;
+  result?: RefereeResponse;
+}
+
+export interface RecordedRun {
+  configuration: string;
+  verdicts: RecordedVerdict[];
+}
+
+function includesText(haystack: string, needle: string): boolean {
+  return haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+// Option names as written in the suite, joined for check names
+function listNames(names: string[]): string {
+  return names.join(" or ");
+}
+
+/**
+ * Check a verdict against a case's expectations, one check per expectation
+ * A missing verdict fails every check
+ */
+export function checkVerdict(expect: VerdictExpectations, result: RefereeResponse | undefined): ExpectationCheck[] {
+  const checks: ExpectationCheck[] = [];
+  const check = (name: string, passed: (verdict: RefereeResponse) => boolean, detail: (verdict: RefereeResponse) => string) => {
+    checks.push(
+      result
+        ? { name, passed: passed(result), detail: detail(result) }
+        : { name, passed: false, detail: "no verdict" }
+    );
+  };
+
+  const picked = (verdict: RefereeResponse) => verdict.recommendation.option;
+
+  if (expect.recommend !== undefined) {
+    const options = Array.isArray(expect.recommend) ? expect.recommend : [expect.recommend];
+    check(
+      `recommends ${listNames(options)}`,
+      (v) => matchName(picked(v), options) !== undefined,
+      (v) => `recommended ${picked(v)}`
+    );
+  }
+
+  for (const option of expect.notRecommend ?? []) {
+    check(
+      `does not recommend ${option}`,
+      (v) => normalizeName(picked(v)) !== normalizeName(option),
+      (v) => `recommended ${picked(v)}`
+    );
+  }
+
+  if (expect.confidence) {
+    const levels = expect.confidence;
+    check(
+      `confidence is ${levels.join(" or ")}`,
+      (v) => levels.includes(v.recommendation.confidence),
+      (v) => `confidence ${v.recommendation.confidence}`
+    );
+  }
+
+  for (const tradeoff of expect.tradeoffs ?? []) {
+    const matching = (v: RefereeResponse) => v.tradeoffs.filter((t) => includesText(t.condition, tradeoff.condition));
+    check(
+      `recommends ${tradeoff.recommend} when ${tradeoff.condition}`,
+      (v) => matching(v).some((t) => includesText(t.recommendation, tradeoff.recommend)),
+      (v) => {
+        const found = matching(v);
+        return found.length > 0
+          ? found.map((t) => `${t.condition}: ${t.recommendation}`).join("; ")
+          : "no tradeoff with that condition";
+      }
+    );
+  }
+
+  for (const phrase of expect.caveats ?? []) {
+    check(
+      `caveat mentions "${phrase}"`,
+      (v) => v.caveats.some((c) => includesText(c, phrase)),
+      (v) => `${v.caveats.length} caveats`
+    );
+  }
+
+  for (const phrase of expect.mentions ?? []) {
+    check(
+      `verdict mentions "${phrase}"`,
+      (v) =>
+        includesText(
+          [
+            v.summary,
+            v.recommendation.reasoning,
+            ...v.caveats,
+            ...v.tradeoffs.flatMap((t) => [t.condition, t.recommendation]),
+          ].join("\n"),
+          phrase
+        ),
+      () => "searched summary, reasoning, tradeoffs and caveats"
+    );
+  }
+
+  for (const { axis, order } of expect.scoreOrder ?? []) {
+    const axisScores = (v: RefereeResponse) => v.scores.find((s) => normalizeName(s.axis) === normalizeName(axis));
+    const scoresInOrder = (v: RefereeResponse) => {
+      const scores = axisScores(v)?.scores ?? {};
+      return order.map((option) => {
+        const key = matchName(option, Object.keys(scores));
+        return key === undefined ? undefined : scores[key];
+      });
+    };
+    check(
+      `${order.join(" > ")} on ${axis}`,
+      (v) => {
+        const scores = scoresInOrder(v);
+        return scores.every((score, i) => score !== undefined && (i === 0 || score < scores[i - 1]!));
+      },
+      (v) =>
+        axisScores(v)
+          ? order.map((option, i) => `${option}=${scoresInOrder(v)[i] ?? "?"}`).join(" ")
+          : `no ${axis} scores`
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Evaluate one case; cases without expectations return undefined
+ */
+export function evaluateCase(
+  testCase: BenchmarkCase,
+  caseId: string,
+  result: RefereeResponse | undefined
+): CaseEvaluation | undefined {
+  if (!testCase.expect) return undefined;
+
+  const checks = checkVerdict(testCase.expect, result);
+  return { caseId, query: testCase.query, passed: checks.every((c) => c.passed), checks };
+}
+
+/**
+ * Aggregate case evaluations for one model/prompt configuration
+ */
+export function summarizeEvaluation(configuration: string, cases: CaseEvaluation[]): EvaluationSummary {
+  const checks = cases.flatMap((c) => c.checks);
+  const casesPassed = cases.filter((c) => c.passed).length;
+  return {
+    configuration,
+    cases,
+    casesPassed,
+    checksPassed: checks.filter((c) => c.passed).length,
+    checksTotal: checks.length,
+    accuracy: cases.length > 0 ? casesPassed / cases.length : 0,
+  };
+}
+
+/**
+ * Evaluate a recorded run against a suite
+ * Verdicts are matched to cases by case id, then by query; unmatched cases fail
+ */
+export function evaluateRecordedRun(suite: BenchmarkSuite, run: RecordedRun): EvaluationSummary {
+  const cases = suite.cases.flatMap((testCase, index) => {
+    const caseId = testCase.id ?? `case-${index + 1}`;
+    const recorded =
+      run.verdicts.find((v) => v.caseId === caseId) ??
+      run.verdicts.find((v) => normalizeName(v.query) === normalizeName(testCase.query));
+    const evaluation = evaluateCase(testCase, caseId, recorded?.result);
+    if (!evaluation) return [];
+    if (recorded) return [evaluation];
+
+    const missing: ExpectationCheck = { name: "has a recorded session", passed: false };
+    return [{ ...evaluation, passed: false, checks: [missing, ...evaluation.checks] }];
+  });
+
+  return summarizeEvaluation(run.configuration, cases);
+}
+
+// The parts of a benchmark JSON report needed to re-score it
+const RecordedReportSchema = z.object({
+  configuration: z.string().optional(),
+  rows: z.array(
+    z.object({
+      caseId: z.string(),
+      query: z.string(),
+      result: RefereeResponseSchema.optional(),
+    })
+  ),
+});
+
+/**
+ * Read a recorded run from a benchmark JSON report, a saved session or an array of sessions
+ * Returns undefined when the data is none of these
+ */
+export function parseRecordedRun(data: unknown, fallbackConfiguration: string): RecordedRun | undefined {
+  const report = RecordedReportSchema.safeParse(data);
+  if (report.success) {
+    return {
+      configuration: report.data.configuration ?? fallbackConfiguration,
+      verdicts: report.data.rows,
+    };
+  }
+
+  const sessions = z.array(ComparisonSessionSchema).safeParse(Array.isArray(data) ? data : [data]);
+  if (sessions.success) {
+    return {
+      configuration: fallbackConfiguration,
+      verdicts: sessions.data.map((session) => ({ query: session.query, result: session.result })),
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,61 @@
+/**
+ * Debate Module Exports
+ */
+export {
+  runDebate,
+  createHttpAgentCaller,
+  AGENT_ENDPOINTS,
+  type AgentCaller,
+  type AgentEndpoint,
+  type DebateCredentials,
+  type DebateResult,
+  type RunDebateOptions,
+} from "./orchestrator";
+export { createLocalAgentCaller } from "./local-agents";
+export { createDebateSession, type DebateSessionOptions } from "./session";
+export {
+  findResumePoint,
+  describeResumePoint,
+  advocatesToRerun,
+  crossExaminersToRerun,
+  mergeByOption,
+  keptResponses,
+  forkResume,
+  keptRounds,
+  sessionRoundCount,
+  type ResumePhase,
+  type ResumePoint,
+} from "./resume";
+export {
+  isTournament,
+  groupOptions,
+  countTournamentCalls,
+  matchPlan,
+  rankMatch,
+  tournamentRounds,
+  isFinalMatch,
+} from "./tournament";
+export {
+  runBenchmark,
+  describeConfiguration,
+  parseBenchmarkSuite,
+  toBenchmarkRow,
+  benchmarkToCsv,
+  benchmarkToJson,
+  BENCHMARK_CSV_COLUMNS,
+  type BenchmarkRow,
+  type BenchmarkReport,
+  type RunBenchmarkOptions,
+} from "./benchmark";
+export {
+  checkVerdict,
+  evaluateCase,
+  evaluateRecordedRun,
+  summarizeEvaluation,
+  parseRecordedRun,
+  type ExpectationCheck,
+  type CaseEvaluation,
+  type EvaluationSummary,
+  type RecordedVerdict,
+  type RecordedRun,
+} from "./evaluation";
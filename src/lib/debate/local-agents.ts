@@ -0,0 +1,30 @@
+/**
+ * In-Process Agent Caller
+ * Invokes the agent route handlers directly, without an HTTP round trip
+ */
+import { POST as planner } from "@/app/api/planner/route";
+import { POST as advocate } from "@/app/api/advocate/route";
+import { POST as crossExamine } from "@/app/api/cross-examine/route";
+import { POST as referee } from "@/app/api/referee/route";
+import type { AgentCaller, AgentEndpoint } from "./orchestrator";
+
+const HANDLERS: Record<AgentEndpoint, (req: Request) => Promise<Response>> = {
+  planner,
+  advocate,
+  "cross-examine": crossExamine,
+  referee,
+};
+
+/**
+ * Agent caller for server-side debates - used by /api/debate, scripts and tests
+ */
+export function createLocalAgentCaller(): AgentCaller {
+  return (endpoint, body) =>
+    HANDLERS[endpoint](
+      new Request(`http://localhost/api/${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+    );
+}
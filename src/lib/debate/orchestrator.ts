@@ -0,0 +1,588 @@
+/**
+ * Debate Orchestrator
+ * Drives planner -> advocates -> cross-examiners -> referee and reports progress as typed events
+ * Shared by the /api/debate route, scripts and tests
+ */
+import { z } from "zod";
+import {
+  APPROVAL,
+  AdvocateResponseSchema,
+  AgentUsageReportSchema,
+  ClarificationQuestionSchema,
+  ComparisonPlanSchema,
+  CrossExamineResponseSchema,
+  DEFAULT_PRICE_TABLE,
+  RefereeResponseSchema,
+  type AdvocateResponse,
+  type AgentBudget,
+  type AgentCallUsage,
+  type AgentFailurePolicy,
+  type AgentRole,
+  type APIError,
+  type ClarificationQuestion,
+  type ComparisonPlan,
+  type CrossExamineResponse,
+  type DebateAgentConfig,
+  type DebateEvent,
+  type DebateRequest,
+  type DebateRound,
+  type ProviderCredentials,
+  type RefereeResponse,
+  type SearchSettings,
+  type Tournament,
+  type TournamentMatch,
+} from "@/lib/types";
+import {
+  createAgentError,
+  executeInParallel,
+  isAPIError,
+  isBudgetExhausted,
+  parseError,
+  planConfirmation,
+  readAgentStream,
+  shareBudget,
+  summarizeUsage,
+} from "@/lib/utils";
+import { advocatesToRerun, crossExaminersToRerun, keptRounds, mergeByOption } from "./resume";
+import { countTournamentCalls, groupOptions, isTournament, matchPlan, rankMatch } from "./tournament";
+
+// Agent route each role is served by
+export const AGENT_ENDPOINTS = {
+  planner: "planner",
+  advocate: "advocate",
+  "cross-examiner": "cross-examine",
+  referee: "referee",
+} as const satisfies Record<AgentRole, string>;
+
+export type AgentEndpoint = (typeof AGENT_ENDPOINTS)[AgentRole];
+
+// Share of the session budget each phase gets, split evenly between its agents
+// Whatever a phase leaves unspent rolls over to the phases after it
+const BUDGET_SHARES: [AgentRole, number][] = [
+  ["planner", 0.1],
+  ["advocate", 0.4],
+  ["cross-examiner", 0.25],
+  ["referee", 0.25],
+];
+
+// Budget note for an agent that stopped using tools early
+const BUDGET_LIMIT_NOTES: Record<AgentRole, (option?: string) => string> = {
+  planner: () => "Planner research was cut short",
+  advocate: (option) => `Research for ${option} was cut short`,
+  "cross-examiner": (option) => `Fact-checking by the ${option} cross-examiner was cut short`,
+  referee: () => "Referee fact-check searches were skipped",
+};
+
+/**
+ * Sends a JSON body to an agent route and returns its response
+ */
+export type AgentCaller = (endpoint: AgentEndpoint, body: Record<string, unknown>) => Promise<Response>;
+
+/**
+ * Keys and backend settings forwarded to every agent request
+ */
+export interface DebateCredentials {
+  apiKey?: string;
+  exaApiKey?: string;
+  providers?: ProviderCredentials;
+  search?: SearchSettings;
+  mock?: boolean;
+}
+
+export interface RunDebateOptions extends Omit<DebateRequest, "maxParallelism"> {
+  maxParallelism?: number;
+  credentials?: DebateCredentials;
+  callAgent: AgentCaller;
+  onEvent?: (event: DebateEvent) => void;
+}
+
+export interface DebateResult {
+  status: "complete" | "clarifying" | "reviewing" | "error";
+  plan?: ComparisonPlan;
+  clarifications?: ClarificationQuestion[];
+  arguments: AdvocateResponse[];
+  crossExaminations: CrossExamineResponse[];
+  // Rebuttal rounds after the opening round, in order
+  rounds: DebateRound[];
+  result?: RefereeResponse;
+  verdictText?: string;
+  // Bracket of a plan with more than MAX_DEBATE_OPTIONS options; `result` is the final's verdict
+  tournament?: Tournament;
+  usage: AgentCallUsage[];
+  // Work cut short or skipped to stay within the budget
+  budgetNotes: string[];
+  error?: APIError;
+}
+
+const PlannerResultSchema = z.object({
+  plan: ComparisonPlanSchema.optional(),
+  clarifications: z.array(ClarificationQuestionSchema).optional(),
+  usage: z.unknown(),
+});
+
+// Structured evidence streamed after an advocate's argument
+const AdvocateEvidenceSchema = AdvocateResponseSchema.pick({ sources: true, weaknesses: true });
+
+// Typed challenges streamed after a cross-examination
+const CrossExamChallengesSchema = CrossExamineResponseSchema.pick({ challenges: true });
+
+/**
+ * Agent caller that POSTs to the agent routes over HTTP
+ */
+export function createHttpAgentCaller(baseUrl = "", init: RequestInit = {}): AgentCaller {
+  return (endpoint, body) =>
+    fetch(`${baseUrl}/api/${endpoint}`, {
+      ...init,
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...init.headers },
+      body: JSON.stringify(body),
+    });
+}
+
+/**
+ * Call an agent route, throwing its APIError when the request fails
+ */
+async function requestAgent(callAgent: AgentCaller, endpoint: AgentEndpoint, body: Record<string, unknown>) {
+  const response = await callAgent(endpoint, body);
+  if (response.ok) return response;
+
+  const data: unknown = await response.json().catch(() => undefined);
+  throw isAPIError(data) ? data : createAgentError(`${endpoint} returned ${response.status}`);
+}
+
+/**
+ * Most specific message for a failed agent, recorded on its response
+ */
+function describeError(err: unknown, context: string): string {
+  const error = parseError(err, context);
+  return error.details ?? error.error;
+}
+
+/**
+ * Run a full debate for a query
+ * Advocate and cross-examiner failures are handled by the failure policy - by default they are recorded
+ * on their responses and the debate continues; planner and referee failures end it with an error event
+ * With `reviewPlan`, it stops after planning until the plan comes back as `planApproval`;
+ * with `resume`, the planner is skipped and only failed or missing advocates, cross-examiners and rebuttal rounds run again
+ * With `rounds` above 1, advocates rebut the challenges against them and are cross-examined again before the verdict
+ * Plans with more than MAX_DEBATE_OPTIONS options are played as a tournament of group debates, one round per match
+ */
+export async function runDebate(options: RunDebateOptions): Promise<DebateResult> {
+  const { query, clarifications, agents = {}, credentials = {}, maxParallelism = 2, callAgent, onEvent, budget, resume, reviewPlan, planApproval } = options;
+  const failurePolicy: AgentFailurePolicy = options.failurePolicy ?? { action: "proceed" };
+  const prices = options.prices ?? DEFAULT_PRICE_TABLE;
+  const sessionId = options.sessionId ?? "debate";
+  const emit = (event: DebateEvent) => onEvent?.(event);
+
+  const debate: DebateResult = {
+    status: "complete",
+    arguments: [],
+    crossExaminations: [],
+    rounds: [],
+    usage: [],
+    budgetNotes: [],
+  };
+
+  // Common fields for every agent request of a role
+  const agentBody = (role: AgentRole): Record<string, unknown> => {
+    const config: DebateAgentConfig = agents[role] ?? {};
+    return { ...credentials, ...config, sessionId };
+  };
+
+  const noteBudget = (note: string) => {
+    debate.budgetNotes.push(note);
+    emit({ type: "budget", note });
+  };
+
+  // Agents report their usage alongside their output; older routes may not
+  const recordUsage = (role: AgentRole, option: string | undefined, data: unknown) => {
+    const report = AgentUsageReportSchema.safeParse(data);
+    if (!report.success) return;
+    const call: AgentCallUsage = { role, option, ...report.data };
+    debate.usage.push(call);
+    emit({ type: "usage", ...call });
+    if (call.budgetLimited) noteBudget(BUDGET_LIMIT_NOTES[role](option));
+  };
+
+  // Budget for each of `count` agents of a role: its phase's share of what is left
+  // Research is the optional part - once the budget is spent agents still answer, but without tools
+  const agentBudget = (role: AgentRole, count: number): AgentBudget | undefined => {
+    if (!budget) return undefined;
+    const spent = summarizeUsage(debate.usage, prices);
+    if (isBudgetExhausted(budget, spent)) return { maxSearchCalls: 0 };
+
+    const remaining = BUDGET_SHARES.slice(BUDGET_SHARES.findIndex(([r]) => r === role));
+    const share = remaining[0][1] / remaining.reduce((sum, [, weight]) => sum + weight, 0) / count;
+    return {
+      ...shareBudget(budget, spent, share),
+      prices: budget.maxCostUsd !== undefined ? prices : undefined,
+    };
+  };
+
+  // Run an advocate or cross-examiner, trying again on retryable failures as the policy allows
+  const attemptAgent = async <T>(role: AgentRole, option: string, run: () => Promise<T>, round?: number): Promise<T> => {
+    const attempts = failurePolicy.action === "retry" ? failurePolicy.attempts + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (err) {
+        const error = parseError(err, role);
+        if (attempt >= attempts || !error.retryable) throw err;
+        emit({ type: "retry", role, option, round, attempt: attempt + 1, error: error.details ?? error.error });
+      }
+    }
+  };
+
+  const fail = (err: unknown, context: string): DebateResult => {
+    const error = parseError(err, context);
+    emit({ type: "error", error, context });
+    emit({ type: "phase", phase: "error" });
+    return { ...debate, status: "error", error };
+  };
+
+  // Under the "abort" policy, the first failed response of a phase ends the debate
+  const abortOnFailure = (responses: { option: string; error?: string }[], describe: (option: string) => string) => {
+    const failed = failurePolicy.action === "abort" ? responses.find((r) => r.error) : undefined;
+    return failed ? fail(createAgentError(`${describe(failed.option)}: ${failed.error}`), "Debate") : undefined;
+  };
+
+  // Planning, unless resuming from an earlier plan or continuing from a reviewed one
+  let plan: ComparisonPlan;
+  if (resume) {
+    plan = resume.plan;
+    debate.plan = plan;
+  } else if (planApproval) {
+    if (planApproval.approval !== APPROVAL.YES) {
+      return fail(createAgentError("The comparison plan was not approved"), "Planner");
+    }
+    plan = planApproval.plan;
+    debate.plan = plan;
+    emit({ type: "plan", plan });
+  } else {
+    emit({ type: "phase", phase: "planning" });
+    emit({ type: "agent-start", role: "planner" });
+    try {
+      const response = await requestAgent(callAgent, AGENT_ENDPOINTS.planner, {
+        ...agentBody("planner"),
+        budget: agentBudget("planner", 1),
+        query,
+        clarifications,
+        maxOptions: options.maxOptions,
+      });
+      const planner = PlannerResultSchema.parse(await response.json());
+      recordUsage("planner", undefined, planner.usage);
+
+      if (planner.clarifications?.length) {
+        emit({ type: "clarifications", questions: planner.clarifications });
+        emit({ type: "phase", phase: "clarifying" });
+        return { ...debate, status: "clarifying", clarifications: planner.clarifications };
+      }
+      if (!planner.plan) {
+        throw createAgentError("The planner did not return a plan or clarification questions");
+      }
+
+      plan = planner.plan;
+      debate.plan = plan;
+      if (reviewPlan) {
+        emit({ type: "plan-review", plan, confirmation: planConfirmation(plan) });
+        emit({ type: "phase", phase: "reviewing" });
+        return { ...debate, status: "reviewing" };
+      }
+      emit({ type: "plan", plan });
+    } catch (err) {
+      return fail(err, "Planner");
+    }
+  }
+
+  // A resumed debate keeps every successful response; which cross-examiners rerun
+  // depends on the saved arguments, so it is settled before any advocate reruns
+  const advocateOptions = resume ? advocatesToRerun(resume) : plan.options;
+  const crossExaminerOptions = resume ? crossExaminersToRerun(resume) : plan.options;
+
+  // Advocates, batched by maxParallelism
+  emit({ type: "phase", phase: "advocating" });
+  const advocateBudget = agentBudget("advocate", advocateOptions.length);
+  const advocates = await executeInParallel({
+    items: advocateOptions,
+    maxParallelism,
+    executor: async (option): Promise<AdvocateResponse> => {
+      emit({ type: "agent-start", role: "advocate", option });
+      try {
+        return await attemptAgent("advocate", option, async () => {
+          const response = await requestAgent(callAgent, AGENT_ENDPOINTS.advocate, {
+            ...agentBody("advocate"),
+            budget: advocateBudget,
+            option,
+            plan,
+          });
+          const { text, data } = await readAgentStream(response, {
+            onText: (_, delta) => emit({ type: "agent-text", role: "advocate", option, delta }),
+          });
+          const evidence = AdvocateEvidenceSchema.safeParse(data.advocate);
+          recordUsage("advocate", option, data.usage);
+
+          return {
+            option,
+            argument: text,
+            sources: evidence.success ? evidence.data.sources : [],
+            weaknesses: evidence.success ? evidence.data.weaknesses : [],
+          };
+        });
+      } catch (err) {
+        return {
+          option,
+          argument: `Error: Could not complete research for ${option}`,
+          sources: [],
+          weaknesses: [],
+          error: describeError(err, "Advocate"),
+        };
+      }
+    },
+    onItemComplete: (_, response) => emit({ type: "advocate", response }),
+  });
+  debate.arguments = mergeByOption(plan.options, advocates.results, resume?.arguments);
+  const advocateAbort = abortOnFailure(advocates.results, (option) => `Research for ${option} failed`);
+  if (advocateAbort) return advocateAbort;
+
+  // Cross-examiners for the arguments in `field`, each challenging every other one
+  // `round` is set for the cross-examinations after a rebuttal round
+  const crossExamine = async (
+    fieldPlan: ComparisonPlan,
+    field: AdvocateResponse[],
+    rerun: string[],
+    budgetCount: number,
+    round?: number
+  ) => {
+    emit({ type: "phase", phase: "cross-examining" });
+    const crossExaminerBudget = agentBudget("cross-examiner", budgetCount);
+    const crossExaminers = await executeInParallel({
+      items: field.filter((a) => rerun.includes(a.option)),
+      maxParallelism,
+      executor: async (ownArgument): Promise<CrossExamineResponse> => {
+        const { option } = ownArgument;
+        emit({ type: "agent-start", role: "cross-examiner", option, round });
+        try {
+          return await attemptAgent("cross-examiner", option, async () => {
+            const response = await requestAgent(callAgent, AGENT_ENDPOINTS["cross-examiner"], {
+              ...agentBody("cross-examiner"),
+              budget: crossExaminerBudget,
+              option,
+              ownArgument,
+              opponentArguments: field.filter((a) => a.option !== option),
+              plan: fieldPlan,
+            });
+            const { text, data } = await readAgentStream(response, {
+              onText: (_, delta) => emit({ type: "agent-text", role: "cross-examiner", option, round, delta }),
+            });
+            const ledger = CrossExamChallengesSchema.safeParse(data["cross-examination"]);
+            recordUsage("cross-examiner", option, data.usage);
+
+            return {
+              option,
+              challenges: ledger.success ? ledger.data.challenges : [],
+              defense: text,
+            };
+          }, round);
+        } catch (err) {
+          return {
+            option,
+            challenges: [],
+            defense: "Error: Could not complete cross-examination",
+            error: describeError(err, "Cross-examiner"),
+          };
+        }
+      },
+      onItemComplete: (_, response) => emit({ type: "cross-examination", response, round }),
+    });
+    return crossExaminers.results;
+  };
+
+  // Rebuttals to the challenges from the previous round, one per argument in `field`
+  // Rebuttals share the cross-examiners' budget, since both belong to the debate phase
+  const rebut = async (
+    field: AdvocateResponse[],
+    crossExaminations: CrossExamineResponse[],
+    round: number,
+    budgetCount: number
+  ) => {
+    emit({ type: "phase", phase: "rebutting" });
+    const rebuttalBudget = agentBudget("cross-examiner", budgetCount);
+    const rebuttals = await executeInParallel({
+      items: field,
+      maxParallelism,
+      executor: async (ownArgument): Promise<AdvocateResponse> => {
+        const { option } = ownArgument;
+        const challenges = crossExaminations.flatMap((ce) => ce.challenges.filter((c) => c.targetOption === option));
+        emit({ type: "agent-start", role: "advocate", option, round });
+        try {
+          return await attemptAgent("advocate", option, async () => {
+            const response = await requestAgent(callAgent, AGENT_ENDPOINTS.advocate, {
+              ...agentBody("advocate"),
+              budget: rebuttalBudget,
+              option,
+              plan,
+              rebuttal: { round, ownArgument, challenges },
+            });
+            const { text, data } = await readAgentStream(response, {
+              onText: (_, delta) => emit({ type: "agent-text", role: "advocate", option, round, delta }),
+            });
+            const evidence = AdvocateEvidenceSchema.safeParse(data.advocate);
+            recordUsage("advocate", option, data.usage);
+
+            return {
+              option,
+              argument: text,
+              sources: evidence.success ? evidence.data.sources : [],
+              weaknesses: evidence.success ? evidence.data.weaknesses : ownArgument.weaknesses,
+            };
+          }, round);
+        } catch (err) {
+          return {
+            option,
+            argument: `Error: Could not complete the rebuttal for ${option}`,
+            sources: [],
+            weaknesses: [],
+            error: describeError(err, "Advocate"),
+          };
+        }
+      },
+      onItemComplete: (_, response) => emit({ type: "rebuttal", response, round }),
+    });
+    return rebuttals.results;
+  };
+
+  // Referee verdict on the arguments in `field`; throws when the referee fails
+  const referee = async (
+    fieldPlan: ComparisonPlan,
+    field: AdvocateResponse[],
+    crossExaminations: CrossExamineResponse[],
+    budgetCount: number
+  ) => {
+    emit({ type: "phase", phase: "refereeing" });
+    emit({ type: "agent-start", role: "referee" });
+    const response = await requestAgent(callAgent, AGENT_ENDPOINTS.referee, {
+      ...agentBody("referee"),
+      budget: agentBudget("referee", budgetCount),
+      plan: fieldPlan,
+      arguments: field,
+      crossExaminations,
+      rounds: debate.rounds.length > 0 ? debate.rounds : undefined,
+    });
+    const { text, data } = await readAgentStream(response, {
+      onText: (_, delta) => emit({ type: "agent-text", role: "referee", delta }),
+    });
+
+    const verdict = RefereeResponseSchema.safeParse(data.verdict);
+    recordUsage("referee", undefined, data.usage);
+    if (!verdict.success) {
+      throw createAgentError("The referee did not return a structured verdict");
+    }
+    return { result: verdict.data, text };
+  };
+
+  // Flag a verdict reached on a reduced debate
+  const finishVerdict = (result: RefereeResponse, text: string) => {
+    debate.result =
+      debate.budgetNotes.length > 0
+        ? { ...result, caveats: [`Budget-limited: ${debate.budgetNotes.join("; ")}`, ...result.caveats] }
+        : result;
+    debate.verdictText = text;
+    emit({ type: "verdict", result: debate.result, text });
+  };
+
+  if (!isTournament(plan)) {
+    // Finished rounds still answer the same challenges when every cross-examination is kept;
+    // a missing or failed round is played again, along with every round after it
+    const kept = resume ? keptRounds(resume) : [];
+    const rounds = Math.max(options.rounds ?? 1, kept.length + 1);
+    // Every later round adds a rebuttal and a cross-examination per option
+    let debateCalls = crossExaminerOptions.length + (rounds - 1 - kept.length) * 2 * plan.options.length;
+
+    const crossExaminations = await crossExamine(plan, debate.arguments, crossExaminerOptions, debateCalls);
+    debateCalls -= crossExaminations.length;
+    debate.crossExaminations = mergeByOption(plan.options, crossExaminations, resume?.crossExaminations);
+    const crossExamAbort = abortOnFailure(crossExaminations, (option) => `Cross-examination by ${option} failed`);
+    if (crossExamAbort) return crossExamAbort;
+
+    // A failed rebuttal leaves the option's previous argument standing for the next cross-examination
+    const standing = (field: AdvocateResponse[], rebuttals: AdvocateResponse[]) =>
+      field.map((argument) => rebuttals.find((r) => r.option === argument.option && !r.error) ?? argument);
+    let field = debate.arguments;
+    let challenges = debate.crossExaminations;
+    for (const round of kept) {
+      field = standing(field, round.rebuttals);
+      challenges = round.crossExaminations;
+    }
+    debate.rounds = [...kept];
+
+    for (let round = kept.length + 2; round <= rounds; round++) {
+      const rebuttals = await rebut(field, challenges, round, debateCalls);
+      debateCalls -= rebuttals.length;
+      const rebuttalAbort = abortOnFailure(rebuttals, (option) => `Rebuttal for ${option} failed`);
+      if (rebuttalAbort) return rebuttalAbort;
+      field = standing(field, rebuttals);
+
+      const roundCrossExaminations = await crossExamine(plan, field, plan.options, debateCalls, round);
+      debateCalls -= roundCrossExaminations.length;
+      debate.rounds.push({ round, rebuttals, crossExaminations: roundCrossExaminations });
+      const roundAbort = abortOnFailure(roundCrossExaminations, (option) => `Cross-examination by ${option} failed`);
+      if (roundAbort) return roundAbort;
+      challenges = roundCrossExaminations;
+    }
+
+    try {
+      const { result, text } = await referee(plan, debate.arguments, debate.crossExaminations, 1);
+      finishVerdict(result, text);
+    } catch (err) {
+      return fail(err, "Referee");
+    }
+
+    emit({ type: "phase", phase: "complete" });
+    return debate;
+  }
+
+  // Tournament: groups debate among themselves and each group's winner advances,
+  // until a final of at most MAX_DEBATE_OPTIONS is ranked by the last referee
+  // Budget shares are recomputed for every match from what the earlier ones left
+  const tournament: Tournament = { matches: [] };
+  debate.tournament = tournament;
+  const remaining = countTournamentCalls(plan.options.length);
+  let entrants = plan.options;
+
+  for (let round = 1; ; round++) {
+    const groups = isTournament({ options: entrants }) ? groupOptions(entrants) : [entrants];
+    const final = groups.length === 1;
+    const winners: string[] = [];
+
+    for (const [index, options] of groups.entries()) {
+      const match: TournamentMatch = { id: `round-${round}-match-${index + 1}`, round, options };
+      tournament.matches.push(match);
+      emit({ type: "match", match });
+
+      const field = debate.arguments.filter((a) => options.includes(a.option));
+      const crossExaminations = await crossExamine(matchPlan(plan, options), field, options, remaining.crossExaminations);
+      remaining.crossExaminations -= crossExaminations.length;
+      debate.crossExaminations = mergeByOption(plan.options, crossExaminations, debate.crossExaminations);
+      const crossExamAbort = abortOnFailure(crossExaminations, (option) => `Cross-examination by ${option} failed`);
+      if (crossExamAbort) return crossExamAbort;
+
+      try {
+        const { result, text } = await referee(matchPlan(plan, options), field, crossExaminations, remaining.referees--);
+        const ranking = rankMatch(result, plan.axes, options);
+        const played: TournamentMatch = { ...match, ranking, result };
+        tournament.matches[tournament.matches.length - 1] = played;
+        emit({ type: "match", match: played });
+        winners.push(ranking[0]);
+        if (final) finishVerdict(result, text);
+      } catch (err) {
+        return fail(err, "Referee");
+      }
+    }
+
+    if (final) break;
+    entrants = winners;
+  }
+
+  emit({ type: "phase", phase: "complete" });
+  return debate;
+}
@@ -0,0 +1,154 @@
+/**
+ * Debate Resume
+ * Decides which parts of a failed debate are kept and which agents run again
+ * Client-safe: the chat and session history use it to offer a Resume action
+ */
+import type { ComparisonPlan, ComparisonSession, DebateResume, DebateRound, SessionFork } from "@/lib/types";
+import { isTournament } from "./tournament";
+
+// Phase a resumed debate restarts from
+export type ResumePhase = "advocating" | "cross-examining" | "rebutting" | "refereeing";
+
+export interface ResumePoint {
+  resume: DebateResume;
+  phase: ResumePhase;
+  // Options whose agents run again in that phase; empty when only the referee reruns
+  options: string[];
+  // Rounds the resumed debate plays, counting the opening round
+  rounds: number;
+}
+
+// Options a resume may rerun: all of them, or just the ones picked for a retry
+function retryable({ plan, retryOptions }: DebateResume): string[] {
+  return retryOptions ? plan.options.filter((option) => retryOptions.includes(option)) : plan.options;
+}
+
+/**
+ * Options without a successful argument
+ */
+export function advocatesToRerun(resume: DebateResume): string[] {
+  return retryable(resume).filter(
+    (option) => !resume.arguments?.some((a) => a.option === option && !a.error)
+  );
+}
+
+/**
+ * Options without a successful cross-examination
+ * Every option reruns when any argument does - each cross-examination challenges all opponents
+ * Tournaments replay every match, since who meets whom depends on earlier results
+ */
+export function crossExaminersToRerun(resume: DebateResume): string[] {
+  if (advocatesToRerun(resume).length > 0 || isTournament(resume.plan)) return resume.plan.options;
+  return retryable(resume).filter(
+    (option) => !resume.crossExaminations?.some((c) => c.option === option && !c.error)
+  );
+}
+
+// Every option rebutted and was cross-examined again without an error
+function isRoundFinished(round: DebateRound, options: string[]): boolean {
+  const answered = (responses: { option: string; error?: string }[]) =>
+    options.every((option) => responses.some((r) => r.option === option && !r.error));
+  return answered(round.rebuttals) && answered(round.crossExaminations);
+}
+
+/**
+ * Saved rebuttal rounds a resumed debate keeps: the finished ones before the first missing or failed round
+ * None are kept when a cross-examination runs again, since the rounds answer its challenges
+ */
+export function keptRounds(resume: DebateResume): DebateRound[] {
+  if (crossExaminersToRerun(resume).length > 0) return [];
+  const kept: DebateRound[] = [];
+  for (const round of [...(resume.rounds ?? [])].sort((a, b) => a.round - b.round)) {
+    if (round.round !== kept.length + 2 || !isRoundFinished(round, resume.plan.options)) break;
+    kept.push(round);
+  }
+  return kept;
+}
+
+/**
+ * Rounds a session was asked to play; sessions saved before the count was recorded played every saved round
+ */
+export function sessionRoundCount(session: Pick<ComparisonSession, "roundCount" | "rounds">): number {
+  return session.roundCount ?? (session.rounds?.length ?? 0) + 1;
+}
+
+/**
+ * Where a failed session can pick up again, or undefined when it has no plan to resume from
+ */
+export function findResumePoint(
+  session: Pick<ComparisonSession, "status" | "plan" | "arguments" | "crossExaminations" | "rounds" | "roundCount">
+): ResumePoint | undefined {
+  if (session.status !== "error" || !session.plan) return undefined;
+
+  const resume: DebateResume = {
+    plan: session.plan,
+    arguments: session.arguments,
+    crossExaminations: session.crossExaminations,
+    rounds: session.rounds,
+  };
+  const rounds = sessionRoundCount(session);
+
+  const advocates = advocatesToRerun(resume);
+  if (advocates.length > 0) return { resume, phase: "advocating", options: advocates, rounds };
+
+  const crossExaminers = crossExaminersToRerun(resume);
+  if (crossExaminers.length > 0) return { resume, phase: "cross-examining", options: crossExaminers, rounds };
+
+  // Tournaments play a single round per match
+  if (!isTournament(session.plan) && keptRounds(resume).length + 1 < rounds) {
+    return { resume, phase: "rebutting", options: session.plan.options, rounds };
+  }
+
+  return { resume, phase: "refereeing", options: [], rounds };
+}
+
+/**
+ * The saved work a fork re-judges under its changed plan
+ * A tournament replays its matches anyway, so it keeps only the research
+ */
+export function forkResume(
+  session: Pick<ComparisonSession, "arguments" | "crossExaminations" | "rounds">,
+  plan: ComparisonPlan,
+  rerun: SessionFork["rerun"]
+): DebateResume {
+  if (rerun === "cross-examination" || isTournament(plan)) return { plan, arguments: session.arguments };
+  return { plan, arguments: session.arguments, crossExaminations: session.crossExaminations, rounds: session.rounds };
+}
+
+/**
+ * Saved responses a resumed debate keeps - those for options that do not run again
+ */
+export function keptResponses<T extends { option: string }>(saved: T[] | undefined, rerun: string[]): T[] {
+  return (saved ?? []).filter((response) => !rerun.includes(response.option));
+}
+
+const RESUME_STEPS: Record<ResumePhase, string> = {
+  advocating: "research",
+  "cross-examining": "cross-examination",
+  rebutting: "rebuttals",
+  refereeing: "the verdict",
+};
+
+/**
+ * What resuming will run, e.g. "research for React, Vue", "rebuttals from round 3" or "the verdict"
+ */
+export function describeResumePoint(point: ResumePoint): string {
+  if (point.phase === "rebutting") return `${RESUME_STEPS.rebutting} from round ${keptRounds(point.resume).length + 2}`;
+  const step = RESUME_STEPS[point.phase];
+  return point.options.length > 0 ? `${step} for ${point.options.join(", ")}` : step;
+}
+
+/**
+ * One response per option in plan order: a fresh one, else the saved one
+ */
+export function mergeByOption<T extends { option: string }>(
+  options: string[],
+  fresh: T[],
+  saved: T[] = []
+): T[] {
+  return options.flatMap((option) => {
+    const response =
+      fresh.find((r) => r.option === option) ?? saved.find((r) => r.option === option);
+    return response ? [response] : [];
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Debate Sessions
+ * Converts a finished runDebate() result into a ComparisonSession with its transcript
+ */
+import {
+  DEFAULT_MODEL,
+  type ClarificationQuestion,
+  type ComparisonSession,
+  type DebateRequest,
+  type SessionStatus,
+  type TranscriptEntry,
+} from "@/lib/types";
+import type { DebateResult } from "./orchestrator";
+
+export interface DebateSessionOptions {
+  id?: string;
+  createdAt?: Date;
+  clarifications?: DebateRequest["clarifications"];
+  // The questions those answers respond to, recorded with each answer
+  questions?: ClarificationQuestion[];
+  agents?: DebateRequest["agents"];
+  // Rounds the debate was asked to play, so a failed one resumes the rounds it is missing
+  rounds?: DebateRequest["rounds"];
+}
+
+const SESSION_STATUS: Record<DebateResult["status"], SessionStatus> = {
+  complete: "complete",
+  // Sessions have no clarifying status; the debate stopped before a plan
+  clarifying: "planning",
+  // Nor a reviewing one; the plan is waiting for approval
+  reviewing: "planning",
+  error: "error",
+};
+
+/**
+ * The model the referee ran on: as its route reported it, else as configured
+ * Mock runs and runs without a model override still record what was used
+ */
+function refereeModel(debate: DebateResult, options: DebateSessionOptions): string {
+  const reported = debate.usage.findLast((call) => call.role === "referee" && call.model)?.model;
+  return reported ?? options.agents?.referee?.model ?? DEFAULT_MODEL;
+}
+
+/**
+ * Build the session a debate would have produced in the UI
+ */
+export function createDebateSession(
+  query: string,
+  debate: DebateResult,
+  options: DebateSessionOptions = {}
+): ComparisonSession {
+  const createdAt = options.createdAt ?? new Date();
+  const completedAt = new Date();
+  const entries: Omit<TranscriptEntry, "id" | "timestamp">[] = [
+    { type: "user_query", content: query },
+  ];
+
+  for (const [questionId, answer] of Object.entries(options.clarifications ?? {})) {
+    entries.push({
+      type: "clarification_answer",
+      content: Array.isArray(answer) ? answer.join(", ") : answer,
+      metadata: {
+        questionId,
+        question: options.questions?.find((q) => q.id === questionId)?.question,
+        answerType: Array.isArray(answer) ? "multi" : "single",
+      },
+    });
+  }
+
+  for (const question of debate.clarifications ?? []) {
+    entries.push({
+      type: "clarification_question",
+      content: question.question,
+      metadata: {
+        questionId: question.id,
+        questionType: question.type,
+        options: question.options,
+        allowCustom: question.allowCustom,
+      },
+    });
+  }
+
+  if (debate.plan) {
+    entries.push({
+      type: "planning_result",
+      content: `Comparison plan created for: ${debate.plan.options.join(", ")}`,
+      metadata: {
+        options: debate.plan.options,
+        axes: debate.plan.axes,
+        constraints: debate.plan.constraints,
+        agent: { role: "planner", ...options.agents?.planner },
+      },
+    });
+  }
+
+  for (const response of debate.arguments) {
+    entries.push({
+      type: "advocate_argument",
+      content: response.argument,
+      metadata: {
+        option: response.option,
+        sources: response.sources,
+        weaknesses: response.weaknesses,
+        hasError: !!response.error,
+        agent: { role: "advocate", ...options.agents?.advocate },
+      },
+    });
+  }
+
+  for (const response of debate.crossExaminations) {
+    entries.push({
+      type: "cross_examination",
+      content: response.defense,
+      metadata: {
+        option: response.option,
+        challenges: response.challenges,
+        hasError: !!response.error,
+        agent: { role: "cross-examiner", ...options.agents?.["cross-examiner"] },
+      },
+    });
+  }
+
+  for (const { round, rebuttals, crossExaminations } of debate.rounds) {
+    for (const response of rebuttals) {
+      entries.push({
+        type: "advocate_rebuttal",
+        content: response.argument,
+        metadata: {
+          round,
+          option: response.option,
+          sources: response.sources,
+          weaknesses: response.weaknesses,
+          hasError: !!response.error,
+          agent: { role: "advocate", ...options.agents?.advocate },
+        },
+      });
+    }
+    for (const response of crossExaminations) {
+      entries.push({
+        type: "rebuttal_cross_examination",
+        content: response.defense,
+        metadata: {
+          round,
+          option: response.option,
+          challenges: response.challenges,
+          hasError: !!response.error,
+          agent: { role: "cross-examiner", ...options.agents?.["cross-examiner"] },
+        },
+      });
+    }
+  }
+
+  // Every match but the final, whose verdict follows
+  for (const match of debate.tournament?.matches.slice(0, -1) ?? []) {
+    if (!match.ranking) continue;
+    entries.push({
+      type: "system_message",
+      content: `Round ${match.round}: ${match.ranking[0]} advances over ${match.ranking.slice(1).join(", ")}`,
+      metadata: { matchId: match.id, ranking: match.ranking },
+    });
+  }
+
+  if (debate.result) {
+    entries.push({
+      type: "referee_verdict",
+      content: debate.verdictText ?? debate.result.summary,
+      metadata: {
+        recommendation: debate.result.recommendation,
+        scores: debate.result.scores,
+        tradeoffs: debate.result.tradeoffs,
+        caveats: debate.result.caveats,
+        extractionError: debate.result.error,
+        agent: { role: "referee", ...options.agents?.referee },
+      },
+    });
+  }
+
+  if (debate.error) {
+    entries.push({
+      type: "error",
+      content: debate.error.error,
+      metadata: { code: debate.error.code, details: debate.error.details, retryable: debate.error.retryable },
+    });
+  }
+
+  return {
+    id: options.id ?? crypto.randomUUID(),
+    query,
+    createdAt,
+    status: SESSION_STATUS[debate.status],
+    plan: debate.plan,
+    arguments: debate.arguments.length > 0 ? debate.arguments : undefined,
+    crossExaminations: debate.crossExaminations.length > 0 ? debate.crossExaminations : undefined,
+    rounds: debate.rounds.length > 0 ? debate.rounds : undefined,
+    roundCount: options.rounds,
+    result: debate.result,
+    tournament: debate.tournament,
+    transcript: {
+      entries: entries.map((entry, index) => ({
+        ...entry,
+        id: `entry-${index}`,
+        timestamp: index === 0 ? createdAt : completedAt,
+      })),
+      startedAt: createdAt,
+      completedAt: debate.status === "complete" ? completedAt : undefined,
+    },
+    model: debate.result ? refereeModel(debate, options) : undefined,
+    usage: debate.usage.length > 0 ? debate.usage : undefined,
+    budgetNotes: debate.budgetNotes.length > 0 ? debate.budgetNotes : undefined,
+    error: debate.error?.error,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Debate Tournaments
+ * Brackets for plans with more options than a single debate can argue
+ * Client-safe: the chat draws the bracket from the same helpers
+ */
+import {
+  MAX_DEBATE_OPTIONS,
+  type ComparisonAxis,
+  type ComparisonPlan,
+  type RefereeResponse,
+  type TournamentMatch,
+} from "@/lib/types";
+import { computeWeightedTotals, matchName, rankOptions } from "@/lib/utils/scoring";
+
+/**
+ * Whether a plan is debated as a tournament instead of a single debate
+ */
+export function isTournament(plan: Pick<ComparisonPlan, "options">): boolean {
+  return plan.options.length > MAX_DEBATE_OPTIONS;
+}
+
+/**
+ * Split options into the fewest groups of at most MAX_DEBATE_OPTIONS, in plan order
+ * Group sizes differ by at most one, so 4 options play 2 + 2 rather than 3 + 1
+ */
+export function groupOptions(options: string[]): string[][] {
+  const count = Math.ceil(options.length / MAX_DEBATE_OPTIONS);
+  const size = Math.floor(options.length / count);
+  const larger = options.length % count;
+
+  const groups: string[][] = [];
+  let start = 0;
+  for (let i = 0; i < count; i++) {
+    const end = start + size + (i < larger ? 1 : 0);
+    groups.push(options.slice(start, end));
+    start = end;
+  }
+  return groups;
+}
+
+/**
+ * Cross-examinations and referee verdicts a tournament of `entrants` options takes
+ */
+export function countTournamentCalls(entrants: number): { crossExaminations: number; referees: number } {
+  if (entrants <= MAX_DEBATE_OPTIONS) return { crossExaminations: entrants, referees: 1 };
+  const groups = Math.ceil(entrants / MAX_DEBATE_OPTIONS);
+  const next = countTournamentCalls(groups);
+  return { crossExaminations: entrants + next.crossExaminations, referees: groups + next.referees };
+}
+
+/**
+ * The plan a single match is debated on - the full plan narrowed to the match's options
+ */
+export function matchPlan(plan: ComparisonPlan, options: string[]): ComparisonPlan {
+  return {
+    ...plan,
+    options,
+    assignments: plan.assignments.filter((a) => options.includes(a.option)),
+  };
+}
+
+/**
+ * Rank a match's options: the referee's recommendation first, then by weighted score
+ */
+export function rankMatch(result: RefereeResponse, axes: ComparisonAxis[], options: string[]): string[] {
+  const byScore = rankOptions(computeWeightedTotals(result.scores, axes, options));
+  const winner = matchName(result.recommendation.option, options) ?? byScore[0];
+  return [winner, ...byScore.filter((option) => option !== winner)];
+}
+
+/**
+ * Matches grouped by round, first round first
+ */
+export function tournamentRounds(matches: TournamentMatch[]): TournamentMatch[][] {
+  const rounds: TournamentMatch[][] = [];
+  for (const match of matches) {
+    (rounds[match.round - 1] ??= []).push(match);
+  }
+  return rounds.filter(Boolean);
+}
+
+/**
+ * Whether a match is the final - the first round whose entrants fit one debate
+ */
+export function isFinalMatch(matches: TournamentMatch[], match: TournamentMatch): boolean {
+  const previous = matches.filter((m) => m.round === match.round - 1).length;
+  return match.round > 1 && previous <= MAX_DEBATE_OPTIONS;
+}
@@ -5,7 +5,17 @@
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { ComparisonSession, SessionStatus, Transcript, TranscriptEntry } from "@/lib/types/schemas";
+import type {
+  AgentCallUsage,
+  ComparisonPlan,
+  ComparisonSession,
+  FollowUp,
+  SessionFork,
+  SessionStatus,
+  Transcript,
+  TranscriptEntry,
+} from "@/lib/types/schemas";
+import { forkResume } from "@/lib/debate/resume";
 
 /**
  * Phases that can be completed before an error
@@ -19,11 +29,32 @@ export interface PartialSession extends ComparisonSession {
   completedPhases?: CompletedPhase[];
 }
 
+// Transcript entries a fork copies from its parent, by what it reruns
+const FORK_KEPT_ENTRIES: Record<SessionFork["rerun"], TranscriptEntry["type"][]> = {
+  "cross-examination": ["user_query", "clarification_question", "clarification_answer", "planning_result", "advocate_argument"],
+  referee: [
+    "user_query",
+    "clarification_question",
+    "clarification_answer",
+    "planning_result",
+    "advocate_argument",
+    "cross_examination",
+    "advocate_rebuttal",
+    "rebuttal_cross_examination",
+  ],
+};
+
 interface SessionState {
   sessions: PartialSession[];
   currentSessionId: string | null;
 
   createSession: (query: string) => string;
+
+  /**
+   * Copy a session's research into a new session with a changed plan, ready to be re-judged
+   * Returns the new session's id, or undefined when the session has no plan
+   */
+  forkSession: (id: string, plan: ComparisonPlan, rerun: SessionFork["rerun"]) => string | undefined;
   updateSession: (id: string, data: Partial<PartialSession>) => void;
   deleteSession: (id: string) => void;
   getSession: (id: string) => PartialSession | undefined;
@@ -50,6 +81,16 @@ interface SessionState {
    */
   addTranscriptEntry: (id: string, entry: Omit<TranscriptEntry, "id" | "timestamp">) => void;
 
+  /**
+   * Record the usage of one agent call on a session
+   */
+  addUsage: (id: string, call: AgentCallUsage) => void;
+
+  /**
+   * Append a follow-up to a session, making its updated verdict the session's result
+   */
+  addFollowUp: (id: string, followUp: FollowUp) => void;
+
   /**
    * Get the transcript for a session
    */
@@ -93,6 +134,47 @@ export const useSessionStore = create<SessionState>()(
         return id;
       },
 
+      forkSession: (id: string, plan: ComparisonPlan, rerun: SessionFork["rerun"]) => {
+        const parent = get().getSession(id);
+        if (!parent?.plan) return undefined;
+
+        const forkId = crypto.randomUUID();
+        const now = new Date();
+        const kept = forkResume(parent, plan, rerun);
+        // The transcript keeps the work that is reused, so it still reads start to finish
+        const keptTypes = FORK_KEPT_ENTRIES[kept.crossExaminations ? "referee" : "cross-examination"];
+        const session: PartialSession = {
+          id: forkId,
+          query: parent.query,
+          createdAt: now,
+          status: "pending",
+          plan,
+          arguments: kept.arguments,
+          crossExaminations: kept.crossExaminations,
+          rounds: kept.rounds,
+          fork: { sessionId: id, rerun },
+          completedPhases: kept.crossExaminations ? ["planning", "advocating", "cross-examining"] : ["planning", "advocating"],
+          transcript: {
+            entries: [
+              ...(parent.transcript?.entries.filter((e) => keptTypes.includes(e.type)) ?? []),
+              {
+                id: crypto.randomUUID(),
+                timestamp: now,
+                type: "system_message",
+                content: "Forked with changed constraints",
+                metadata: { forkedFrom: id, rerun, constraints: plan.constraints },
+              },
+            ],
+            startedAt: now,
+          },
+        };
+        set((state) => ({
+          sessions: [session, ...state.sessions],
+          currentSessionId: forkId,
+        }));
+        return forkId;
+      },
+
       updateSession: (id: string, data: Partial<PartialSession>) => {
         set((state) => ({
           sessions: state.sessions.map((s) =>
@@ -189,6 +271,24 @@ export const useSessionStore = create<SessionState>()(
         }));
       },
 
+      addUsage: (id: string, call: AgentCallUsage) => {
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === id ? { ...s, usage: [...(s.usage ?? []), call] } : s
+          ),
+        }));
+      },
+
+      addFollowUp: (id: string, followUp: FollowUp) => {
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === id
+              ? { ...s, followUps: [...(s.followUps ?? []), followUp], result: followUp.result ?? s.result }
+              : s
+          ),
+        }));
+      },
+
       getTranscript: (id: string) => {
         const session = get().getSession(id);
         return session?.transcript;
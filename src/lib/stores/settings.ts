@@ -4,43 +4,201 @@
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import {
+  DEFAULT_AGENT_MODELS,
+  DEFAULT_MODEL,
+  DEFAULT_PRICE_TABLE,
+  MAX_DEBATE_OPTIONS,
+  type PriceOverrides,
+  type AgentFailurePolicy,
+  type AgentModelConfig,
+  type AgentModels,
+  type AgentRole,
+  type GenerationSettings,
+  type ModelId,
+  type PriceTable,
+  type UsageBudget,
+  type ProviderConnection,
+  type ProviderCredentials,
+  type SearchSettings,
+} from "@/lib/types";
+import { parseModelId } from "@/lib/utils/model-id";
+import { applyPriceOverrides, findPriceOverrides } from "@/lib/utils/usage";
+
+const AGENT_ROLES: AgentRole[] = ["planner", "advocate", "cross-examiner", "referee"];
+
+/**
+ * Model and generation settings sent with an agent request
+ */
+export interface AgentRequestConfig {
+  model: ModelId;
+  generation: GenerationSettings;
+}
 
 interface SettingsState {
   geminiApiKey: string;
   exaApiKey: string;
+  providers: ProviderCredentials;
+  search: SearchSettings;
+  mockMode: boolean;
   model: string;
+  agentModels: AgentModels;
   maxParallelism: 1 | 2 | 3;
+  // Prices used for session cost estimates: the defaults with priceOverrides applied
+  prices: PriceTable;
+  // Only the user's changes are persisted, so later default prices still apply
+  priceOverrides: PriceOverrides;
+  // Limits for each comparison; empty means unlimited
+  budget: UsageBudget;
+  // What a comparison does when an advocate or cross-examiner fails
+  failurePolicy: AgentFailurePolicy;
+  // Pause after planning so the plan can be edited before the debate
+  reviewPlan: boolean;
+  // Most options the planner may pick; above MAX_DEBATE_OPTIONS they play a tournament
+  maxOptions: number;
+  // Rounds of argument and cross-examination; rounds after the first are rebuttals
+  rounds: number;
 
   setGeminiApiKey: (key: string) => void;
   setExaApiKey: (key: string) => void;
+  setProviderConnection: (provider: keyof ProviderCredentials, connection: ProviderConnection) => void;
+  setSearchSettings: (search: SearchSettings) => void;
+  setMockMode: (enabled: boolean) => void;
   setModel: (model: string) => void;
+  setAgentModels: (agentModels: AgentModels) => void;
+  setAgentModelConfig: (role: AgentRole, config: Partial<AgentModelConfig>) => void;
   setMaxParallelism: (n: 1 | 2 | 3) => void;
+  setPrices: (prices: PriceTable) => void;
+  setBudget: (budget: UsageBudget) => void;
+  setFailurePolicy: (policy: AgentFailurePolicy) => void;
+  setReviewPlan: (enabled: boolean) => void;
+  setMaxOptions: (n: number) => void;
+  setRounds: (n: number) => void;
+  getAgentRequestConfig: (role: AgentRole) => AgentRequestConfig;
+  hasModelKeys: () => boolean;
+  hasSearchBackend: () => boolean;
   hasRequiredKeys: () => boolean;
 }
 
+// Prices are rebuilt from the overrides on load
+type PersistedSettings = Omit<SettingsState, "prices">;
+
+/**
+ * Upgrade settings saved by an earlier version
+ * Version 0 saved the whole price table; only what the user changed is kept
+ */
+export function migrateSettings(persisted: unknown, version: number): PersistedSettings {
+  const state = persisted as PersistedSettings & { prices?: PriceTable };
+  if (version === 0 && state.prices) {
+    state.priceOverrides = findPriceOverrides(state.prices);
+    delete state.prices;
+  }
+  return state;
+}
+
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set, get) => ({
       geminiApiKey: "",
       exaApiKey: "",
-      model: "gemini-3-flash-preview",
+      providers: {},
+      search: { provider: "exa" },
+      mockMode: false,
+      model: DEFAULT_MODEL,
+      agentModels: DEFAULT_AGENT_MODELS,
       maxParallelism: 2,
+      prices: DEFAULT_PRICE_TABLE,
+      priceOverrides: { models: {}, search: {} },
+      budget: {},
+      failurePolicy: { action: "proceed" },
+      reviewPlan: true,
+      maxOptions: MAX_DEBATE_OPTIONS,
+      rounds: 1,
 
       setGeminiApiKey: (key: string) => set({ geminiApiKey: key }),
       setExaApiKey: (key: string) => set({ exaApiKey: key }),
+      setProviderConnection: (provider: keyof ProviderCredentials, connection: ProviderConnection) =>
+        set((state) => ({ providers: { ...state.providers, [provider]: connection } })),
+      setSearchSettings: (search: SearchSettings) => set({ search }),
+      setMockMode: (enabled: boolean) => set({ mockMode: enabled }),
       setModel: (model: string) => set({ model }),
+      setAgentModels: (agentModels: AgentModels) => set({ agentModels }),
+      setAgentModelConfig: (role: AgentRole, config: Partial<AgentModelConfig>) =>
+        set((state) => ({
+          agentModels: {
+            ...state.agentModels,
+            [role]: { ...state.agentModels[role], ...config },
+          },
+        })),
       setMaxParallelism: (n: 1 | 2 | 3) => set({ maxParallelism: n }),
+      setPrices: (prices: PriceTable) => {
+        const priceOverrides = findPriceOverrides(prices);
+        set({ priceOverrides, prices: applyPriceOverrides(priceOverrides) });
+      },
+      setBudget: (budget: UsageBudget) => set({ budget }),
+      setFailurePolicy: (policy: AgentFailurePolicy) => set({ failurePolicy: policy }),
+      setReviewPlan: (enabled: boolean) => set({ reviewPlan: enabled }),
+      setMaxOptions: (n: number) => set({ maxOptions: n }),
+      setRounds: (n: number) => set({ rounds: n }),
+      getAgentRequestConfig: (role: AgentRole) => {
+        const state = get();
+        const { model, ...generation } = {
+          ...DEFAULT_AGENT_MODELS[role],
+          ...state.agentModels?.[role],
+        };
+        return {
+          model: model ?? (state.model as ModelId),
+          generation,
+        };
+      },
+      hasModelKeys: () => {
+        const state = get();
+        if (state.mockMode) return true;
+        // Only providers used by some agent need a key; local servers need none
+        return AGENT_ROLES.every((role) => {
+          const { provider } = parseModelId(state.getAgentRequestConfig(role).model);
+          switch (provider) {
+            case "google":
+              return state.geminiApiKey.length > 0 || !!process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+            case "openai":
+              return !!state.providers.openai?.apiKey || !!process.env.OPENAI_API_KEY;
+            case "local":
+            case "mock":
+              return true;
+          }
+        });
+      },
+      hasSearchBackend: () => {
+        const state = get();
+        if (state.mockMode) return true;
+        // Only the selected backend needs configuring; the knowledge base lives on the server
+        switch (state.search.provider) {
+          case "exa":
+            return state.exaApiKey.length > 0 || !!process.env.EXA_API_KEY;
+          case "searxng":
+            return !!state.search.baseURL || !!process.env.SEARXNG_URL;
+          case "local":
+            return true;
+        }
+      },
       hasRequiredKeys: () => {
         const state = get();
-        return (
-          (state.geminiApiKey.length > 0 ||
-            !!process.env.GOOGLE_GENERATIVE_AI_API_KEY) &&
-          (state.exaApiKey.length > 0 || !!process.env.EXA_API_KEY)
-        );
+        return state.hasModelKeys() && state.hasSearchBackend();
       },
     }),
     {
       name: "tech-referee-settings",
+      version: 1,
+      migrate: migrateSettings,
+      partialize: (state) => {
+        const persisted: Partial<SettingsState> = { ...state };
+        delete persisted.prices;
+        return persisted as PersistedSettings;
+      },
+      merge: (persisted, current) => {
+        const state = { ...current, ...(persisted as Partial<PersistedSettings>) };
+        return { ...state, prices: applyPriceOverrides(state.priceOverrides) };
+      },
     }
   )
 );
@@ -4,6 +4,104 @@
  */
 import { z } from "zod";
 
+// LLM providers agents can run on
+export const PROVIDER_IDS = ["google", "openai", "local", "mock"] as const;
+
+export const ProviderIdSchema = z.enum(PROVIDER_IDS);
+
+export type ProviderId = z.infer<typeof ProviderIdSchema>;
+
+// Gemini models agents may run on (allow-list enforced by every agent route)
+export const SUPPORTED_MODELS = [
+  "gemini-3-flash-preview",
+  "gemini-2.5-flash-preview-05-20",
+  "gemini-2.5-pro-preview-05-06",
+] as const;
+
+export const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+// Models on other providers are addressed as "<provider>:<model>", e.g. "local:llama3.1"
+export const ProviderModelIdSchema = z.templateLiteral([
+  z.enum(["openai", "local", "mock"]),
+  ":",
+  z.string().regex(/^\S+$/),
+]);
+
+export const ModelIdSchema = z.union([z.enum(SUPPORTED_MODELS), ProviderModelIdSchema]);
+
+export type ModelId = z.infer<typeof ModelIdSchema>;
+
+// Connection settings for a single provider (server env vars are used when unset)
+export const ProviderConnectionSchema = z.object({
+  apiKey: z.string().optional(),
+  baseURL: z.string().url().optional(),
+});
+
+export type ProviderConnection = z.infer<typeof ProviderConnectionSchema>;
+
+// Credentials for the OpenAI-compatible providers, sent alongside the Gemini apiKey
+export const ProviderCredentialsSchema = z.object({
+  openai: ProviderConnectionSchema.optional(),
+  local: ProviderConnectionSchema.optional(),
+});
+
+export type ProviderCredentials = z.infer<typeof ProviderCredentialsSchema>;
+
+// Search backends the research tools can query
+export const SEARCH_PROVIDER_IDS = ["exa", "searxng", "local"] as const;
+
+export const SearchProviderIdSchema = z.enum(SEARCH_PROVIDER_IDS);
+
+export type SearchProviderId = z.infer<typeof SearchProviderIdSchema>;
+
+// Search backend selection (server env vars are used when unset)
+export const SearchSettingsSchema = z.object({
+  provider: SearchProviderIdSchema,
+  baseURL: z.string().url().optional(),
+  apiKey: z.string().optional(),
+});
+
+export type SearchSettings = z.infer<typeof SearchSettingsSchema>;
+
+// Agent roles that can be configured independently
+export const AgentRoleSchema = z.enum(["planner", "advocate", "cross-examiner", "referee"]);
+
+export type AgentRole = z.infer<typeof AgentRoleSchema>;
+
+// Generation parameters sent with each agent request
+export const GenerationSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().min(256).max(65536).optional(),
+  maxSteps: z.number().int().min(1).max(20).optional(),
+});
+
+export type GenerationSettings = z.infer<typeof GenerationSettingsSchema>;
+
+// Per-role model configuration (model falls back to the default model when unset)
+export const AgentModelConfigSchema = GenerationSettingsSchema.extend({
+  model: ModelIdSchema.optional(),
+  maxSteps: z.number().int().min(1).max(20),
+});
+
+export type AgentModelConfig = z.infer<typeof AgentModelConfigSchema>;
+
+export const AgentModelsSchema = z.object({
+  planner: AgentModelConfigSchema,
+  advocate: AgentModelConfigSchema,
+  "cross-examiner": AgentModelConfigSchema,
+  referee: AgentModelConfigSchema,
+});
+
+export type AgentModels = z.infer<typeof AgentModelsSchema>;
+
+// Default step limits per role, matching the tool loop each agent needs
+export const DEFAULT_AGENT_MODELS: AgentModels = {
+  planner: { maxSteps: 5 },
+  advocate: { maxSteps: 10 },
+  "cross-examiner": { maxSteps: 10 },
+  referee: { maxSteps: 8 },
+};
+
 // Constraint extracted from user query
 export const ConstraintSchema = z.object({
   type: z.enum([
@@ -37,9 +135,13 @@ export const AdvocateAssignmentSchema = z.object({
 
 export type AdvocateAssignment = z.infer<typeof AdvocateAssignmentSchema>;
 
+// Most options argued in a single debate; plans with more are played as a tournament
+export const MAX_DEBATE_OPTIONS = 3;
+export const MAX_TOURNAMENT_OPTIONS = 8;
+
 // Comparison plan from Planner agent
 export const ComparisonPlanSchema = z.object({
-  options: z.array(z.string()).max(3),
+  options: z.array(z.string()).max(MAX_TOURNAMENT_OPTIONS),
   constraints: z.array(ConstraintSchema),
   axes: z.array(ComparisonAxisSchema),
   assignments: z.array(AdvocateAssignmentSchema),
@@ -172,6 +274,19 @@ export const CrossExamineResponseSchema = z.object({
 
 export type CrossExamineResponse = z.infer<typeof CrossExamineResponseSchema>;
 
+// Most rounds a debate can run: the opening round plus two rounds of rebuttals
+export const MAX_DEBATE_ROUNDS = 3;
+
+// A round after the first: every advocate rebuts the challenges against it, then is cross-examined again
+export const DebateRoundSchema = z.object({
+  round: z.number().int().min(2).max(MAX_DEBATE_ROUNDS),
+  // Each rebuttal is an argument: the advocate's answer to the previous round's challenges
+  rebuttals: z.array(AdvocateResponseSchema),
+  crossExaminations: z.array(CrossExamineResponseSchema),
+});
+
+export type DebateRound = z.infer<typeof DebateRoundSchema>;
+
 // Referee response
 export const RefereeResponseSchema = z.object({
   summary: z.string(),
@@ -184,6 +299,25 @@ export const RefereeResponseSchema = z.object({
 
 export type RefereeResponse = z.infer<typeof RefereeResponseSchema>;
 
+// One group debate in a tournament; the final is the single match of the last round
+export const TournamentMatchSchema = z.object({
+  id: z.string(),
+  round: z.number().int().min(1),
+  options: z.array(z.string()).min(2).max(MAX_DEBATE_OPTIONS),
+  // Options in the order the match referee ranked them, winner first
+  ranking: z.array(z.string()).optional(),
+  result: RefereeResponseSchema.optional(),
+});
+
+export type TournamentMatch = z.infer<typeof TournamentMatchSchema>;
+
+// Bracket for a plan with more than MAX_DEBATE_OPTIONS options
+export const TournamentSchema = z.object({
+  matches: z.array(TournamentMatchSchema),
+});
+
+export type Tournament = z.infer<typeof TournamentSchema>;
+
 // Transcript entry for storing conversation history
 export const TranscriptEntrySchema = z.object({
   id: z.string(),
@@ -195,7 +329,11 @@ export const TranscriptEntrySchema = z.object({
     "planning_result",
     "advocate_argument",
     "cross_examination",
+    "advocate_rebuttal",
+    "rebuttal_cross_examination",
     "referee_verdict",
+    "follow_up_question",
+    "follow_up_answer",
     "system_message",
     "error",
   ]),
@@ -205,6 +343,18 @@ export const TranscriptEntrySchema = z.object({
 
 export type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
 
+// A question put to the referee after the verdict, with its answer
+export const FollowUpSchema = z.object({
+  id: z.string(),
+  question: z.string().min(1),
+  answer: z.string(),
+  // Set when the answer changed the scores or the recommendation
+  result: RefereeResponseSchema.optional(),
+  createdAt: z.coerce.date(),
+});
+
+export type FollowUp = z.infer<typeof FollowUpSchema>;
+
 // Full transcript of a comparison session
 export const TranscriptSchema = z.object({
   entries: z.array(TranscriptEntrySchema),
@@ -214,6 +364,103 @@ export const TranscriptSchema = z.object({
 
 export type Transcript = z.infer<typeof TranscriptSchema>;
 
+// Tokens, tool calls and search requests spent by one agent request
+export const AgentUsageSchema = z.object({
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+  // Every tool call, including knowledge base lookups
+  toolCalls: z.number().int().nonnegative(),
+  // Requests sent to the web search backend (billed per request on Exa)
+  searchCalls: z.number().int().nonnegative(),
+});
+
+export type AgentUsage = z.infer<typeof AgentUsageSchema>;
+
+// Usage reported by an agent route, with the model and search backend it ran on
+export const AgentUsageReportSchema = z.object({
+  model: z.string().optional(),
+  searchProvider: SearchProviderIdSchema.optional(),
+  usage: AgentUsageSchema,
+  // The agent stopped using tools early to stay within its budget
+  budgetLimited: z.boolean().optional(),
+});
+
+export type AgentUsageReport = z.infer<typeof AgentUsageReportSchema>;
+
+// Usage of a single agent call within a debate
+export const AgentCallUsageSchema = AgentUsageReportSchema.extend({
+  role: AgentRoleSchema,
+  option: z.string().optional(),
+});
+
+export type AgentCallUsage = z.infer<typeof AgentCallUsageSchema>;
+
+// Estimated USD price per million tokens for one model
+export const ModelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+// Prices used to estimate what a session cost
+// Model keys are model ids or "<provider>:*" for every model on a provider
+export const PriceTableSchema = z.object({
+  models: z.record(z.string(), ModelPriceSchema),
+  // USD per web search request, by backend
+  search: z.record(SearchProviderIdSchema, z.number().nonnegative()),
+});
+
+export type PriceTable = z.infer<typeof PriceTableSchema>;
+
+// List prices at the time of writing; users can override them in settings
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  models: {
+    "gemini-3-flash-preview": { input: 0.5, output: 3 },
+    "gemini-2.5-flash-preview-05-20": { input: 0.3, output: 2.5 },
+    "gemini-2.5-pro-preview-05-06": { input: 1.25, output: 10 },
+    "openai:gpt-4o": { input: 2.5, output: 10 },
+    "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "local:*": { input: 0, output: 0 },
+    "mock:*": { input: 0, output: 0 },
+  },
+  search: { exa: 0.005, searxng: 0, local: 0 },
+};
+
+// Prices the user changed; everything else follows DEFAULT_PRICE_TABLE, so updated defaults still reach them
+export const PriceOverridesSchema = z.object({
+  models: z.record(z.string(), ModelPriceSchema),
+  search: z.partialRecord(SearchProviderIdSchema, z.number().nonnegative()),
+});
+
+export type PriceOverrides = z.infer<typeof PriceOverridesSchema>;
+
+// Spending limits for a comparison, or for one agent's share of them; unset limits are unlimited
+export const UsageBudgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+  maxSearchCalls: z.number().int().nonnegative().optional(),
+});
+
+export type UsageBudget = z.infer<typeof UsageBudgetSchema>;
+
+// An agent's share of the session budget, with the prices its cost is measured in
+export const AgentBudgetSchema = UsageBudgetSchema.extend({
+  prices: PriceTableSchema.optional(),
+});
+
+export type AgentBudget = z.infer<typeof AgentBudgetSchema>;
+
+// How a session was forked from an earlier one to re-judge its research under changed constraints
+export const SessionForkSchema = z.object({
+  sessionId: z.string(),
+  // The verdict alone, or the cross-examination (and any rebuttal rounds) as well
+  rerun: z.enum(["referee", "cross-examination"]),
+});
+
+export type SessionFork = z.infer<typeof SessionForkSchema>;
+
 // Comparison session
 export const ComparisonSessionSchema = z.object({
   id: z.string(),
@@ -223,8 +470,22 @@ export const ComparisonSessionSchema = z.object({
   plan: ComparisonPlanSchema.optional(),
   arguments: z.array(AdvocateResponseSchema).optional(),
   crossExaminations: z.array(CrossExamineResponseSchema).optional(),
+  // Rebuttal rounds after the opening arguments and cross-examinations
+  rounds: z.array(DebateRoundSchema).optional(),
+  // Rounds the debate was asked to play, counting the opening round; a failed session may hold fewer
+  roundCount: z.number().int().min(1).max(MAX_DEBATE_ROUNDS).optional(),
   result: RefereeResponseSchema.optional(),
+  tournament: TournamentSchema.optional(),
+  // Follow-up questions after the verdict; `result` is the latest verdict they produced
+  followUps: z.array(FollowUpSchema).optional(),
+  fork: SessionForkSchema.optional(),
   transcript: TranscriptSchema.optional(),
+  // Model that produced the referee verdict
+  model: z.string().optional(),
+  // Usage of every agent call made for this session
+  usage: z.array(AgentCallUsageSchema).optional(),
+  // Work cut short or skipped to stay within the session budget
+  budgetNotes: z.array(z.string()).optional(),
   error: z.string().optional(),
 });
 
@@ -234,6 +495,11 @@ export type ComparisonSession = z.infer<typeof ComparisonSessionSchema>;
 export const PlannerRequestSchema = z.object({
   query: z.string().min(1),
   clarifications: z.record(z.string(), z.union([z.string(), z.array(z.string())])).optional(),
+  model: ModelIdSchema.optional(),
+  generation: GenerationSettingsSchema.optional(),
+  budget: AgentBudgetSchema.optional(),
+  // Most options the plan may include (defaults to MAX_DEBATE_OPTIONS)
+  maxOptions: z.number().int().min(2).max(MAX_TOURNAMENT_OPTIONS).optional(),
 });
 
 export type PlannerRequest = z.infer<typeof PlannerRequestSchema>;
@@ -249,7 +515,18 @@ export type PlannerResponse = z.infer<typeof PlannerResponseSchema>;
 export const AdvocateRequestSchema = z.object({
   option: z.string(),
   plan: ComparisonPlanSchema,
+  // Asks for a rebuttal of the latest challenges instead of an opening argument
+  rebuttal: z
+    .object({
+      round: DebateRoundSchema.shape.round,
+      ownArgument: AdvocateResponseSchema,
+      challenges: z.array(ChallengeSchema),
+    })
+    .optional(),
   sessionId: z.string(),
+  model: ModelIdSchema.optional(),
+  generation: GenerationSettingsSchema.optional(),
+  budget: AgentBudgetSchema.optional(),
 });
 
 export type AdvocateRequest = z.infer<typeof AdvocateRequestSchema>;
@@ -260,6 +537,9 @@ export const CrossExamineRequestSchema = z.object({
   opponentArguments: z.array(AdvocateResponseSchema),
   plan: ComparisonPlanSchema,
   sessionId: z.string(),
+  model: ModelIdSchema.optional(),
+  generation: GenerationSettingsSchema.optional(),
+  budget: AgentBudgetSchema.optional(),
 });
 
 export type CrossExamineRequest = z.infer<typeof CrossExamineRequestSchema>;
@@ -268,11 +548,25 @@ export const RefereeRequestSchema = z.object({
   plan: ComparisonPlanSchema,
   arguments: z.array(AdvocateResponseSchema),
   crossExaminations: z.array(CrossExamineResponseSchema),
+  rounds: z.array(DebateRoundSchema).optional(),
   sessionId: z.string(),
+  model: ModelIdSchema.optional(),
+  generation: GenerationSettingsSchema.optional(),
+  budget: AgentBudgetSchema.optional(),
 });
 
 export type RefereeRequest = z.infer<typeof RefereeRequestSchema>;
 
+export const FollowUpRequestSchema = RefereeRequestSchema.extend({
+  question: z.string().trim().min(1),
+  // The verdict being questioned - the latest one, after any earlier updates
+  result: RefereeResponseSchema,
+  // Earlier follow-ups, oldest first
+  followUps: z.array(FollowUpSchema.pick({ question: true, answer: true })).optional(),
+});
+
+export type FollowUpRequest = z.infer<typeof FollowUpRequestSchema>;
+
 // API Error response
 export const APIErrorSchema = z.object({
   error: z.string(),
@@ -290,6 +584,216 @@ export const APIErrorSchema = z.object({
 
 export type APIError = z.infer<typeof APIErrorSchema>;
 
+// Model and generation settings sent with a single agent request
+export const DebateAgentConfigSchema = z.object({
+  model: ModelIdSchema.optional(),
+  generation: GenerationSettingsSchema.optional(),
+});
+
+export type DebateAgentConfig = z.infer<typeof DebateAgentConfigSchema>;
+
+// Work saved from an earlier run of the same debate; failed or missing parts run again
+export const DebateResumeSchema = z.object({
+  plan: ComparisonPlanSchema,
+  arguments: z.array(AdvocateResponseSchema).optional(),
+  crossExaminations: z.array(CrossExamineResponseSchema).optional(),
+  // Rebuttal rounds to keep; finished rounds are kept only when no cross-examination runs again
+  rounds: z.array(DebateRoundSchema).optional(),
+  // Rerun only these of the failed options; the others keep their failed response
+  retryOptions: z.array(z.string()).optional(),
+});
+
+export type DebateResume = z.infer<typeof DebateResumeSchema>;
+
+// What a debate does when an advocate or cross-examiner fails
+// "retry" tries again up to `attempts` times, then carries on with the failure recorded
+export const AgentFailurePolicySchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("proceed") }),
+  z.object({ action: z.literal("retry"), attempts: z.number().int().min(1).max(5) }),
+  z.object({ action: z.literal("abort") }),
+]);
+
+export type AgentFailurePolicy = z.infer<typeof AgentFailurePolicySchema>;
+
+// Answers to a human-in-the-loop confirmation - the confirmAction tool and plan review
+export const APPROVAL = {
+  YES: "Yes, confirmed.",
+  NO: "No, denied.",
+} as const;
+
+export const ApprovalSchema = z.enum([APPROVAL.YES, APPROVAL.NO]);
+
+export type ApprovalType = z.infer<typeof ApprovalSchema>;
+
+// What the user is asked to confirm
+export const ConfirmationRequestSchema = z.object({
+  action: z.string().describe("Description of the action to confirm"),
+  details: z.string().optional().describe("Additional details about the action"),
+});
+
+export type ConfirmationRequest = z.infer<typeof ConfirmationRequestSchema>;
+
+// A plan after the user reviewed it: 2-8 distinct named options and at least one named axis
+export const ReviewedPlanSchema = ComparisonPlanSchema.extend({
+  options: z
+    .array(z.string().trim().min(1, "Every option needs a name"))
+    .min(2, "Compare at least two options")
+    .max(MAX_TOURNAMENT_OPTIONS, `Compare at most ${MAX_TOURNAMENT_OPTIONS} options`),
+  constraints: z.array(
+    ConstraintSchema.extend({ description: z.string().trim().min(1, "Every constraint needs a description") })
+  ),
+  axes: z
+    .array(ComparisonAxisSchema.extend({ name: z.string().trim().min(1, "Every axis needs a name") }))
+    .min(1, "Keep at least one axis"),
+})
+  .refine((plan) => new Set(plan.options.map((o) => o.toLowerCase())).size === plan.options.length, {
+    message: "Options must be different",
+    path: ["options"],
+  })
+  .refine((plan) => new Set(plan.axes.map((a) => a.name.toLowerCase())).size === plan.axes.length, {
+    message: "Axes must have different names",
+    path: ["axes"],
+  });
+
+// The user's answer to a plan review, with the plan as they left it
+export const PlanApprovalSchema = z.object({
+  approval: ApprovalSchema,
+  plan: ReviewedPlanSchema,
+});
+
+export type PlanApproval = z.infer<typeof PlanApprovalSchema>;
+
+// Full debate run server-side: plan, advocates, cross-examiners and referee
+export const DebateRequestSchema = z.object({
+  query: z.string().min(1),
+  clarifications: PlannerRequestSchema.shape.clarifications,
+  sessionId: z.string().optional(),
+  maxParallelism: z.union([z.literal(1), z.literal(2), z.literal(3)]).default(2),
+  agents: z
+    .object({
+      planner: DebateAgentConfigSchema.optional(),
+      advocate: DebateAgentConfigSchema.optional(),
+      "cross-examiner": DebateAgentConfigSchema.optional(),
+      referee: DebateAgentConfigSchema.optional(),
+    })
+    .optional(),
+  budget: UsageBudgetSchema.optional(),
+  // Prices the cost budget is measured in (defaults to DEFAULT_PRICE_TABLE)
+  prices: PriceTableSchema.optional(),
+  // Skips the planner and keeps successful work from a failed run
+  resume: DebateResumeSchema.optional(),
+  // Defaults to proceeding with the failure recorded on the response
+  failurePolicy: AgentFailurePolicySchema.optional(),
+  // Stop after planning so the user can review and edit the plan
+  reviewPlan: z.boolean().optional(),
+  // Continue a reviewed debate from the approved plan instead of planning again
+  planApproval: PlanApprovalSchema.optional(),
+  // Let the planner pick more than MAX_DEBATE_OPTIONS options, debated as a tournament
+  maxOptions: PlannerRequestSchema.shape.maxOptions,
+  // Rounds of argument and cross-examination before the verdict (default 1, no rebuttals)
+  rounds: z.number().int().min(1).max(MAX_DEBATE_ROUNDS).optional(),
+});
+
+export type DebateRequest = z.infer<typeof DebateRequestSchema>;
+
+// Phases a debate moves through
+export const DebatePhaseSchema = z.enum([
+  "planning",
+  "clarifying",
+  "reviewing",
+  "advocating",
+  "cross-examining",
+  "rebutting",
+  "refereeing",
+  "complete",
+  "error",
+]);
+
+export type DebatePhase = z.infer<typeof DebatePhaseSchema>;
+
+// Events streamed by the debate orchestrator, in order
+export const DebateEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("phase"), phase: DebatePhaseSchema }),
+  z.object({ type: z.literal("clarifications"), questions: z.array(ClarificationQuestionSchema) }),
+  z.object({ type: z.literal("plan"), plan: ComparisonPlanSchema }),
+  z.object({ type: z.literal("plan-review"), plan: ComparisonPlanSchema, confirmation: ConfirmationRequestSchema }),
+  // `round` is set from the second round on, for rebuttals and the cross-examinations after them
+  z.object({
+    type: z.literal("agent-start"),
+    role: AgentRoleSchema,
+    option: z.string().optional(),
+    round: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal("agent-text"),
+    role: AgentRoleSchema,
+    option: z.string().optional(),
+    round: z.number().int().optional(),
+    delta: z.string(),
+  }),
+  z.object({ type: z.literal("advocate"), response: AdvocateResponseSchema }),
+  z.object({
+    type: z.literal("cross-examination"),
+    response: CrossExamineResponseSchema,
+    round: z.number().int().optional(),
+  }),
+  z.object({ type: z.literal("rebuttal"), response: AdvocateResponseSchema, round: z.number().int() }),
+  // A tournament match started (no ranking yet) or finished
+  z.object({ type: z.literal("match"), match: TournamentMatchSchema }),
+  z.object({ type: z.literal("verdict"), result: RefereeResponseSchema, text: z.string() }),
+  AgentCallUsageSchema.extend({ type: z.literal("usage") }),
+  z.object({ type: z.literal("budget"), note: z.string() }),
+  // An agent failed and is being tried again; `attempt` is the attempt about to start
+  z.object({
+    type: z.literal("retry"),
+    role: AgentRoleSchema,
+    option: z.string().optional(),
+    round: z.number().int().optional(),
+    attempt: z.number().int(),
+    error: z.string(),
+  }),
+  z.object({ type: z.literal("error"), error: APIErrorSchema, context: z.string() }),
+]);
+
+export type DebateEvent = z.infer<typeof DebateEventSchema>;
+
+// Golden answers for a benchmark case, checked against the referee's verdict
+// Option and axis names match loosely; text checks are case-insensitive substrings
+export const VerdictExpectationsSchema = z.object({
+  // Recommended option must be one of these
+  recommend: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+  notRecommend: z.array(z.string()).optional(),
+  confidence: z.array(RecommendationSchema.shape.confidence).min(1).optional(),
+  // A tradeoff whose condition mentions `condition` must recommend `recommend`
+  tradeoffs: z.array(z.object({ condition: z.string(), recommend: z.string() })).optional(),
+  // Phrases that must appear in a caveat
+  caveats: z.array(z.string()).optional(),
+  // Phrases that must appear anywhere in the verdict
+  mentions: z.array(z.string()).optional(),
+  // Options on an axis, highest score first
+  scoreOrder: z.array(z.object({ axis: z.string(), order: z.array(z.string()).min(2) })).optional(),
+});
+
+export type VerdictExpectations = z.infer<typeof VerdictExpectationsSchema>;
+
+// One benchmark query with its clarifications answered up front
+export const BenchmarkCaseSchema = z.object({
+  id: z.string().optional(),
+  query: z.string().min(1),
+  clarifications: PlannerRequestSchema.shape.clarifications,
+  expect: VerdictExpectationsSchema.optional(),
+});
+
+export type BenchmarkCase = z.infer<typeof BenchmarkCaseSchema>;
+
+// Suite file for batch benchmarks
+export const BenchmarkSuiteSchema = z.object({
+  name: z.string().optional(),
+  cases: z.array(BenchmarkCaseSchema).min(1),
+});
+
+export type BenchmarkSuite = z.infer<typeof BenchmarkSuiteSchema>;
+
 // Exa Search tool input schema
 export const ExaSearchInputSchema = z.object({
   query: z.string().min(1).max(100).describe("The search query"),
@@ -301,7 +805,11 @@ export type ExaSearchInput = z.infer<typeof ExaSearchInputSchema>;
 export const SettingsSchema = z.object({
   geminiApiKey: z.string(),
   exaApiKey: z.string(),
-  model: z.string().default("gemini-3-flash-preview"),
+  providers: ProviderCredentialsSchema.default({}),
+  search: SearchSettingsSchema.default({ provider: "exa" }),
+  mockMode: z.boolean().default(false),
+  model: z.string().default(DEFAULT_MODEL),
+  agentModels: AgentModelsSchema.default(DEFAULT_AGENT_MODELS),
   maxParallelism: z.union([z.literal(1), z.literal(2), z.literal(3)]).default(2),
 });
 
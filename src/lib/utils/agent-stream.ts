@@ -0,0 +1,59 @@
+/**
+ * Agent Stream Reader
+ * Reads the UI message stream returned by the agent routes, accumulating
+ * streamed prose and collecting structured data parts (e.g. `data-verdict`)
+ */
+import { parseJsonEventStream, uiMessageChunkSchema, type UIMessageChunk } from "ai";
+
+export interface AgentStreamHandlers {
+  /** Called with the accumulated text after each text delta */
+  onText?: (fullText: string, delta: string) => void;
+  /** Called for every structured data part, keyed by name without the `data-` prefix */
+  onData?: (name: string, data: unknown) => void;
+}
+
+export interface AgentStreamResult {
+  text: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Consume an agent route response, returning the full text and the last value of each data part
+ * Throws if the stream reports an error
+ */
+export async function readAgentStream(
+  response: Response,
+  handlers: AgentStreamHandlers = {}
+): Promise<AgentStreamResult> {
+  const result: AgentStreamResult = { text: "", data: {} };
+  if (!response.body) return result;
+
+  const reader = parseJsonEventStream({
+    stream: response.body,
+    schema: uiMessageChunkSchema,
+  }).getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (!value.success) {
+      throw value.error;
+    }
+
+    const chunk = value.value as UIMessageChunk;
+
+    if (chunk.type === "text-delta") {
+      result.text += chunk.delta;
+      handlers.onText?.(result.text, chunk.delta);
+    } else if (chunk.type === "error") {
+      throw new Error(chunk.errorText);
+    } else if (chunk.type.startsWith("data-") && "data" in chunk) {
+      const name = chunk.type.slice("data-".length);
+      result.data[name] = chunk.data;
+      handlers.onData?.(name, chunk.data);
+    }
+  }
+
+  return result;
+}
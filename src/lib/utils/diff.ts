@@ -0,0 +1,186 @@
+/**
+ * Verdict and Session Diffs
+ * What changed between two verdicts, or between two whole comparisons of the same decision
+ * Client-safe: the chat diffs a fork against its parent and the history diffs any two sessions
+ */
+import {
+  SourceSchema,
+  type ComparisonAxis,
+  type ComparisonSession,
+  type Constraint,
+  type RefereeResponse,
+  type Source,
+} from "@/lib/types";
+import { computeWeightedTotals, normalizeName, rankOptions } from "./scoring";
+
+export interface ListDiff<T> {
+  added: T[];
+  removed: T[];
+}
+
+// A verdict with the axes and options it was reached on
+export interface JudgedVerdict {
+  result: RefereeResponse;
+  axes: ComparisonAxis[];
+  options: string[];
+}
+
+export interface ScoreChange {
+  axis: string;
+  option: string;
+  // Undefined when the verdict did not score the option on that axis
+  before?: number;
+  after?: number;
+}
+
+export interface TotalChange {
+  option: string;
+  // Undefined when the option was not judged by that verdict
+  before?: number;
+  after?: number;
+}
+
+export interface VerdictDiff {
+  recommendation: {
+    before: RefereeResponse["recommendation"];
+    after: RefereeResponse["recommendation"];
+    changed: boolean;
+  };
+  // Only the axis scores that differ
+  scores: ScoreChange[];
+  // Weighted totals of every option, ranked by the later verdict
+  totals: TotalChange[];
+  caveats: ListDiff<string>;
+}
+
+export interface WeightChange {
+  axis: string;
+  before: number;
+  after: number;
+}
+
+export interface SessionDiff {
+  options: ListDiff<string>;
+  axes: ListDiff<ComparisonAxis> & { reweighted: WeightChange[] };
+  constraints: ListDiff<Constraint>;
+  // Undefined unless both sessions reached a verdict
+  verdict?: VerdictDiff;
+  sources: ListDiff<Source>;
+}
+
+const constraintKey = (c: Constraint) => `${c.type}|${normalizeName(c.description)}|${c.value ?? ""}`;
+const axisKey = (axis: ComparisonAxis) => normalizeName(axis.name);
+// Trailing slashes and fragments do not make a different page
+const sourceKey = (source: Source) => source.url.replace(/#.*$/, "").replace(/\/+$/, "").toLowerCase();
+
+/**
+ * Items of `after` missing from `before` and the reverse, matched by key
+ */
+export function diffLists<T>(before: T[], after: T[], key: (item: T) => string): ListDiff<T> {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter((item) => !beforeKeys.has(key(item))),
+    removed: before.filter((item) => !afterKeys.has(key(item))),
+  };
+}
+
+/**
+ * One-line description of a constraint, e.g. "budget: Hosting ($500/month)"
+ */
+export function formatConstraint(c: Constraint): string {
+  return `${c.type}: ${c.description}${c.value ? ` (${c.value})` : ""}`;
+}
+
+/**
+ * Constraints added or removed; an edited constraint counts as both
+ */
+export function diffConstraints(before: Constraint[], after: Constraint[]): ListDiff<Constraint> {
+  return diffLists(before, after, constraintKey);
+}
+
+/**
+ * Compare two verdicts, each totalled with its own axis weights
+ * Axis and option names match loosely, so a re-worded "Developer_Experience" is still the same axis
+ */
+export function diffVerdicts(before: JudgedVerdict, after: JudgedVerdict): VerdictDiff {
+  const axes = [...after.axes, ...diffLists(after.axes, before.axes, axisKey).added];
+  const options = [...after.options, ...diffLists(after.options, before.options, normalizeName).added];
+  const scoresOn = ({ result }: JudgedVerdict, axis: ComparisonAxis) =>
+    result.scores.find((s) => normalizeName(s.axis) === axisKey(axis))?.scores;
+
+  const scores: ScoreChange[] = [];
+  for (const axis of axes) {
+    const earlier = scoresOn(before, axis);
+    const later = scoresOn(after, axis);
+    for (const option of options) {
+      const change = { axis: axis.name, option, before: earlier?.[option], after: later?.[option] };
+      if (change.before !== change.after) scores.push(change);
+    }
+  }
+
+  const beforeTotals = computeWeightedTotals(before.result.scores, before.axes, before.options);
+  const afterTotals = computeWeightedTotals(after.result.scores, after.axes, after.options);
+  const ranked = [...rankOptions(afterTotals), ...options.filter((option) => !(option in afterTotals))];
+
+  return {
+    recommendation: {
+      before: before.result.recommendation,
+      after: after.result.recommendation,
+      changed: normalizeName(before.result.recommendation.option) !== normalizeName(after.result.recommendation.option),
+    },
+    scores,
+    totals: ranked.map((option) => ({ option, before: beforeTotals[option], after: afterTotals[option] })),
+    caveats: diffLists(before.result.caveats, after.result.caveats, (caveat) => caveat.trim().toLowerCase()),
+  };
+}
+
+/**
+ * A session's verdict with what it judged - a tournament's verdict covers only its finalists
+ */
+export function judgedVerdict(session: Pick<ComparisonSession, "plan" | "result" | "tournament">): JudgedVerdict | undefined {
+  if (!session.plan || !session.result) return undefined;
+  return {
+    result: session.result,
+    axes: session.plan.axes,
+    options: session.tournament?.matches.at(-1)?.options ?? session.plan.options,
+  };
+}
+
+/**
+ * Every source cited in a session: its arguments, rebuttals and the transcript of earlier attempts
+ */
+export function sessionSources(session: ComparisonSession): Source[] {
+  const cited = [
+    ...(session.arguments ?? []).flatMap((a) => a.sources),
+    ...(session.rounds ?? []).flatMap((round) => round.rebuttals.flatMap((r) => r.sources)),
+    ...(session.transcript?.entries ?? []).flatMap((entry) => {
+      const sources = SourceSchema.array().safeParse(entry.metadata?.sources);
+      return sources.success ? sources.data : [];
+    }),
+  ];
+  return [...new Map(cited.map((source) => [sourceKey(source), source])).values()];
+}
+
+/**
+ * Compare two comparisons of the same decision, e.g. this quarter's against last quarter's
+ */
+export function diffSessions(before: ComparisonSession, after: ComparisonSession): SessionDiff {
+  const beforeAxes = before.plan?.axes ?? [];
+  const afterAxes = after.plan?.axes ?? [];
+  const reweighted = afterAxes.flatMap((axis) => {
+    const earlier = beforeAxes.find((a) => axisKey(a) === axisKey(axis));
+    return earlier && earlier.weight !== axis.weight ? [{ axis: axis.name, before: earlier.weight, after: axis.weight }] : [];
+  });
+
+  const beforeVerdict = judgedVerdict(before);
+  const afterVerdict = judgedVerdict(after);
+
+  return {
+    options: diffLists(before.plan?.options ?? [], after.plan?.options ?? [], normalizeName),
+    axes: { ...diffLists(beforeAxes, afterAxes, axisKey), reweighted },
+    constraints: diffConstraints(before.plan?.constraints ?? [], after.plan?.constraints ?? []),
+    verdict: beforeVerdict && afterVerdict ? diffVerdicts(beforeVerdict, afterVerdict) : undefined,
+    sources: diffLists(sessionSources(before), sessionSources(after), sourceKey),
+  };
+}
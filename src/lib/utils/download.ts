@@ -0,0 +1,21 @@
+/**
+ * File Downloads
+ * Saves generated text (reports, benchmark exports) as a file from the browser
+ */
+
+/**
+ * Trigger a browser download of a text file
+ */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  // Firefox and Safari drop the download if the URL is revoked in the same tick
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    link.remove();
+  }, 0);
+}
@@ -83,11 +83,11 @@ export function createValidationError(error: ZodError): APIError {
 /**
  * Create an APIError for missing API key
  */
-export function createMissingKeyError(keyName: string): APIError {
+export function createMissingKeyError(keyName: string, modelId?: string): APIError {
   return createAPIError(
     ErrorCode.API_KEY_MISSING,
     `${keyName} API key is required`,
-    `Please configure your ${keyName} API key in settings`,
+    `Please configure your ${keyName} API key in settings${modelId ? ` to use ${modelId}` : ""}`,
     false
   );
 }
@@ -208,3 +208,11 @@ export function handleAPIError(err: unknown, context?: string): Response {
   console.error(`API Error [${apiError.code}]:`, apiError.error, apiError.details);
   return errorResponse(apiError);
 }
+
+/**
+ * Format an error raised mid-stream into the message sent in the stream's error part
+ */
+export function formatStreamError(err: unknown, context?: string): string {
+  const apiError = parseError(err, context);
+  return apiError.details ? `${apiError.error}: ${apiError.details}` : apiError.error;
+}
@@ -25,6 +25,7 @@ export {
   isAPIError,
   errorResponse,
   handleAPIError,
+  formatStreamError,
   type ErrorCodeType,
 } from "./errors";
 export {
@@ -34,6 +35,7 @@ export {
   parseMarkdownCustomKeys,
   extractCustomKeys,
   hasCustomKeys,
+  extractListSection,
   type ParsedBlock,
   type ParsedTable,
   type ParsedPoll,
@@ -52,3 +54,63 @@ export {
   type AdvocateExecutorParams,
   type CrossExaminerExecutorParams,
 } from "./parallel-executor";
+export {
+  readAgentStream,
+  type AgentStreamHandlers,
+  type AgentStreamResult,
+} from "./agent-stream";
+export {
+  normalizeName,
+  matchName,
+  clampScore,
+  computeWeightedTotals,
+  rankOptions,
+  scoresFromMarkdown,
+  findWeightFlips,
+  type WeightFlip,
+} from "./scoring";
+export {
+  parseModelId,
+  PROVIDER_NAMES,
+} from "./model-id";
+export {
+  sessionToMarkdown,
+  sessionToHtml,
+  renderCustomKeys,
+} from "./session-report";
+export {
+  sumUsage,
+  EMPTY_USAGE,
+  findModelPrice,
+  applyPriceOverrides,
+  findPriceOverrides,
+  estimateCallCost,
+  summarizeUsage,
+  isBudgetExhausted,
+  shareBudget,
+  formatTokens,
+  formatCost,
+  type UsageSummary,
+} from "./usage";
+export {
+  diffLists,
+  diffConstraints,
+  formatConstraint,
+  diffVerdicts,
+  judgedVerdict,
+  sessionSources,
+  diffSessions,
+  type ListDiff,
+  type JudgedVerdict,
+  type ScoreChange,
+  type TotalChange,
+  type VerdictDiff,
+  type WeightChange,
+  type SessionDiff,
+} from "./diff";
+export {
+  assignAdvocates,
+  validateReviewedPlan,
+  planConfirmation,
+} from "./plan";
+export { downloadFile } from "./download";
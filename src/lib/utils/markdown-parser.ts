@@ -400,3 +400,37 @@ export function hasCustomKeys(markdown: string): boolean {
          SCORE_PATTERN.test(markdown) ||
          MARKDOWN_TABLE_PATTERN.test(markdown);
 }
+
+/**
+ * Extract the list items under the first heading matching `headingPattern`
+ * Collects bullet/numbered items until the next heading of the same or higher level
+ */
+export function extractListSection(markdown: string, headingPattern: RegExp): string[] {
+  const lines = markdown.split(/\r?\n/);
+  const items: string[] = [];
+  let sectionLevel: number | null = null;
+
+  for (const line of lines) {
+    const heading = line.match(/^\s*(#{1,6})\s+(.*)$/) ?? line.match(/^\s*()\*\*(.+?)\*\*:?\s*$/);
+
+    if (heading) {
+      // Bold-only lines act as headings below any markdown heading level
+      const level = heading[1].length || 7;
+      if (sectionLevel === null) {
+        if (headingPattern.test(heading[2])) sectionLevel = level;
+        continue;
+      }
+      if (level <= sectionLevel) break;
+      continue;
+    }
+
+    if (sectionLevel === null) continue;
+
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (item && item[1].trim()) {
+      items.push(item[1].trim());
+    }
+  }
+
+  return items;
+}
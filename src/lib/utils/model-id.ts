@@ -0,0 +1,28 @@
+/**
+ * Model Id Helpers
+ * Shared by the provider registry and the client settings
+ */
+import { PROVIDER_IDS, type ProviderId } from "@/lib/types";
+
+// Display names used in settings and missing-key errors
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  google: "Gemini",
+  openai: "OpenAI",
+  local: "Local",
+  mock: "Mock",
+};
+
+/**
+ * Split a model id into its provider and provider-specific model name
+ * Bare ids (no "<provider>:" prefix) are Gemini models
+ */
+export function parseModelId(modelId: string): { provider: ProviderId; model: string } {
+  const separator = modelId.indexOf(":");
+  if (separator > 0) {
+    const prefix = modelId.slice(0, separator);
+    if ((PROVIDER_IDS as readonly string[]).includes(prefix)) {
+      return { provider: prefix as ProviderId, model: modelId.slice(separator + 1) };
+    }
+  }
+  return { provider: "google", model: modelId };
+}
@@ -3,6 +3,8 @@
  * Executes async tasks in parallel with configurable concurrency
  * Requirements: 3.7, 4.6, 7.4
  */
+import { readAgentStream } from "./agent-stream";
+import type { GenerationSettings } from "@/lib/types";
 
 export interface ParallelExecutorOptions<T, R> {
   items: T[];
@@ -86,14 +88,16 @@ export interface AdvocateExecutorParams {
   sessionId: string;
   apiKey?: string;
   exaApiKey?: string;
+  model?: string;
+  generation?: GenerationSettings;
   maxParallelism: number;
   onProgress?: (option: string, content: string) => void;
 }
 
 export async function executeAdvocatesInParallel(
   params: AdvocateExecutorParams
-): Promise<ParallelExecutorResult<{ option: string; content: string }>> {
-  const { options, plan, sessionId, apiKey, exaApiKey, maxParallelism, onProgress } = params;
+): Promise<ParallelExecutorResult<{ option: string; content: string; data: Record<string, unknown> }>> {
+  const { options, plan, sessionId, apiKey, exaApiKey, model, generation, maxParallelism, onProgress } = params;
 
   return executeInParallel({
     items: options,
@@ -108,6 +112,8 @@ export async function executeAdvocatesInParallel(
           sessionId,
           apiKey,
           exaApiKey,
+          model,
+          generation,
         }),
       });
 
@@ -117,22 +123,11 @@ export async function executeAdvocatesInParallel(
       }
 
       // Stream the response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          fullContent += chunk;
-          onProgress?.(option, fullContent);
-        }
-      }
+      const { text, data } = await readAgentStream(response, {
+        onText: (fullContent) => onProgress?.(option, fullContent),
+      });
 
-      return { option, content: fullContent };
+      return { option, content: text, data };
     },
   });
 }
@@ -146,14 +141,16 @@ export interface CrossExaminerExecutorParams {
   sessionId: string;
   apiKey?: string;
   exaApiKey?: string;
+  model?: string;
+  generation?: GenerationSettings;
   maxParallelism: number;
   onProgress?: (option: string, content: string) => void;
 }
 
 export async function executeCrossExaminersInParallel(
   params: CrossExaminerExecutorParams
-): Promise<ParallelExecutorResult<{ option: string; content: string }>> {
-  const { advocateResponses, plan, sessionId, apiKey, exaApiKey, maxParallelism, onProgress } = params;
+): Promise<ParallelExecutorResult<{ option: string; content: string; data: Record<string, unknown> }>> {
+  const { advocateResponses, plan, sessionId, apiKey, exaApiKey, model, generation, maxParallelism, onProgress } = params;
 
   return executeInParallel({
     items: advocateResponses,
@@ -172,6 +169,8 @@ export async function executeCrossExaminersInParallel(
           sessionId,
           apiKey,
           exaApiKey,
+          model,
+          generation,
         }),
       });
 
@@ -181,22 +180,11 @@ export async function executeCrossExaminersInParallel(
       }
 
       // Stream the response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          fullContent += chunk;
-          onProgress?.(ownArg.option, fullContent);
-        }
-      }
+      const { text, data } = await readAgentStream(response, {
+        onText: (fullContent) => onProgress?.(ownArg.option, fullContent),
+      });
 
-      return { option: ownArg.option, content: fullContent };
+      return { option: ownArg.option, content: text, data };
     },
   });
 }
@@ -0,0 +1,41 @@
+/**
+ * Plan Review Helpers
+ * Shared by the orchestrator, which asks for the review, and the plan editor that answers it
+ */
+import { ReviewedPlanSchema, type ComparisonPlan, type ConfirmationRequest } from "@/lib/types";
+
+/**
+ * One advocate assignment per option, keeping existing advocate ids by position
+ */
+export function assignAdvocates(plan: ComparisonPlan): ComparisonPlan {
+  return {
+    ...plan,
+    assignments: plan.options.map((option, i) => ({
+      option,
+      advocateId: plan.assignments[i]?.advocateId ?? `advocate-${i + 1}`,
+    })),
+  };
+}
+
+/**
+ * Check an edited plan; returns the cleaned-up plan or the problems to show the user
+ */
+export function validateReviewedPlan(
+  plan: ComparisonPlan
+): { success: true; plan: ComparisonPlan } | { success: false; errors: string[] } {
+  const parsed = ReviewedPlanSchema.safeParse(plan);
+  if (parsed.success) return { success: true, plan: assignAdvocates(parsed.data) };
+  return { success: false, errors: [...new Set(parsed.error.issues.map((issue) => issue.message))] };
+}
+
+/**
+ * Confirmation request for starting a debate on a plan
+ */
+export function planConfirmation(plan: ComparisonPlan): ConfirmationRequest {
+  return {
+    action: "Start the debate with this plan",
+    details: `Compare ${plan.options.join(", ")} across ${plan.axes.length} axes (${plan.axes
+      .map((axis) => `${axis.name} ×${axis.weight}`)
+      .join(", ")})`,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Scoring Utilities
+ * Helpers for matching referee scores to plan options/axes and computing weighted totals
+ */
+import type { AxisScore, ComparisonAxis, ComparisonPlan } from "@/lib/types";
+import { parseMarkdownCustomKeys } from "./markdown-parser";
+
+/**
+ * Normalize a name for loose matching ("Developer_Experience" === "developer experience")
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Find the canonical name in a list that loosely matches the given name
+ */
+export function matchName(name: string, candidates: string[]): string | undefined {
+  const normalized = normalizeName(name);
+  if (!normalized) return undefined;
+  return candidates.find((c) => normalizeName(c) === normalized);
+}
+
+/**
+ * Clamp a score to the 1-10 scale used by AxisScoreSchema
+ */
+export function clampScore(score: number): number {
+  return Math.min(10, Math.max(1, Math.round(score * 10) / 10));
+}
+
+/**
+ * Compute the weighted total score for every option
+ * Axes without a score for an option contribute nothing and do not count toward its weight
+ */
+export function computeWeightedTotals(
+  scores: AxisScore[],
+  axes: ComparisonAxis[],
+  options: string[]
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const option of options) {
+    let weighted = 0;
+    let weightSum = 0;
+
+    for (const axisScore of scores) {
+      const axis = axes.find((a) => normalizeName(a.name) === normalizeName(axisScore.axis));
+      const score = axisScore.scores[option];
+      if (!axis || score === undefined) continue;
+      weighted += score * axis.weight;
+      weightSum += axis.weight;
+    }
+
+    totals[option] = weightSum > 0 ? weighted / weightSum : 0;
+  }
+
+  return totals;
+}
+
+/**
+ * Rank options by weighted total, highest first
+ */
+export function rankOptions(totals: Record<string, number>): string[] {
+  return Object.keys(totals).sort((a, b) => totals[b] - totals[a]);
+}
+
+/**
+ * Extract per-axis scores from the referee's _Score and _Table blocks
+ * Only axes and options present in the plan are kept
+ */
+export function scoresFromMarkdown(markdown: string, plan: ComparisonPlan): AxisScore[] {
+  const axisNames = plan.axes.map((a) => a.name);
+  const byAxis = new Map<string, Record<string, number>>();
+
+  const setScore = (axisName: string, optionName: string, value: number) => {
+    const axis = matchName(axisName, axisNames);
+    const option = matchName(optionName, plan.options);
+    if (!axis || !option || isNaN(value)) return;
+    const entry = byAxis.get(axis) ?? {};
+    entry[option] = clampScore(value);
+    byAxis.set(axis, entry);
+  };
+
+  for (const block of parseMarkdownCustomKeys(markdown)) {
+    if (block.type === "score") {
+      for (const s of block.scores) {
+        setScore(block.axis, s.option, s.score);
+      }
+    } else if (block.type === "table" && block.columns.length > 1) {
+      const [optionColumn, ...axisColumns] = block.columns;
+      for (const row of block.rows) {
+        const optionName = String(row[optionColumn.name] ?? "");
+        for (const col of axisColumns) {
+          const value = row[col.name];
+          setScore(col.name, optionName, typeof value === "number" ? value : parseFloat(String(value)));
+        }
+      }
+    }
+  }
+
+  // Preserve plan axis ordering
+  return axisNames
+    .filter((name) => byAxis.has(name))
+    .map((name) => ({ axis: name, scores: byAxis.get(name)! }));
+}
+
+/**
+ * A weight at which the leading option changes, holding every other axis weight fixed
+ */
+export interface WeightFlip {
+  axis: string;
+  weight: number;
+  // Option ranked first once the axis reaches this weight
+  leader: string;
+}
+
+// Slider range allowed by ComparisonAxisSchema.weight
+const MIN_WEIGHT = 1;
+const MAX_WEIGHT = 10;
+
+/**
+ * Find, for each scored axis, the nearest whole weights below and above its current one
+ * at which a different option takes the lead
+ */
+export function findWeightFlips(
+  scores: AxisScore[],
+  axes: ComparisonAxis[],
+  options: string[]
+): WeightFlip[] {
+  const leaderAt = (axisName: string, weight: number) =>
+    rankOptions(
+      computeWeightedTotals(
+        scores,
+        axes.map((a) => (a.name === axisName ? { ...a, weight } : a)),
+        options
+      )
+    )[0];
+
+  const current = rankOptions(computeWeightedTotals(scores, axes, options))[0];
+  if (!current) return [];
+
+  const flips: WeightFlip[] = [];
+  for (const axis of axes) {
+    if (!scores.some((s) => normalizeName(s.axis) === normalizeName(axis.name))) continue;
+
+    const start = Math.round(axis.weight);
+    // Walk down, then up, from the current weight and stop at the first change each way
+    for (const step of [-1, 1]) {
+      for (let weight = start + step; weight >= MIN_WEIGHT && weight <= MAX_WEIGHT; weight += step) {
+        const leader = leaderAt(axis.name, weight);
+        if (leader !== current) {
+          flips.push({ axis: axis.name, weight, leader });
+          break;
+        }
+      }
+    }
+  }
+
+  return flips;
+}
@@ -0,0 +1,333 @@
+/**
+ * Session Report
+ * Renders a ComparisonSession as a standalone decision report, in markdown or self-contained HTML
+ */
+import { Marked } from "marked";
+import type { ComparisonSession, CrossExamineResponse } from "@/lib/types";
+import { parseMarkdownCustomKeys, type ParsedScore } from "./markdown-parser";
+import { computeWeightedTotals } from "./scoring";
+import { formatTokens, sumUsage } from "./usage";
+
+// Keep table cells on one line and stop pipes from splitting columns
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+// Nest an agent's own headings under the section that quotes it
+function demoteHeadings(markdown: string, levels: number): string {
+  return markdown.replace(/^(#{1,6})(?=\s)/gm, (hashes) => "#".repeat(Math.min(hashes.length + levels, 6)));
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? "-" : score.toFixed(1);
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.map(cell).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ].join("\n");
+}
+
+// Consecutive _Score lines become one table, one row per axis
+function scoreTable(scores: ParsedScore[]): string {
+  const options = [...new Set(scores.flatMap((s) => s.scores.map((entry) => entry.option)))];
+  return markdownTable(
+    ["Axis", ...options.map((option) => option.replace(/_/g, " "))],
+    scores.map((s) => [
+      s.axis.replace(/_/g, " "),
+      ...options.map((option) => String(s.scores.find((entry) => entry.option === option)?.score ?? "-")),
+    ])
+  );
+}
+
+/**
+ * Replace the _Table, _Score and _Poll keys in agent output with plain markdown
+ * The chat renders these keys as components; a report has to stand on its own
+ */
+export function renderCustomKeys(markdown: string): string {
+  const parts: string[] = [];
+  let scores: ParsedScore[] = [];
+  const flushScores = () => {
+    if (scores.length > 0) parts.push(scoreTable(scores));
+    scores = [];
+  };
+
+  for (const block of parseMarkdownCustomKeys(markdown)) {
+    if (block.type === "score") {
+      scores.push(block);
+      continue;
+    }
+    flushScores();
+    if (block.type === "text") {
+      parts.push(block.content.trim());
+    } else if (block.type === "table") {
+      const headers = block.columns.map((column) => column.name);
+      parts.push(markdownTable(headers, block.rows.map((row) => headers.map((header) => String(row[header] ?? "")))));
+    } else {
+      parts.push(block.options.map((option) => `- ${option}`).join("\n"));
+    }
+  }
+  flushScores();
+
+  return parts.filter(Boolean).join("\n\n");
+}
+
+// Agent output as a report section: custom keys rendered, headings nested under the section's own
+function agentMarkdown(markdown: string, levels: number): string {
+  return demoteHeadings(renderCustomKeys(markdown.trim()), levels);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Clarification answers with the questions they answer; chat answers carry their question
+function clarificationAnswers(session: ComparisonSession): { question: string; answer: string }[] {
+  const entries = session.transcript?.entries ?? [];
+  return entries
+    .filter((entry) => entry.type === "clarification_answer")
+    .map((entry) => {
+      const questionId = entry.metadata?.questionId;
+      const asked = entries.find((e) => e.type === "clarification_question" && e.metadata?.questionId === questionId);
+      const question = entry.metadata?.question ?? asked?.content ?? questionId;
+      return { question: typeof question === "string" ? question : "Clarification", answer: entry.content };
+    });
+}
+
+// Who judged, when, how long it took and what it used
+function metadataLines(session: ComparisonSession): string[] {
+  const lines = [`- **Date:** ${new Date(session.createdAt).toISOString().slice(0, 10)}`];
+
+  const transcript = session.transcript;
+  if (transcript?.completedAt) {
+    const ms = new Date(transcript.completedAt).getTime() - new Date(transcript.startedAt).getTime();
+    lines.push(`- **Duration:** ${formatDuration(ms)}`);
+  }
+
+  // Models by the roles that used them, falling back to the referee's model
+  const roles = new Map<string, Set<string>>();
+  for (const call of session.usage ?? []) {
+    if (call.model) roles.set(call.model, (roles.get(call.model) ?? new Set()).add(call.role));
+  }
+  if (roles.size > 0) {
+    const models = [...roles].map(([model, used]) => `${model} (${[...used].join(", ")})`);
+    lines.push(`- **Models:** ${models.join("; ")}`);
+  } else if (session.model) {
+    lines.push(`- **Model:** ${session.model}`);
+  }
+
+  if (session.usage?.length) {
+    const usage = sumUsage(session.usage.map((call) => call.usage));
+    lines.push(`- **Usage:** ${formatTokens(usage.totalTokens)} tokens, ${usage.searchCalls} searches`);
+  }
+  lines.push(`- **Status:** ${session.status}`, `- **Session:** \`${session.id}\``);
+  return lines;
+}
+
+// List every challenge from a set of cross-examinations under a heading, if there are any
+function pushChallenges(lines: string[], heading: string, crossExaminations: CrossExamineResponse[]) {
+  const challenges = crossExaminations.flatMap((exam) =>
+    exam.challenges.map((challenge) => ({ by: exam.option, ...challenge }))
+  );
+  if (challenges.length === 0) return;
+
+  lines.push(heading, "");
+  for (const challenge of challenges) {
+    const verdict = challenge.factCheck ? ` _(${challenge.factCheck.verdict})_` : "";
+    lines.push(`- **${challenge.by} → ${challenge.targetOption}:** "${challenge.claim}"${verdict}`, `  ${challenge.critique}`);
+  }
+  lines.push("");
+}
+
+/**
+ * Render a session as markdown: clarifications, plan, verdict, bracket, scores, arguments,
+ * challenges, rebuttal rounds, follow-ups and a metadata footer
+ */
+export function sessionToMarkdown(session: ComparisonSession): string {
+  const { plan, result } = session;
+  const lines: string[] = [`# ${session.query}`, ""];
+
+  if (session.error) {
+    lines.push(`> **Error:** ${session.error}`, "");
+  }
+
+  if (session.fork) {
+    const step = session.fork.rerun === "referee" ? "the verdict" : "cross-examination and the verdict";
+    lines.push(`> Forked from session \`${session.fork.sessionId}\` with changed constraints; re-ran ${step} on its research.`, "");
+  }
+
+  const clarifications = clarificationAnswers(session);
+  if (clarifications.length > 0) {
+    lines.push("## Clarifications", "");
+    for (const { question, answer } of clarifications) {
+      lines.push(`- **${question}** ${answer}`);
+    }
+    lines.push("");
+  }
+
+  if (plan) {
+    lines.push("## Plan", "", `**Options:** ${plan.options.join(", ")}`, "");
+    if (plan.constraints.length > 0) {
+      lines.push("**Constraints:**", "");
+      for (const constraint of plan.constraints) {
+        lines.push(`- ${constraint.type}: ${constraint.description}${constraint.value ? ` (${constraint.value})` : ""}`);
+      }
+      lines.push("");
+    }
+    lines.push("**Axes:**", "");
+    for (const axis of plan.axes) {
+      lines.push(`- **${axis.name}** (weight ${axis.weight}): ${axis.description}`);
+    }
+    lines.push("");
+  }
+
+  if (result) {
+    const { recommendation } = result;
+    lines.push(
+      "## Recommendation",
+      "",
+      `**${recommendation.option}** (${recommendation.confidence} confidence)`,
+      "",
+      recommendation.reasoning,
+      ""
+    );
+
+    if (session.tournament) {
+      lines.push("## Tournament", "");
+      for (const match of session.tournament.matches) {
+        const outcome = match.ranking ? ` → **${match.ranking[0]}**` : "";
+        lines.push(`- Round ${match.round}: ${match.options.join(" vs ")}${outcome}`);
+      }
+      lines.push("");
+    }
+
+    if (plan && result.scores.length > 0) {
+      // A tournament's verdict only scores the finalists
+      const options = session.tournament?.matches.at(-1)?.options ?? plan.options;
+      const totals = computeWeightedTotals(result.scores, plan.axes, options);
+      const rows = result.scores.map((axisScore) => [axisScore.axis, ...options.map((o) => formatScore(axisScore.scores[o]))]);
+      rows.push(["**Weighted total**", ...options.map((o) => `**${formatScore(totals[o])}**`)]);
+      lines.push("## Scores", "", markdownTable(["Axis", ...options], rows), "");
+    }
+
+    if (result.tradeoffs.length > 0) {
+      lines.push("## Tradeoffs", "");
+      for (const tradeoff of result.tradeoffs) {
+        lines.push(`- **${tradeoff.condition}:** ${tradeoff.recommendation}`);
+      }
+      lines.push("");
+    }
+
+    if (result.caveats.length > 0) {
+      lines.push("## Caveats", "");
+      for (const caveat of result.caveats) {
+        lines.push(`- ${caveat}`);
+      }
+      lines.push("");
+    }
+  }
+
+  if (session.arguments?.length) {
+    lines.push("## Arguments", "");
+    for (const argument of session.arguments) {
+      lines.push(`### ${argument.option}`, "");
+      if (argument.error) {
+        lines.push(`> **Error:** ${argument.error}`, "");
+      }
+      // Weaknesses are already a section of the argument itself
+      lines.push(agentMarkdown(argument.argument, 2), "");
+      if (argument.sources.length > 0) {
+        lines.push("**Sources:**", "");
+        argument.sources.forEach((source, i) => {
+          lines.push(`${i + 1}. [${source.title}](${source.url})`);
+        });
+        lines.push("");
+      }
+    }
+  }
+
+  pushChallenges(lines, "## Challenges", session.crossExaminations ?? []);
+
+  for (const round of session.rounds ?? []) {
+    lines.push(`## Round ${round.round}`, "");
+    for (const rebuttal of round.rebuttals) {
+      lines.push(`### Rebuttal by ${rebuttal.option}`, "");
+      if (rebuttal.error) {
+        lines.push(`> **Error:** ${rebuttal.error}`, "");
+        continue;
+      }
+      lines.push(agentMarkdown(rebuttal.argument, 2), "");
+    }
+    pushChallenges(lines, `### Round ${round.round} Challenges`, round.crossExaminations);
+  }
+
+  // The recommendation above is the latest one; follow-ups that changed it say so
+  if (session.followUps?.length) {
+    lines.push("## Follow-up Questions", "");
+    for (const followUp of session.followUps) {
+      lines.push(`### ${followUp.question}`, "", agentMarkdown(followUp.answer, 2), "");
+      if (followUp.result) {
+        const { option, confidence } = followUp.result.recommendation;
+        lines.push(`> **Verdict updated:** ${option} (${confidence} confidence)`, "");
+      }
+    }
+  }
+
+  lines.push("---", "", "## About this report", "", ...metadataLines(session));
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Agent output is untrusted: raw HTML is shown as text and only web and file links stay clickable
+const reportMarked = new Marked({
+  gfm: true,
+  renderer: {
+    html: ({ text }) => escapeHtml(text),
+    link({ href, tokens }) {
+      return /^(https?|file):/i.test(href) ? false : this.parser.parseInline(tokens);
+    },
+  },
+});
+
+const REPORT_STYLES = `
+  body { font: 15px/1.6 system-ui, -apple-system, sans-serif; color: #292524; max-width: 860px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1, h2, h3 { font-family: Georgia, serif; line-height: 1.25; }
+  h2 { border-bottom: 1px solid #e7e5e4; padding-bottom: .3rem; margin-top: 2.2rem; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #e7e5e4; padding: .35rem .7rem; text-align: left; }
+  th { background: #fafaf9; }
+  blockquote { border-left: 3px solid #f59e0b; margin: 1rem 0; padding: .2rem 1rem; color: #57534e; }
+  code { background: #f5f5f4; padding: .1rem .3rem; border-radius: 4px; }
+  a { color: #b45309; }
+  hr { border: 0; border-top: 1px solid #e7e5e4; margin: 2.5rem 0 1rem; }
+`;
+
+/**
+ * Render a session as a self-contained HTML page - no scripts, no external assets
+ */
+export function sessionToHtml(session: ComparisonSession): string {
+  const body = reportMarked.parse(sessionToMarkdown(session), { async: false });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.query)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${body}</body>
+</html>
+`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Usage Totals
+ * Adds up token, tool-call and search usage reported by agent requests and estimates its cost
+ */
+import {
+  DEFAULT_PRICE_TABLE,
+  type AgentCallUsage,
+  type AgentUsage,
+  type AgentUsageReport,
+  type ModelPrice,
+  type PriceOverrides,
+  type PriceTable,
+  type UsageBudget,
+} from "@/lib/types";
+import { parseModelId } from "./model-id";
+
+export const EMPTY_USAGE: AgentUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, toolCalls: 0, searchCalls: 0 };
+
+/**
+ * Add up usage across agent calls
+ */
+export function sumUsage(usages: AgentUsage[]): AgentUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      toolCalls: total.toolCalls + usage.toolCalls,
+      searchCalls: total.searchCalls + usage.searchCalls,
+    }),
+    EMPTY_USAGE
+  );
+}
+
+/**
+ * Look up a model's price - its exact id first, then its provider's "<provider>:*" entry
+ */
+export function findModelPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+  return prices.models[model] ?? prices.models[`${parseModelId(model).provider}:*`];
+}
+
+/**
+ * The default price table with the user's changes applied
+ */
+export function applyPriceOverrides(overrides: PriceOverrides): PriceTable {
+  return {
+    models: { ...DEFAULT_PRICE_TABLE.models, ...overrides.models },
+    search: { ...DEFAULT_PRICE_TABLE.search, ...overrides.search },
+  };
+}
+
+/**
+ * The prices in a table that differ from the defaults
+ */
+export function findPriceOverrides(prices: PriceTable): PriceOverrides {
+  const changed = <T>(entries: Record<string, T>, defaults: Record<string, T>) =>
+    Object.fromEntries(
+      Object.entries(entries).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key]))
+    );
+  return {
+    models: changed(prices.models, DEFAULT_PRICE_TABLE.models),
+    search: changed(prices.search, DEFAULT_PRICE_TABLE.search),
+  };
+}
+
+/**
+ * Estimated USD cost of one agent call, or undefined when its model has no price
+ */
+export function estimateCallCost(call: AgentUsageReport, prices: PriceTable): number | undefined {
+  const price = call.model ? findModelPrice(call.model, prices) : undefined;
+  if (!price) return undefined;
+
+  const searchPrice = call.searchProvider ? prices.search[call.searchProvider] ?? 0 : 0;
+  return (
+    (call.usage.inputTokens * price.input + call.usage.outputTokens * price.output) / 1_000_000 +
+    call.usage.searchCalls * searchPrice
+  );
+}
+
+export interface UsageSummary {
+  usage: AgentUsage;
+  // Estimated USD cost of the calls whose model has a price
+  cost: number;
+  // Models without a price; their calls are left out of the cost
+  unpricedModels: string[];
+}
+
+/**
+ * Total usage and estimated cost across agent calls
+ */
+export function summarizeUsage(calls: AgentCallUsage[], prices: PriceTable): UsageSummary {
+  let cost = 0;
+  const unpriced = new Set<string>();
+  for (const call of calls) {
+    const callCost = estimateCallCost(call, prices);
+    if (callCost === undefined) unpriced.add(call.model ?? "unknown");
+    else cost += callCost;
+  }
+  return { usage: sumUsage(calls.map((call) => call.usage)), cost, unpricedModels: [...unpriced] };
+}
+
+/**
+ * Whether usage has reached any of a budget's limits
+ */
+export function isBudgetExhausted(budget: UsageBudget, spent: Pick<UsageSummary, "usage" | "cost">): boolean {
+  return (
+    (budget.maxTokens !== undefined && spent.usage.totalTokens >= budget.maxTokens) ||
+    (budget.maxCostUsd !== undefined && spent.cost >= budget.maxCostUsd) ||
+    (budget.maxSearchCalls !== undefined && spent.usage.searchCalls >= budget.maxSearchCalls)
+  );
+}
+
+/**
+ * A share (0-1) of what is left of a budget; call only while it is not exhausted
+ * Token shares are at least 1, search shares may round down to 0
+ */
+export function shareBudget(budget: UsageBudget, spent: Pick<UsageSummary, "usage" | "cost">, share: number): UsageBudget {
+  return {
+    maxTokens:
+      budget.maxTokens !== undefined
+        ? Math.max(1, Math.floor((budget.maxTokens - spent.usage.totalTokens) * share))
+        : undefined,
+    maxCostUsd: budget.maxCostUsd !== undefined ? (budget.maxCostUsd - spent.cost) * share : undefined,
+    maxSearchCalls:
+      budget.maxSearchCalls !== undefined
+        ? Math.floor((budget.maxSearchCalls - spent.usage.searchCalls) * share)
+        : undefined,
+  };
+}
+
+/**
+ * Compact token count, e.g. 950, 12.4k, 1.2M
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${Number((tokens / 1000).toFixed(1))}k`;
+  return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+}
+
+/**
+ * USD amount with enough precision for fractions of a cent
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}